@@ -26,6 +26,16 @@ const IGNORED_ENDPOINTS = [
   '/api/stock/{ticker}/spot-exposures/{expiry}/strike',
 ]
 
+// Tools that manage the server itself and never call the API
+const LOCAL_TOOL_FILES = ['cache.ts', 'status.ts']
+
+// Params handled by the server rather than sent to the API, by file:action
+const LOCAL_PARAMS = {
+  'company.ts:transcript': ['offset', 'max_chars'],
+  'alert-configs.ts:create_configuration': ['target'],
+  'alert-configs.ts:update_configuration': ['target'],
+}
+
 function loadOpenAPISpec() {
   console.log('Loading OpenAPI spec...')
   try {
@@ -74,6 +84,9 @@ function extractSpecEndpoints(spec) {
         const resolved = param.$ref ? resolveRef(param.$ref, spec) : param
         if (!resolved?.name) continue
 
+        // Aliases of another param (e.g. chain[] for option_contracts[]) need no separate field
+        if (resolved.schema?.description?.startsWith('Alias for')) continue
+
         const name = resolved.name
         params.all.add(name)
 
@@ -84,6 +97,18 @@ function extractSpecEndpoints(spec) {
         }
       }
 
+      // JSON request body fields count as params too
+      const bodySchema = details.requestBody?.content?.['application/json']?.schema
+      const resolvedBody = bodySchema?.$ref ? resolveRef(bodySchema.$ref, spec) : bodySchema
+      for (const name of Object.keys(resolvedBody?.properties || {})) {
+        params.all.add(name)
+        if (resolvedBody.required?.includes(name)) {
+          params.required.add(name)
+        } else {
+          params.optional.add(name)
+        }
+      }
+
       endpoints.set(`${method.toUpperCase()} ${path}`, {
         path,
         method: method.toUpperCase(),
@@ -97,6 +122,108 @@ function extractSpecEndpoints(spec) {
   return endpoints
 }
 
+// Pull the param definitions out of a z.object body, inlining spread field objects
+function parseObjectParams(body, content, params) {
+  const lines = body.split('\n')
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line || line.startsWith('//') || line.startsWith('/*')) continue
+
+    // Shared fields spread in from a plain object (e.g. ...indicatorFields,)
+    const spreadMatch = line.match(/^\.\.\.(\w+),?$/)
+    if (spreadMatch) {
+      const fieldsMatch = content.match(new RegExp(`const\\s+${spreadMatch[1]}\\s*=\\s*\\{([\\s\\S]*?)\\n\\}`))
+      if (fieldsMatch) parseObjectParams(fieldsMatch[1], content, params)
+      continue
+    }
+
+    const paramMatch = line.match(/^(\w+):\s*(.+)/)
+    if (!paramMatch) continue
+
+    const paramName = paramMatch[1]
+    let paramDef = paramMatch[2]
+
+    if (paramName === 'action_type') {
+      const actionMatch = paramDef.match(/z.literal\(["'](\w+)["']\)/)
+      if (actionMatch) params.action = actionMatch[1]
+      continue
+    }
+
+    // Multi-line definitions - keep reading until we hit a comma
+    if (!paramDef.endsWith(',')) {
+      let j = i + 1
+      while (j < lines.length && !lines[j].trim().match(/,\s*$/)) {
+        paramDef += ' ' + lines[j].trim()
+        j++
+      }
+      if (j < lines.length) {
+        paramDef += ' ' + lines[j].trim()
+      }
+    }
+
+    // A later definition of the same param (e.g. overriding a spread field) wins
+    params.required.delete(paramName)
+    params.optional.delete(paramName)
+    params.all.add(paramName)
+
+    if (paramDef.includes('.optional()')) {
+      params.optional.add(paramName)
+    } else {
+      params.required.add(paramName)
+    }
+  }
+  return params
+}
+
+// Resolve a union member to its action name and params. Members may themselves be
+// discriminated unions on another key (e.g. per-function variants of one action);
+// their variants are merged, with a param required only if every variant requires it.
+function parseActionSchema(schemaName, content) {
+  // Handle schema names with special chars like $
+  const escapedName = schemaName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+  const nestedMatch = content.match(new RegExp(
+    `const\\s+${escapedName}\\s*=\\s*z\\.discriminatedUnion\\(["']\\w+["'],\\s*\\[([\\s\\S]*?)\\]`
+  ))
+  if (nestedMatch) {
+    const variants = nestedMatch[1]
+      .split(',')
+      .map(s => s.trim())
+      .filter(s => s && !s.startsWith('//') && !s.startsWith('/*'))
+      .map(name => parseActionSchema(name, content))
+      .filter(Boolean)
+    if (variants.length === 0) return null
+
+    const merged = { action: variants[0].action, required: new Set(), optional: new Set(), all: new Set() }
+    for (const variant of variants) {
+      for (const param of variant.all) merged.all.add(param)
+    }
+    for (const param of merged.all) {
+      if (variants.every(v => v.required.has(param))) {
+        merged.required.add(param)
+      } else {
+        merged.optional.add(param)
+      }
+    }
+    return merged
+  }
+
+  const schemaPattern = new RegExp(
+    `const\\s+${escapedName}\\s*=\\s*z\\.object\\(\\{([\\s\\S]*?)\\}\\)`,
+    ''
+  )
+  const schemaMatch = content.match(schemaPattern)
+  if (!schemaMatch) return null
+
+  const params = parseObjectParams(schemaMatch[1], content, {
+    action: null,
+    required: new Set(),
+    optional: new Set(),
+    all: new Set()
+  })
+  return params.action ? params : null
+}
+
 // Parse a tool file and pull out all the action schemas from its discriminated union
 function extractActionSchemas(toolFile) {
   const actions = new Map()
@@ -118,63 +245,11 @@ function extractActionSchemas(toolFile) {
 
     for (const schemaName of schemaNames) {
       try {
-        // Handle schema names with special chars like $
-        const escapedName = schemaName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-
-        const schemaPattern = new RegExp(
-          `const\\s+${escapedName}\\s*=\\s*z\\.object\\(\\{([\\s\\S]*?)\\}\\)`,
-          ''
-        )
-        const schemaMatch = content.match(schemaPattern)
-        if (!schemaMatch) continue
-
-        const schemaBody = schemaMatch[1]
-        const actionMatch = schemaBody.match(/action_type: z.literal\(["'](\w+)["']\)/)
-        if (!actionMatch) continue
-
-        const actionName = actionMatch[1]
-        const params = {
-          required: new Set(),
-          optional: new Set(),
-          all: new Set()
-        }
-
-        // Go through each line looking for param definitions
-        const lines = schemaBody.split('\n')
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i].trim()
-          if (!line || line.startsWith('//') || line.startsWith('/*')) continue
-
-          const paramMatch = line.match(/^(\w+):\s*(.+)/)
-          if (!paramMatch) continue
-
-          const paramName = paramMatch[1]
-          let paramDef = paramMatch[2]
-
-          if (paramName === 'action_type') continue
-
-          // Multi-line definitions - keep reading until we hit a comma
-          if (!paramDef.endsWith(',')) {
-            let j = i + 1
-            while (j < lines.length && !lines[j].trim().match(/,\s*$/)) {
-              paramDef += ' ' + lines[j].trim()
-              j++
-            }
-            if (j < lines.length) {
-              paramDef += ' ' + lines[j].trim()
-            }
-          }
-
-          params.all.add(paramName)
-
-          if (paramDef.includes('.optional()')) {
-            params.optional.add(paramName)
-          } else {
-            params.required.add(paramName)
-          }
-        }
+        const parsed = parseActionSchema(schemaName, content)
+        if (!parsed) continue
 
-        actions.set(actionName, params)
+        const { action, ...params } = parsed
+        actions.set(action, params)
       } catch (error) {
         console.warn(`Error processing schema ${schemaName}: ${error.message}`)
       }
@@ -259,7 +334,7 @@ function extractActionToEndpoint(toolFile) {
         if (currentAction && currentBody.length > 0) {
           const body = currentBody.join('\n')
           const endpoint = extractEndpointFromBody(body)
-          if (endpoint) mapping.set(currentAction, endpoint)
+          if (endpoint) mapping.set(currentAction, { endpoint, method: extractMethodFromBody(body) })
         }
         currentAction = actionMatch[1]
         currentBody = [line]
@@ -302,7 +377,7 @@ function extractActionToEndpoint(toolFile) {
     if (currentAction && currentBody.length > 0) {
       const body = currentBody.join('\n')
       const endpoint = extractEndpointFromBody(body)
-      if (endpoint) mapping.set(currentAction, endpoint)
+      if (endpoint) mapping.set(currentAction, { endpoint, method: extractMethodFromBody(body) })
     }
 
   } catch (error) {
@@ -324,11 +399,17 @@ function extractEndpointFromBody(body) {
   return null
 }
 
+// Handlers pass { method: "POST" } to uwFetch for anything other than a GET
+function extractMethodFromBody(body) {
+  const methodMatch = body.match(/method:\s*["'](\w+)["']/)
+  return methodMatch ? methodMatch[1].toUpperCase() : 'GET'
+}
+
 // Go through all tool files and build a map of what we've implemented
 function extractImplementedActions() {
   const toolsDir = join(ROOT_DIR, 'src', 'tools')
   const files = readdirSync(toolsDir).filter(
-    f => f.endsWith('.ts') && f !== 'index.ts' && !f.startsWith('base')
+    f => f.endsWith('.ts') && f !== 'index.ts' && !f.startsWith('base') && !LOCAL_TOOL_FILES.includes(f)
   )
 
   const allActions = new Map()
@@ -339,8 +420,8 @@ function extractImplementedActions() {
     const endpoints = extractActionToEndpoint(filePath)
 
     for (const [actionName, params] of actions) {
-      const endpoint = endpoints.get(actionName)
-      if (!endpoint) {
+      const mapped = endpoints.get(actionName)
+      if (!mapped) {
         console.warn(`No endpoint mapping found for action: ${actionName} in ${file}`)
         continue
       }
@@ -350,7 +431,8 @@ function extractImplementedActions() {
         file,
         actionName,
         params,
-        endpoint
+        endpoint: mapped.endpoint,
+        method: mapped.method
       })
     }
   }
@@ -364,28 +446,32 @@ function normalizeParamName(param) {
   return param.endsWith('[]') ? param.slice(0, -2) : param
 }
 
-function compareParameters(actionName, impl, spec, results) {
+// coveredParams holds the params of every action calling the same endpoint, so an
+// endpoint split across actions (e.g. create and update) is not reported as missing any
+function compareParameters(actionName, impl, spec, results, coveredParams = impl.params.all) {
   const missing = { required: [], optional: [] }
   const extra = []
 
   // What's in the spec that we're missing?
   for (const param of spec.params.required) {
     const normalizedParam = normalizeParamName(param)
-    if (!impl.params.all.has(normalizedParam)) {
+    if (!coveredParams.has(normalizedParam)) {
       missing.required.push(param)
     }
   }
 
   for (const param of spec.params.optional) {
     const normalizedParam = normalizeParamName(param)
-    if (!impl.params.all.has(normalizedParam)) {
+    if (!coveredParams.has(normalizedParam)) {
       missing.optional.push(param)
     }
   }
 
   // What do we have that's not in the spec?
+  const localParams = LOCAL_PARAMS[`${impl.file}:${actionName}`] || []
   for (const param of impl.params.all) {
     const withBrackets = `${param}[]`
+    if (localParams.includes(param)) continue
     if (!spec.params.all.has(param) && !spec.params.all.has(withBrackets)) {
       extra.push(param)
     }
@@ -411,16 +497,18 @@ function compareAPIs(specEndpoints, implementedActions) {
   }
 
   const checkedSpec = new Set()
+  const matched = []
+  const paramsBySpecKey = new Map()
 
   for (const [key, impl] of implementedActions) {
     const endpoint = impl.endpoint
     const actionName = impl.actionName
 
     // Most are GET, but check POST too
-    let specKey = `GET ${endpoint}`
+    let specKey = `${impl.method} ${endpoint}`
     let spec = specEndpoints.get(specKey)
 
-    if (!spec) {
+    if (!spec && impl.method === 'GET') {
       specKey = `POST ${endpoint}`
       spec = specEndpoints.get(specKey)
     }
@@ -433,10 +521,17 @@ function compareAPIs(specEndpoints, implementedActions) {
       })
     } else {
       checkedSpec.add(specKey)
-      compareParameters(actionName, impl, spec, results)
+      matched.push({ impl, spec, specKey })
+      const covered = paramsBySpecKey.get(specKey) || new Set()
+      for (const param of impl.params.all) covered.add(param)
+      paramsBySpecKey.set(specKey, covered)
     }
   }
 
+  for (const { impl, spec, specKey } of matched) {
+    compareParameters(impl.actionName, impl, spec, results, paramsBySpecKey.get(specKey))
+  }
+
   // What's in the spec that we haven't touched?
   for (const [key, spec] of specEndpoints) {
     if (!checkedSpec.has(key) && !IGNORED_ENDPOINTS.includes(spec.path)) {
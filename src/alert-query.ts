@@ -0,0 +1,798 @@
+/**
+ * Local parser and type checker for the alert Query language.
+ *
+ * Alert configurations can be written as SQL-like expressions such as
+ * `add @energy where calls and volume > 100` or
+ * `ln(strike / spot) / (iv * sqrt(dte / 365)) > 2`. Rather than find out about a
+ * typo from a rejected POST, expressions are checked here first against the
+ * grammar the API publishes for the alert's target (fields, functions,
+ * operators, and scopes), with each error pointing at the column it occurs at.
+ * Grammars are fetched once per target and cached. The grammar response is only
+ * loosely specified, so when it cannot be read with confidence no local check is
+ * made and the API is left to validate the expression.
+ */
+
+import { uwFetch } from "./client.js"
+import { logger } from "./logger.js"
+
+const GRAMMAR_TTL_MS = 60 * 60 * 1000
+
+/** Words with a meaning in the language; they cannot be used as field names */
+const KEYWORDS = new Set(["add", "where", "and", "or", "not", "in", "true", "false"])
+
+const COMPARISON_OPERATORS = new Set(["=", "!=", ">", ">=", "<", "<="])
+const ADDITIVE_OPERATORS = new Set(["+", "-"])
+const MULTIPLICATIVE_OPERATORS = new Set(["*", "/", "%"])
+const OPERATOR_PATTERN = /^(>=|<=|!=|<>|==|=|>|<|\+|-|\*|\/|%)/
+
+export type AlertQueryValueType = "number" | "string" | "boolean" | "unknown"
+
+/**
+ * The parts of a Query language grammar used for checking, normalized from the
+ * grammar endpoint's response. Empty collections other than fields mean the
+ * grammar did not list them in a recognized form, so they are not checked.
+ */
+export interface AlertQueryGrammar {
+  /** Field types by lowercase name */
+  fields: Map<string, AlertQueryValueType>
+  /** Function argument counts by lowercase name, undefined when not given */
+  functions: Map<string, number | undefined>
+  /** Comparison and arithmetic operators */
+  operators: Set<string>
+  /** Scope names, lowercase and without the leading @ */
+  scopes: Set<string>
+}
+
+export interface AlertQueryError {
+  message: string
+  /** Offset of the offending token in the expression (0-based) */
+  position: number
+}
+
+type TokenKind = "number" | "string" | "identifier" | "scope" | "operator" | "lparen" | "rparen" | "comma" | "end"
+
+interface Token {
+  kind: TokenKind
+  value: string
+  position: number
+}
+
+type AlertQueryNode =
+  | { kind: "number", value: number, position: number }
+  | { kind: "string", value: string, position: number }
+  | { kind: "boolean", value: boolean, position: number }
+  | { kind: "field", name: string, position: number }
+  | { kind: "call", name: string, args: AlertQueryNode[], position: number }
+  | { kind: "unary", operator: "not" | "-", operand: AlertQueryNode, position: number }
+  | { kind: "binary", operator: string, left: AlertQueryNode, right: AlertQueryNode, position: number }
+  | { kind: "in", operand: AlertQueryNode, values: AlertQueryNode[], negated: boolean, position: number }
+
+/** A parsed expression: the optional `add` targets plus the filter condition */
+export interface ParsedAlertQuery {
+  /** Scopes without the leading @ (e.g. energy for @energy) */
+  scopes: Array<{ name: string, position: number }>
+  tickers: Array<{ name: string, position: number }>
+  condition?: AlertQueryNode
+}
+
+/**
+ * An expression that could not be parsed, at the position of the first bad token.
+ */
+export class AlertQuerySyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message)
+    this.name = "AlertQuerySyntaxError"
+  }
+}
+
+/**
+ * Split an expression into tokens.
+ *
+ * @throws {AlertQuerySyntaxError} On an unterminated string or unexpected character
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < input.length) {
+    const char = input[index]
+
+    if (/\s/.test(char)) {
+      index++
+      continue
+    }
+
+    const rest = input.slice(index)
+    const number = rest.match(/^\d+(\.\d+)?/)
+    if (number) {
+      tokens.push({ kind: "number", value: number[0], position: index })
+      index += number[0].length
+      continue
+    }
+
+    const identifier = rest.match(/^[A-Za-z_][A-Za-z0-9_.]*/)
+    if (identifier) {
+      tokens.push({ kind: "identifier", value: identifier[0], position: index })
+      index += identifier[0].length
+      continue
+    }
+
+    if (char === "@") {
+      const scope = rest.match(/^@([A-Za-z0-9_-]+)/)
+      if (!scope) {
+        throw new AlertQuerySyntaxError("Expected a scope name after '@'", index)
+      }
+      tokens.push({ kind: "scope", value: scope[1], position: index })
+      index += scope[0].length
+      continue
+    }
+
+    if (char === "'" || char === "\"") {
+      // Quotes inside a string are doubled, as in SQL
+      let value = ""
+      let end = index + 1
+      while (end < input.length) {
+        if (input[end] === char) {
+          if (input[end + 1] !== char) break
+          end++
+        }
+        value += input[end]
+        end++
+      }
+      if (end >= input.length) {
+        throw new AlertQuerySyntaxError("Unterminated string", index)
+      }
+      tokens.push({ kind: "string", value, position: index })
+      index = end + 1
+      continue
+    }
+
+    const operator = rest.match(OPERATOR_PATTERN)
+    if (operator) {
+      const value = operator[0] === "==" ? "=" : operator[0] === "<>" ? "!=" : operator[0]
+      tokens.push({ kind: "operator", value, position: index })
+      index += operator[0].length
+      continue
+    }
+
+    const punctuation: Record<string, TokenKind> = { "(": "lparen", ")": "rparen", ",": "comma" }
+    if (punctuation[char]) {
+      tokens.push({ kind: punctuation[char], value: char, position: index })
+      index++
+      continue
+    }
+
+    throw new AlertQuerySyntaxError(`Unexpected character '${char}'`, index)
+  }
+
+  tokens.push({ kind: "end", value: "", position: input.length })
+  return tokens
+}
+
+/**
+ * Recursive descent parser over the token list. Precedence from loosest to
+ * tightest: or, and, not, comparison and in, + and -, *, / and %, unary minus.
+ */
+class Parser {
+  private index = 0
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseQuery(): ParsedAlertQuery {
+    const query: ParsedAlertQuery = { scopes: [], tickers: [] }
+    let hasTargets = false
+
+    if (this.isKeyword("add")) {
+      const add = this.next()
+      this.parseTargets(query)
+      if (query.scopes.length === 0 && query.tickers.length === 0) {
+        throw new AlertQuerySyntaxError("Expected a scope (e.g., @energy) or ticker after 'add'", add.position)
+      }
+      hasTargets = true
+    } else if (this.peek().kind === "scope") {
+      this.parseTargets(query)
+      hasTargets = true
+    }
+
+    if (this.isKeyword("where")) {
+      this.next()
+      query.condition = this.parseOr()
+    } else if (!hasTargets) {
+      query.condition = this.parseOr()
+    }
+
+    const token = this.peek()
+    if (token.kind !== "end") {
+      const expected = hasTargets && !query.condition ? "'where' or end of expression" : "end of expression"
+      throw new AlertQuerySyntaxError(`Expected ${expected} but found ${describeToken(token)}`, token.position)
+    }
+    return query
+  }
+
+  private parseTargets(query: ParsedAlertQuery): void {
+    for (;;) {
+      const token = this.peek()
+      if (token.kind === "scope") {
+        query.scopes.push({ name: token.value, position: token.position })
+      } else if (token.kind === "identifier" && !KEYWORDS.has(token.value.toLowerCase())) {
+        query.tickers.push({ name: token.value, position: token.position })
+      } else {
+        return
+      }
+      this.next()
+      if (this.peek().kind === "comma") {
+        this.next()
+      }
+    }
+  }
+
+  private parseOr(): AlertQueryNode {
+    let left = this.parseAnd()
+    while (this.isKeyword("or")) {
+      const token = this.next()
+      left = { kind: "binary", operator: "or", left, right: this.parseAnd(), position: token.position }
+    }
+    return left
+  }
+
+  private parseAnd(): AlertQueryNode {
+    let left = this.parseNot()
+    while (this.isKeyword("and")) {
+      const token = this.next()
+      left = { kind: "binary", operator: "and", left, right: this.parseNot(), position: token.position }
+    }
+    return left
+  }
+
+  private parseNot(): AlertQueryNode {
+    if (this.isKeyword("not")) {
+      const token = this.next()
+      return { kind: "unary", operator: "not", operand: this.parseNot(), position: token.position }
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): AlertQueryNode {
+    const left = this.parseAdditive()
+    const token = this.peek()
+
+    if (token.kind === "operator" && COMPARISON_OPERATORS.has(token.value)) {
+      this.next()
+      return { kind: "binary", operator: token.value, left, right: this.parseAdditive(), position: token.position }
+    }
+
+    const negated = this.isKeyword("not") && this.isKeyword("in", 1)
+    if (negated || this.isKeyword("in")) {
+      if (negated) this.next()
+      this.next()
+      return { kind: "in", operand: left, values: this.parseList(), negated, position: token.position }
+    }
+    return left
+  }
+
+  private parseList(): AlertQueryNode[] {
+    this.expect("lparen", "'(' to start the list")
+    const values = [this.parseAdditive()]
+    while (this.peek().kind === "comma") {
+      this.next()
+      values.push(this.parseAdditive())
+    }
+    this.expect("rparen", "')' to close the list")
+    return values
+  }
+
+  private parseAdditive(): AlertQueryNode {
+    let left = this.parseMultiplicative()
+    while (this.peek().kind === "operator" && ADDITIVE_OPERATORS.has(this.peek().value)) {
+      const token = this.next()
+      left = { kind: "binary", operator: token.value, left, right: this.parseMultiplicative(), position: token.position }
+    }
+    return left
+  }
+
+  private parseMultiplicative(): AlertQueryNode {
+    let left = this.parseUnary()
+    while (this.peek().kind === "operator" && MULTIPLICATIVE_OPERATORS.has(this.peek().value)) {
+      const token = this.next()
+      left = { kind: "binary", operator: token.value, left, right: this.parseUnary(), position: token.position }
+    }
+    return left
+  }
+
+  private parseUnary(): AlertQueryNode {
+    const token = this.peek()
+    if (token.kind === "operator" && token.value === "-") {
+      this.next()
+      return { kind: "unary", operator: "-", operand: this.parseUnary(), position: token.position }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): AlertQueryNode {
+    const token = this.next()
+
+    switch (token.kind) {
+      case "number":
+        return { kind: "number", value: Number(token.value), position: token.position }
+      case "string":
+        return { kind: "string", value: token.value, position: token.position }
+      case "lparen": {
+        const inner = this.parseOr()
+        this.expect("rparen", "')'")
+        return inner
+      }
+      case "identifier": {
+        const word = token.value.toLowerCase()
+        if (word === "true" || word === "false") {
+          return { kind: "boolean", value: word === "true", position: token.position }
+        }
+        if (KEYWORDS.has(word)) {
+          throw new AlertQuerySyntaxError(`Expected a value but found keyword '${token.value}'`, token.position)
+        }
+        if (this.peek().kind === "lparen") {
+          this.next()
+          const args: AlertQueryNode[] = []
+          if (this.peek().kind !== "rparen") {
+            args.push(this.parseAdditive())
+            while (this.peek().kind === "comma") {
+              this.next()
+              args.push(this.parseAdditive())
+            }
+          }
+          this.expect("rparen", `')' to close the call to ${token.value}`)
+          return { kind: "call", name: token.value, args, position: token.position }
+        }
+        return { kind: "field", name: token.value, position: token.position }
+      }
+      default:
+        throw new AlertQuerySyntaxError(`Expected a value but found ${describeToken(token)}`, token.position)
+    }
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    const token = this.peek()
+    if (token.kind !== "end") {
+      this.index++
+    }
+    return token
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset)
+    return token.kind === "identifier" && token.value.toLowerCase() === keyword
+  }
+
+  private expect(kind: TokenKind, description: string): Token {
+    const token = this.peek()
+    if (token.kind !== kind) {
+      throw new AlertQuerySyntaxError(`Expected ${description} but found ${describeToken(token)}`, token.position)
+    }
+    return this.next()
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case "end":
+      return "end of expression"
+    case "string":
+      return `'${token.value}'`
+    case "scope":
+      return `'@${token.value}'`
+    default:
+      return `'${token.value}'`
+  }
+}
+
+/**
+ * Parse a Query language expression.
+ *
+ * @throws {AlertQuerySyntaxError} If the expression is not valid syntax
+ */
+export function parseAlertQuery(input: string): ParsedAlertQuery {
+  return new Parser(tokenize(input)).parseQuery()
+}
+
+/**
+ * Closest name within two edits, for "did you mean" hints.
+ */
+function suggest(name: string, candidates: Iterable<string>): string | undefined {
+  let best: string | undefined
+  let bestDistance = 3
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate)
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function unknownName(kind: string, name: string, known: Iterable<string>): string {
+  const hint = suggest(name.toLowerCase(), known)
+  return `Unknown ${kind} '${name}'${hint ? ` (did you mean '${hint}'?)` : ""}`
+}
+
+function describeNode(node: AlertQueryNode): string {
+  switch (node.kind) {
+    case "field":
+      return `field '${node.name}'`
+    case "call":
+      return `${node.name}(...)`
+    case "string":
+      return `'${node.value}'`
+    case "number":
+    case "boolean":
+      return String(node.value)
+    default:
+      return "this expression"
+  }
+}
+
+/**
+ * Type checks a parsed condition against a grammar, collecting every error found.
+ */
+class Checker {
+  readonly errors: AlertQueryError[] = []
+
+  constructor(private readonly grammar: AlertQueryGrammar) {}
+
+  checkQuery(query: ParsedAlertQuery): void {
+    if (this.grammar.scopes.size > 0) {
+      for (const scope of query.scopes) {
+        if (!this.grammar.scopes.has(scope.name.toLowerCase())) {
+          this.error(unknownName("scope", `@${scope.name}`, [...this.grammar.scopes].map((s) => `@${s}`)), scope.position)
+        }
+      }
+    }
+    if (query.condition) {
+      this.expect(query.condition, "boolean", "a where condition")
+    }
+  }
+
+  private check(node: AlertQueryNode): AlertQueryValueType {
+    switch (node.kind) {
+      case "number":
+      case "string":
+      case "boolean":
+        return node.kind
+      case "field": {
+        if (this.grammar.fields.size === 0) {
+          return "unknown"
+        }
+        const type = this.grammar.fields.get(node.name.toLowerCase())
+        if (type === undefined) {
+          this.error(unknownName("field", node.name, this.grammar.fields.keys()), node.position)
+          return "unknown"
+        }
+        return type
+      }
+      case "call": {
+        const name = node.name.toLowerCase()
+        if (this.grammar.functions.size > 0) {
+          if (!this.grammar.functions.has(name)) {
+            this.error(unknownName("function", node.name, this.grammar.functions.keys()), node.position)
+          } else {
+            const arity = this.grammar.functions.get(name)
+            if (arity !== undefined && arity !== node.args.length) {
+              const s = arity === 1 ? "" : "s"
+              this.error(`${node.name} takes ${arity} argument${s} but was given ${node.args.length}`, node.position)
+            }
+          }
+        }
+        for (const arg of node.args) {
+          this.expect(arg, "number", `${node.name}()`)
+        }
+        return "number"
+      }
+      case "unary":
+        if (node.operator === "not") {
+          this.expect(node.operand, "boolean", "'not'")
+          return "boolean"
+        }
+        this.expect(node.operand, "number", "'-'")
+        return "number"
+      case "in": {
+        const operandType = this.check(node.operand)
+        for (const value of node.values) {
+          this.expectMatching(operandType, node.operand, value, "'in'")
+        }
+        return "boolean"
+      }
+      case "binary":
+        return this.checkBinary(node)
+    }
+  }
+
+  private checkBinary(node: Extract<AlertQueryNode, { kind: "binary" }>): AlertQueryValueType {
+    const { operator, left, right } = node
+
+    if (operator === "and" || operator === "or") {
+      this.expect(left, "boolean", `'${operator}'`)
+      this.expect(right, "boolean", `'${operator}'`)
+      return "boolean"
+    }
+
+    if (this.grammar.operators.size > 0 && !this.grammar.operators.has(operator)) {
+      this.error(`Operator '${operator}' is not supported`, node.position)
+    }
+
+    if (COMPARISON_OPERATORS.has(operator)) {
+      if (operator === "=" || operator === "!=") {
+        this.expectMatching(this.check(left), left, right, `'${operator}'`)
+      } else {
+        this.expect(left, "number", `'${operator}'`)
+        this.expect(right, "number", `'${operator}'`)
+      }
+      return "boolean"
+    }
+
+    this.expect(left, "number", `'${operator}'`)
+    this.expect(right, "number", `'${operator}'`)
+    return "number"
+  }
+
+  private expect(node: AlertQueryNode, expected: AlertQueryValueType, context: string): void {
+    const type = this.check(node)
+    if (type !== "unknown" && type !== expected) {
+      this.error(`${context} needs a ${expected}, but ${describeNode(node)} is a ${type}`, node.position)
+    }
+  }
+
+  private expectMatching(leftType: AlertQueryValueType, left: AlertQueryNode, right: AlertQueryNode, context: string): void {
+    const rightType = this.check(right)
+    if (leftType !== "unknown" && rightType !== "unknown" && leftType !== rightType) {
+      this.error(`${context} compares ${describeNode(left)} (${leftType}) with ${describeNode(right)} (${rightType})`, right.position)
+    }
+  }
+
+  private error(message: string, position: number): void {
+    this.errors.push({ message, position })
+  }
+}
+
+/**
+ * Parse and type check an expression against a grammar.
+ *
+ * @returns Every error found, or an empty array if the expression is valid.
+ * A syntax error stops parsing, so it is always the only error returned.
+ */
+export function validateAlertQuery(input: string, grammar: AlertQueryGrammar): AlertQueryError[] {
+  let query: ParsedAlertQuery
+  try {
+    query = parseAlertQuery(input)
+  } catch (error) {
+    if (error instanceof AlertQuerySyntaxError) {
+      return [{ message: error.message, position: error.position }]
+    }
+    throw error
+  }
+
+  const checker = new Checker(grammar)
+  checker.checkQuery(query)
+  return checker.errors.sort((a, b) => a.position - b.position)
+}
+
+/**
+ * Format errors as one line each, with the 1-based column and the text at it.
+ */
+export function formatAlertQueryErrors(input: string, errors: AlertQueryError[]): string {
+  return errors
+    .map(({ message, position }) => {
+      const near = input.slice(position, position + 20).split(/\s/)[0]
+      return `column ${position + 1}${near ? ` near '${near}'` : ""}: ${message}`
+    })
+    .join("; ")
+}
+
+// ============================================================================
+// Grammar normalization
+// ============================================================================
+
+type GrammarEntry = [name: string, details: unknown]
+
+/**
+ * Read a grammar section that may be a list of names, a list of objects with a
+ * name (read from the first of `nameKeys` present), or an object keyed by name.
+ *
+ * @returns The entries, or undefined if the section is missing or any item in it
+ * is not in one of these forms, so a partly understood section is never checked
+ */
+function grammarEntries(section: unknown, nameKeys: readonly string[] = ["name"]): GrammarEntry[] | undefined {
+  if (Array.isArray(section)) {
+    const entries: GrammarEntry[] = []
+    for (const item of section) {
+      if (typeof item === "string") {
+        entries.push([item, undefined])
+        continue
+      }
+      const record = (item && typeof item === "object" ? item : {}) as Record<string, unknown>
+      const name = nameKeys.map((key) => record[key]).find((value) => value !== undefined)
+      if (typeof name !== "string") {
+        return undefined
+      }
+      entries.push([name, item])
+    }
+    return entries
+  }
+  if (section && typeof section === "object") {
+    return Object.entries(section)
+  }
+  return undefined
+}
+
+function toValueType(details: unknown): AlertQueryValueType {
+  const raw = details && typeof details === "object"
+    ? (details as Record<string, unknown>).type ?? (details as Record<string, unknown>).data_type
+    : details
+  if (typeof raw !== "string") {
+    return "unknown"
+  }
+  const type = raw.toLowerCase()
+  if (["number", "numeric", "integer", "int", "float", "decimal", "double"].includes(type)) {
+    return "number"
+  }
+  if (["string", "text", "enum", "ticker", "date", "datetime"].includes(type)) {
+    return "string"
+  }
+  if (["boolean", "bool", "flag"].includes(type)) {
+    return "boolean"
+  }
+  return "unknown"
+}
+
+function toArity(details: unknown): number | undefined {
+  if (typeof details === "string") {
+    // A signature such as "sqrt(x)" or "max(a, b)"
+    const args = details.match(/\(([^)]*)\)/)
+    return args ? args[1].split(",").filter((arg) => arg.trim()).length : undefined
+  }
+  if (details && typeof details === "object") {
+    const record = details as Record<string, unknown>
+    if (typeof record.arity === "number") return record.arity
+    const args = record.args ?? record.arguments ?? record.params
+    if (Array.isArray(args)) return args.length
+    if (typeof record.signature === "string") return toArity(record.signature)
+  }
+  return undefined
+}
+
+/**
+ * Collect operator symbols from a list, a keyed object, or groups of either.
+ *
+ * @returns False if any part of the section is not in a recognized form
+ */
+function collectOperators(section: unknown, operators: Set<string>): boolean {
+  if (section && typeof section === "object" && !Array.isArray(section)) {
+    const values = Object.values(section)
+    if (values.some((value) => Array.isArray(value))) {
+      return values.every((value) => collectOperators(value, operators))
+    }
+  }
+  const entries = grammarEntries(section, ["symbol", "op", "operator", "name"])
+  for (const [name] of entries ?? []) {
+    const symbol = name.trim()
+    if (/^[<>=!+\-*/%]+$/.test(symbol)) {
+      operators.add(symbol === "==" ? "=" : symbol === "<>" ? "!=" : symbol)
+    }
+  }
+  return entries !== undefined
+}
+
+/**
+ * Normalize a grammar endpoint response into the parts used for checking.
+ * The response is only loosely specified, so sections may be lists or keyed
+ * objects; optional sections that are missing or unrecognized are left empty
+ * and not checked.
+ *
+ * @returns The grammar, or undefined if no fields could be read from it (an
+ * unknown shape, or the overview without a target), in which case the
+ * expression should be left for the API to validate
+ */
+export function normalizeAlertQueryGrammar(raw: unknown): AlertQueryGrammar | undefined {
+  const body = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>
+  const source = (body.data && typeof body.data === "object" && !Array.isArray(body.data)
+    ? body.data
+    : body) as Record<string, unknown>
+
+  const grammar: AlertQueryGrammar = {
+    fields: new Map(),
+    functions: new Map(),
+    operators: new Set(),
+    scopes: new Set(),
+  }
+
+  const fields = grammarEntries(source.fields, ["name", "field"])
+  if (!fields || fields.length === 0) {
+    return undefined
+  }
+  for (const [name, details] of fields) {
+    grammar.fields.set(name.toLowerCase(), toValueType(details))
+  }
+  // Shorthand conditions such as `calls` act as boolean fields
+  for (const section of [source.flags, source.shortcuts]) {
+    if (section === undefined) {
+      continue
+    }
+    const flags = grammarEntries(section)
+    if (!flags) {
+      // Fields the grammar lists in a form we cannot read would be reported as unknown
+      return undefined
+    }
+    for (const [name] of flags) {
+      grammar.fields.set(name.toLowerCase(), "boolean")
+    }
+  }
+  for (const [name, details] of grammarEntries(source.functions) ?? []) {
+    grammar.functions.set(name.toLowerCase(), toArity(details))
+  }
+  if (!collectOperators(source.operators, grammar.operators)) {
+    grammar.operators.clear()
+  }
+  for (const [name] of grammarEntries(source.scopes) ?? []) {
+    grammar.scopes.add(name.replace(/^@/, "").toLowerCase())
+  }
+
+  return grammar
+}
+
+// ============================================================================
+// Grammar cache
+// ============================================================================
+
+const grammarCache = new Map<string, { grammar: AlertQueryGrammar | undefined, expiresAt: number }>()
+
+/**
+ * Get the grammar for a target (or the overview without one), fetching it at
+ * most once an hour.
+ *
+ * @returns The grammar, or undefined if it could not be fetched or recognized
+ */
+export async function getAlertQueryGrammar(target?: string): Promise<AlertQueryGrammar | undefined> {
+  const key = target ?? ""
+  const cached = grammarCache.get(key)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.grammar
+  }
+
+  const result = await uwFetch("/api/alerts/query/grammar", { target })
+  if (result.error) {
+    logger.warn("Could not fetch alert query grammar", { target, error: result.error })
+    return undefined
+  }
+
+  const grammar = normalizeAlertQueryGrammar(result.data)
+  if (!grammar) {
+    logger.info("Alert query grammar not recognized, leaving input checks to the API", { target })
+  }
+  grammarCache.set(key, { grammar, expiresAt: Date.now() + GRAMMAR_TTL_MS })
+  return grammar
+}
+
+/**
+ * Drop all cached grammars.
+ */
+export function clearAlertQueryGrammarCache(): void {
+  grammarCache.clear()
+}
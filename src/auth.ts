@@ -0,0 +1,166 @@
+/**
+ * Bearer token authentication for HTTP mode.
+ *
+ * Maps each incoming client credential to the Unusual Whales API key used for its
+ * requests. Three modes are supported, selected with `UW_HTTP_AUTH`:
+ *
+ * - `none` (default): no client authentication; every request uses `UW_API_KEY`
+ * - `tokens`: clients present a token listed in `UW_HTTP_AUTH_TOKENS_FILE`, which maps it to a UW key
+ * - `passthrough`: clients present their own UW API key as the bearer token
+ *
+ * The tokens file is JSON mapping each client token to either a UW API key or an
+ * object with `apiKey` and an optional display `name`:
+ *
+ * ```json
+ * {
+ *   "token-for-alice": { "name": "alice", "apiKey": "uw-key-alice" },
+ *   "token-for-bob": "uw-key-bob"
+ * }
+ * ```
+ */
+
+import { createHash } from "node:crypto"
+import { readFileSync } from "node:fs"
+import type { IncomingMessage } from "node:http"
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js"
+
+export type AuthMode = "none" | "tokens" | "passthrough"
+
+interface TokenEntry {
+  clientId: string
+  apiKey: string
+}
+
+export interface AuthConfig {
+  mode: AuthMode
+  /** Client tokens keyed by SHA-256 hash (tokens mode only) */
+  tokens: Map<string, TokenEntry>
+}
+
+const AUTH_MODES: readonly AuthMode[] = ["none", "tokens", "passthrough"]
+
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AuthenticationError"
+  }
+}
+
+/**
+ * Hash a token so lookups never compare raw secrets.
+ */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+/**
+ * Parse the contents of a tokens file.
+ *
+ * @throws {Error} If the JSON is malformed or an entry has no API key
+ */
+export function parseTokensFile(content: string): Map<string, TokenEntry> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    throw new Error("Auth tokens file is not valid JSON")
+  }
+
+  if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Auth tokens file must be a JSON object mapping tokens to API keys")
+  }
+
+  const tokens = new Map<string, TokenEntry>()
+  Object.entries(parsed as Record<string, unknown>).forEach(([token, value], index) => {
+    const entry = typeof value === "string" ? { apiKey: value } : (value as Record<string, unknown>)
+    if (!token || typeof entry?.apiKey !== "string" || !entry.apiKey) {
+      throw new Error(`Auth tokens file entry ${index + 1} is missing an apiKey`)
+    }
+    tokens.set(hashToken(token), {
+      clientId: typeof entry.name === "string" && entry.name ? entry.name : `client-${index + 1}`,
+      apiKey: entry.apiKey,
+    })
+  })
+
+  if (tokens.size === 0) {
+    throw new Error("Auth tokens file does not define any tokens")
+  }
+
+  return tokens
+}
+
+/**
+ * Load the HTTP authentication configuration from environment variables.
+ *
+ * @param env - Environment variables (defaults to process.env)
+ * @throws {Error} If the mode is unknown or the tokens file cannot be read
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const mode = (env.UW_HTTP_AUTH ?? "none").toLowerCase()
+  if (!AUTH_MODES.includes(mode as AuthMode)) {
+    throw new Error(`Invalid UW_HTTP_AUTH: "${mode}" (expected one of ${AUTH_MODES.join(", ")})`)
+  }
+
+  if (mode !== "tokens") {
+    return { mode: mode as AuthMode, tokens: new Map() }
+  }
+
+  const tokensFile = env.UW_HTTP_AUTH_TOKENS_FILE
+  if (!tokensFile) {
+    throw new Error("UW_HTTP_AUTH_TOKENS_FILE must be set when UW_HTTP_AUTH is \"tokens\"")
+  }
+
+  return { mode: "tokens", tokens: parseTokensFile(readFileSync(tokensFile, "utf8")) }
+}
+
+/**
+ * Extract the bearer token from an Authorization header.
+ */
+function getBearerToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization
+  if (!header) {
+    return undefined
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(header)
+  return match?.[1].trim() || undefined
+}
+
+/**
+ * Authenticate an incoming HTTP request.
+ *
+ * @param req - The incoming request
+ * @param config - Authentication configuration
+ * @returns Auth info carrying the UW API key in `extra.apiKey`, or undefined in `none` mode
+ * @throws {AuthenticationError} If the request has no valid credential
+ */
+export function authenticateRequest(req: IncomingMessage, config: AuthConfig): AuthInfo | undefined {
+  if (config.mode === "none") {
+    return undefined
+  }
+
+  const token = getBearerToken(req)
+  if (!token) {
+    throw new AuthenticationError("Missing bearer token")
+  }
+
+  if (config.mode === "passthrough") {
+    return {
+      token,
+      clientId: `key-${hashToken(token).slice(0, 8)}`,
+      scopes: [],
+      extra: { apiKey: token },
+    }
+  }
+
+  const entry = config.tokens.get(hashToken(token))
+  if (!entry) {
+    throw new AuthenticationError("Invalid bearer token")
+  }
+
+  return {
+    token,
+    clientId: entry.clientId,
+    scopes: [],
+    extra: { apiKey: entry.apiKey },
+  }
+}
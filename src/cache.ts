@@ -0,0 +1,286 @@
+/**
+ * In-memory TTL cache for API responses.
+ *
+ * Responses are keyed by endpoint plus normalized query parameters, and expire
+ * according to the policy of their endpoint family: reference data such as stock
+ * info is kept for hours, while real-time flow is kept for seconds.
+ *
+ * Entries are also scoped to the API key that fetched them. In HTTP mode each
+ * client brings its own key, and a key must never be served data cached for
+ * another (possibly invalid) key.
+ */
+
+import { createHash } from "node:crypto"
+
+export interface CachePolicy {
+  /** Endpoint family name, shown in cache stats */
+  name: string
+  /** Pattern matched against the endpoint path */
+  pattern: RegExp
+  /** Time to live in milliseconds (0 disables caching) */
+  ttlMs: number
+}
+
+export interface CacheEntry<T = unknown> {
+  key: string
+  /** Scope of the API key that fetched the entry (see getCacheScope) */
+  scope: string
+  policy: string
+  data: T
+  storedAt: number
+  expiresAt: number
+}
+
+/** Cache status attached to API responses for cacheable endpoints */
+export interface CacheInfo {
+  hit: boolean
+  policy: string
+  age_seconds: number
+  /** Null for historical responses, which never expire */
+  ttl_seconds: number | null
+}
+
+export interface CacheStats {
+  enabled: boolean
+  entries: number
+  maxEntries: number
+  hits: number
+  misses: number
+  hitRate: number
+}
+
+const SECOND = 1000
+const MINUTE = 60 * SECOND
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+const DEFAULT_MAX_ENTRIES = 500
+
+/**
+ * TTL policies by endpoint family. The first matching pattern wins,
+ * so more specific patterns must come before broader ones.
+ */
+export const CACHE_POLICIES: readonly CachePolicy[] = [
+  // Alerts are specific to the account behind the API key
+  { name: "alerts", pattern: /^\/api\/alerts(\/|$)/, ttlMs: 0 },
+  { name: "flow-alerts", pattern: /^\/api\/option-trades\/flow-alerts/, ttlMs: 15 * SECOND },
+  { name: "stock-info", pattern: /^\/api\/stock\/[^/]+\/info$/, ttlMs: 6 * HOUR },
+  { name: "stock-directory", pattern: /^\/api\/stock-directory\//, ttlMs: DAY },
+  { name: "institutions", pattern: /^\/api\/institutions?(\/|$)/, ttlMs: DAY },
+  { name: "etf-reference", pattern: /^\/api\/etfs\/[^/]+\/(info|holdings|weights|exposure)$/, ttlMs: 6 * HOUR },
+  { name: "seasonality", pattern: /^\/api\/seasonality\//, ttlMs: DAY },
+  { name: "earnings-schedule", pattern: /^\/api\/earnings\/(premarket|afterhours)$/, ttlMs: 5 * MINUTE },
+  { name: "earnings-history", pattern: /^\/api\/earnings\//, ttlMs: 6 * HOUR },
+  { name: "filings", pattern: /^\/api\/(congress|politician-portfolios|insider)\//, ttlMs: 15 * MINUTE },
+  { name: "shorts", pattern: /^\/api\/shorts\//, ttlMs: HOUR },
+  { name: "calendars", pattern: /^\/api\/market\/(economic-calendar|fda-calendar)$/, ttlMs: HOUR },
+  { name: "contract-history", pattern: /^\/api\/option-contract\/[^/]+\/historic$/, ttlMs: HOUR },
+  { name: "screener", pattern: /^\/api\/screener\//, ttlMs: 5 * MINUTE },
+  { name: "news", pattern: /^\/api\/news\//, ttlMs: MINUTE },
+  { name: "default", pattern: /^/, ttlMs: 30 * SECOND },
+]
+
+/**
+ * Find the cache policy for an endpoint.
+ */
+export function getCachePolicy(endpoint: string): CachePolicy {
+  const path = endpoint.split("?")[0]
+  return CACHE_POLICIES.find((policy) => policy.pattern.test(path)) as CachePolicy
+}
+
+/**
+ * Build a cache key from an endpoint and its query parameters.
+ * Parameters are normalized the same way uwFetch builds URLs (empty values
+ * and false booleans are dropped) and sorted, so equivalent requests share a key.
+ */
+export function buildCacheKey(endpoint: string, params?: Record<string, unknown>): string {
+  if (!params) {
+    return endpoint
+  }
+
+  const pairs: string[] = []
+  for (const key of Object.keys(params).sort()) {
+    const value = params[key]
+    if (value === undefined || value === null || value === "" || value === false) {
+      continue
+    }
+    const values = Array.isArray(value) ? value.map(String).sort() : [String(value)]
+    for (const item of values) {
+      pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(item)}`)
+    }
+  }
+
+  return pairs.length > 0 ? `${endpoint}?${pairs.join("&")}` : endpoint
+}
+
+/**
+ * Get the cache scope for an API key: a full SHA-256 digest, so a key cannot be
+ * crafted to share another key's scope (unlike the short quota fingerprint).
+ */
+export function getCacheScope(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex")
+}
+
+/**
+ * TTL cache with least-recently-used eviction once `maxEntries` is reached.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>()
+  private hits = 0
+  private misses = 0
+
+  constructor(
+    private readonly maxEntries: number = DEFAULT_MAX_ENTRIES,
+    private readonly enabled: boolean = true,
+  ) {}
+
+  /**
+   * Get a fresh entry stored under the same scope, or undefined if missing or expired.
+   * Counts towards hit/miss statistics.
+   */
+  get<T = unknown>(key: string, scope = ""): CacheEntry<T> | undefined {
+    if (!this.enabled) {
+      return undefined
+    }
+
+    const mapKey = toMapKey(key, scope)
+    const entry = this.entries.get(mapKey)
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(mapKey)
+      }
+      this.misses++
+      return undefined
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(mapKey)
+    this.entries.set(mapKey, entry)
+    this.hits++
+    return entry as CacheEntry<T>
+  }
+
+  /**
+   * Store a response under a scope. Ignored when caching is disabled or the TTL is not positive.
+   */
+  set(key: string, data: unknown, policy: CachePolicy, scope = ""): CacheEntry | undefined {
+    if (!this.enabled || policy.ttlMs <= 0) {
+      return undefined
+    }
+
+    const now = Date.now()
+    const mapKey = toMapKey(key, scope)
+    const entry: CacheEntry = {
+      key,
+      scope,
+      policy: policy.name,
+      data,
+      storedAt: now,
+      expiresAt: now + policy.ttlMs,
+    }
+
+    this.entries.delete(mapKey)
+    this.entries.set(mapKey, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string
+      this.entries.delete(oldestKey)
+    }
+
+    return entry
+  }
+
+  /**
+   * Remove entries. With a prefix, only keys starting with it are removed;
+   * with a scope, only entries stored under that scope.
+   *
+   * @returns Number of entries removed
+   */
+  clear(prefix?: string, scope?: string): number {
+    if (prefix === undefined && scope === undefined) {
+      const count = this.entries.size
+      this.entries.clear()
+      return count
+    }
+
+    let count = 0
+    for (const [mapKey, entry] of [...this.entries]) {
+      if (matches(entry, prefix, scope)) {
+        this.entries.delete(mapKey)
+        count++
+      }
+    }
+    return count
+  }
+
+  /**
+   * List fresh entries, most recently used last, optionally only those stored
+   * under a scope. Expired entries are pruned.
+   */
+  list(scope?: string): CacheEntry[] {
+    this.pruneExpired()
+    return [...this.entries.values()].filter((entry) => matches(entry, undefined, scope))
+  }
+
+  /**
+   * Get hit/miss statistics and the current entry count (with a scope, only
+   * entries stored under it are counted).
+   */
+  getStats(scope?: string): CacheStats {
+    this.pruneExpired()
+    const lookups = this.hits + this.misses
+    return {
+      enabled: this.enabled,
+      entries: scope === undefined ? this.entries.size : this.list(scope).length,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : 0,
+    }
+  }
+
+  /**
+   * Reset hit/miss counters.
+   */
+  resetStats(): void {
+    this.hits = 0
+    this.misses = 0
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now()
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+      }
+    }
+  }
+}
+
+function toMapKey(key: string, scope: string): string {
+  return scope ? `${scope}\n${key}` : key
+}
+
+function matches(entry: CacheEntry, prefix?: string, scope?: string): boolean {
+  return (prefix === undefined || entry.key.startsWith(prefix)) && (scope === undefined || entry.scope === scope)
+}
+
+/**
+ * Describe a cache entry for API responses.
+ */
+export function toCacheInfo(entry: CacheEntry, hit: boolean): CacheInfo {
+  return {
+    hit,
+    policy: entry.policy,
+    age_seconds: Math.floor((Date.now() - entry.storedAt) / 1000),
+    ttl_seconds: Math.ceil((entry.expiresAt - entry.storedAt) / 1000),
+  }
+}
+
+// Initialize the shared cache from environment variables or defaults
+const maxEntries = parseInt(process.env.UW_CACHE_MAX_ENTRIES || String(DEFAULT_MAX_ENTRIES), 10)
+
+export const responseCache = new ResponseCache(
+  isNaN(maxEntries) || maxEntries < 1 ? DEFAULT_MAX_ENTRIES : maxEntries,
+  process.env.UW_CACHE_ENABLED !== "false",
+)
@@ -46,8 +46,11 @@ export class CircuitBreaker {
       resetTimeout: 30000,
       successThreshold: 2,
     },
+    /** Name shown in logs (e.g. the endpoint group the breaker protects) */
+    private readonly name?: string,
   ) {
     logger.info("Circuit breaker initialized", {
+      breaker: name,
       failureThreshold: config.failureThreshold,
       resetTimeout: config.resetTimeout,
       successThreshold: config.successThreshold,
@@ -63,6 +66,7 @@ export class CircuitBreaker {
     if (this.state === CircuitState.OPEN) {
       const waitTime = this.nextAttemptTime - Date.now()
       logger.warn("Circuit breaker is open - failing fast", {
+        breaker: this.name,
         state: this.state,
         failures: this.failures,
         waitTimeMs: waitTime,
@@ -93,6 +97,7 @@ export class CircuitBreaker {
       const now = Date.now()
       if (now >= this.nextAttemptTime) {
         logger.info("Circuit breaker transitioning to HALF_OPEN", {
+          breaker: this.name,
           previousState: CircuitState.OPEN,
           failures: this.failures,
           timeSinceLastFailure: now - this.lastFailureTime,
@@ -110,12 +115,14 @@ export class CircuitBreaker {
     if (this.state === CircuitState.HALF_OPEN) {
       this.successes++
       logger.debug("Circuit breaker success in HALF_OPEN", {
+        breaker: this.name,
         successes: this.successes,
         successThreshold: this.config.successThreshold,
       })
 
       if (this.successes >= this.config.successThreshold) {
         logger.info("Circuit breaker closing - service recovered", {
+          breaker: this.name,
           previousState: CircuitState.HALF_OPEN,
           successCount: this.successes,
           totalFailures: this.failures,
@@ -126,6 +133,7 @@ export class CircuitBreaker {
       // Reset failure counter on success in CLOSED state
       if (this.failures > 0) {
         logger.debug("Circuit breaker resetting failure count", {
+          breaker: this.name,
           previousFailures: this.failures,
         })
         this.failures = 0
@@ -143,6 +151,7 @@ export class CircuitBreaker {
     if (this.state === CircuitState.HALF_OPEN) {
       // Any failure in HALF_OPEN immediately opens the circuit
       logger.warn("Circuit breaker opening - failure in HALF_OPEN", {
+        breaker: this.name,
         previousState: CircuitState.HALF_OPEN,
         totalFailures: this.failures,
       })
@@ -150,6 +159,7 @@ export class CircuitBreaker {
     } else if (this.state === CircuitState.CLOSED) {
       if (this.failures >= this.config.failureThreshold) {
         logger.warn("Circuit breaker opening - failure threshold reached", {
+          breaker: this.name,
           previousState: CircuitState.CLOSED,
           failures: this.failures,
           threshold: this.config.failureThreshold,
@@ -157,6 +167,7 @@ export class CircuitBreaker {
         this.openCircuit()
       } else {
         logger.debug("Circuit breaker failure recorded", {
+          breaker: this.name,
           state: CircuitState.CLOSED,
           failures: this.failures,
           threshold: this.config.failureThreshold,
@@ -177,7 +188,7 @@ export class CircuitBreaker {
   /**
    * Reset circuit to CLOSED state
    */
-  private reset(): void {
+  reset(): void {
     this.state = CircuitState.CLOSED
     this.failures = 0
     this.successes = 0
@@ -1,26 +1,51 @@
 import { logger } from "./logger.js"
-import { SlidingWindowRateLimiter } from "./rate-limiter.js"
-import { CircuitBreaker, CircuitBreakerError } from "./circuit-breaker.js"
+import { SlidingWindowRateLimiter, type RateLimiterQueueConfig } from "./rate-limiter.js"
+import { CircuitBreaker, CircuitBreakerError, CircuitState, type CircuitBreakerConfig } from "./circuit-breaker.js"
+import { RetryBudget, type RetryBudgetConfig } from "./retry-budget.js"
+import { getCurrentApiKey } from "./request-context.js"
+import { buildCacheKey, getCachePolicy, getCacheScope, responseCache, toCacheInfo, type CacheInfo } from "./cache.js"
+import { diskCache, isHistoricalRequest, toDiskCacheInfo } from "./disk-cache.js"
+import { getRequestPriority, quotaTracker } from "./quota.js"
 
 const BASE_URL = "https://api.unusualwhales.com"
 const REQUEST_TIMEOUT_MS = 30_000
 const DEFAULT_RATE_LIMIT_PER_MINUTE = 120
 const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_RATE_LIMIT_QUEUE_SIZE = 100
+const DEFAULT_RATE_LIMIT_MAX_WAIT_MS = 30_000
 const BASE_RETRY_DELAY_MS = 1000
+const MAX_RETRY_DELAY_MS = 10_000
+const DEFAULT_RETRY_AFTER_MAX_MS = 10_000
+const API_KEY_GUARDS_IDLE_MS = 15 * 60_000
+const MAX_API_KEY_GUARDS = 1000
 
 export interface ApiResponse<T = unknown> {
   data?: T
   error?: string
+  /** Cache status, present for responses from cacheable endpoints */
+  cache?: CacheInfo
 }
 
-// Initialize rate limiter from environment variable or default
+// Initialize rate limit from environment variable or default
 const rateLimitPerMinute = parseInt(
   process.env.UW_RATE_LIMIT_PER_MINUTE || String(DEFAULT_RATE_LIMIT_PER_MINUTE),
   10,
 )
-const rateLimiter = new SlidingWindowRateLimiter(
-  isNaN(rateLimitPerMinute) ? DEFAULT_RATE_LIMIT_PER_MINUTE : rateLimitPerMinute,
+const configuredRateLimit = isNaN(rateLimitPerMinute) ? DEFAULT_RATE_LIMIT_PER_MINUTE : rateLimitPerMinute
+
+// Requests over the rate limit wait in a bounded queue instead of failing immediately
+const queueSize = parseInt(
+  process.env.UW_RATE_LIMIT_QUEUE_SIZE || String(DEFAULT_RATE_LIMIT_QUEUE_SIZE),
+  10,
 )
+const maxWaitMs = parseInt(
+  process.env.UW_RATE_LIMIT_MAX_WAIT_MS || String(DEFAULT_RATE_LIMIT_MAX_WAIT_MS),
+  10,
+)
+const rateLimiterQueueConfig: RateLimiterQueueConfig = {
+  maxQueueLength: isNaN(queueSize) || queueSize < 0 ? DEFAULT_RATE_LIMIT_QUEUE_SIZE : queueSize,
+  maxWaitMs: isNaN(maxWaitMs) || maxWaitMs < 0 ? DEFAULT_RATE_LIMIT_MAX_WAIT_MS : maxWaitMs,
+}
 
 // Initialize max retries from environment variable or default
 const maxRetries = parseInt(
@@ -29,12 +54,164 @@ const maxRetries = parseInt(
 )
 const configuredMaxRetries = isNaN(maxRetries) ? DEFAULT_MAX_RETRIES : maxRetries
 
-// Initialize circuit breaker with configurable thresholds
-const circuitBreaker = new CircuitBreaker({
+// Longest Retry-After a 429 may ask for and still be retried
+const retryAfterMaxMs = parseInt(
+  process.env.UW_RETRY_AFTER_MAX_MS || String(DEFAULT_RETRY_AFTER_MAX_MS),
+  10,
+)
+const configuredRetryAfterMaxMs = isNaN(retryAfterMaxMs) ? DEFAULT_RETRY_AFTER_MAX_MS : retryAfterMaxMs
+
+// Retries allowed per minute, as a share of requests plus a fixed minimum
+const retryBudgetRatio = parseFloat(process.env.UW_RETRY_BUDGET_RATIO || "0.2")
+const retryBudgetMin = parseInt(process.env.UW_RETRY_BUDGET_MIN || "10", 10)
+const retryBudgetConfig: RetryBudgetConfig = {
+  ratio: isNaN(retryBudgetRatio) || retryBudgetRatio < 0 ? 0.2 : retryBudgetRatio,
+  minRetries: isNaN(retryBudgetMin) || retryBudgetMin < 0 ? 10 : retryBudgetMin,
+}
+
+// Circuit breaker thresholds, shared by every API key
+const circuitBreakerConfig: CircuitBreakerConfig = {
   failureThreshold: parseInt(process.env.UW_CIRCUIT_BREAKER_THRESHOLD || "5", 10),
   resetTimeout: parseInt(process.env.UW_CIRCUIT_BREAKER_RESET_TIMEOUT || "30000", 10),
   successThreshold: parseInt(process.env.UW_CIRCUIT_BREAKER_SUCCESS_THRESHOLD || "2", 10),
-})
+}
+
+/**
+ * Rate limiter, circuit breakers, and retry budget for a single API key.
+ * Each key has its own quota with Unusual Whales, so one client's burst
+ * or failures must not block requests made with another key.
+ */
+interface ApiKeyGuards {
+  rateLimiter: SlidingWindowRateLimiter
+  /** Circuit breakers by endpoint group, created on first use */
+  circuitBreakers: Map<string, CircuitBreaker>
+  retryBudget: RetryBudget
+  /** When a request last used these guards, for idle eviction */
+  lastUsed: number
+}
+
+/** Status of the circuit breaker for one endpoint group */
+export interface CircuitBreakerStatus extends ReturnType<CircuitBreaker["getStatus"]> {
+  group: string
+}
+
+/** Guards by API key, least recently used first */
+const apiKeyGuards = new Map<string, ApiKeyGuards>()
+
+/**
+ * Get (or lazily create) the rate limiter, circuit breakers, and retry budget for an API key.
+ * In HTTP mode every client brings its own key, so guards idle for longer than
+ * API_KEY_GUARDS_IDLE_MS are dropped, and the least recently used are dropped
+ * beyond MAX_API_KEY_GUARDS keys. By then their rate window and breakers have reset anyway.
+ */
+function getApiKeyGuards(apiKey: string): ApiKeyGuards {
+  const now = Date.now()
+  let guards = apiKeyGuards.get(apiKey)
+  if (guards) {
+    // Re-insert to mark as most recently used
+    apiKeyGuards.delete(apiKey)
+  } else {
+    guards = {
+      rateLimiter: new SlidingWindowRateLimiter(configuredRateLimit, rateLimiterQueueConfig),
+      circuitBreakers: new Map(),
+      retryBudget: new RetryBudget(retryBudgetConfig),
+      lastUsed: now,
+    }
+  }
+  guards.lastUsed = now
+  evictApiKeyGuards(now)
+  apiKeyGuards.set(apiKey, guards)
+  return guards
+}
+
+/**
+ * Drop idle guards, oldest first, and the least recently used beyond the cap
+ * (leaving room for the one about to be inserted).
+ */
+function evictApiKeyGuards(now: number): void {
+  for (const [apiKey, guards] of apiKeyGuards) {
+    if (apiKeyGuards.size < MAX_API_KEY_GUARDS && now - guards.lastUsed < API_KEY_GUARDS_IDLE_MS) {
+      break
+    }
+    apiKeyGuards.delete(apiKey)
+  }
+}
+
+/**
+ * Get the endpoint group used to pick a circuit breaker: the first path segment
+ * after /api (e.g. "stock" for /api/stock/AAPL/info, "institution" for
+ * /api/institution/VANGUARD/holdings). A failing endpoint family then only
+ * fails fast for its own group, not for every tool.
+ */
+export function getEndpointGroup(endpoint: string): string {
+  const segments = endpoint.split("?")[0].split("/").filter(Boolean)
+  const index = segments[0] === "api" ? 1 : 0
+  return segments[index] ?? "root"
+}
+
+/**
+ * Get (or lazily create) the circuit breaker for an endpoint group.
+ */
+function getCircuitBreaker(guards: ApiKeyGuards, group: string): CircuitBreaker {
+  let breaker = guards.circuitBreakers.get(group)
+  if (!breaker) {
+    breaker = new CircuitBreaker(circuitBreakerConfig, group)
+    guards.circuitBreakers.set(group, breaker)
+  }
+  return breaker
+}
+
+/**
+ * Get the status of every circuit breaker created for an API key, sorted by group.
+ */
+export function getCircuitBreakerStatuses(apiKey: string): CircuitBreakerStatus[] {
+  const breakers = apiKeyGuards.get(apiKey)?.circuitBreakers ?? new Map<string, CircuitBreaker>()
+  return [...breakers.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([group, breaker]) => ({ group, ...breaker.getStatus() }))
+}
+
+/**
+ * Manually close the circuit breaker for an endpoint group.
+ *
+ * @returns False if no breaker exists for the group
+ */
+export function resetCircuitBreaker(apiKey: string, group: string): boolean {
+  const breaker = apiKeyGuards.get(apiKey)?.circuitBreakers.get(group)
+  if (!breaker) {
+    return false
+  }
+  breaker.reset()
+  logger.info("Circuit breaker manually reset", { breaker: group })
+  return true
+}
+
+/**
+ * Requests currently in flight, keyed by API key and cache key.
+ * Identical concurrent requests share one network call and one rate limit token.
+ */
+const inFlightRequests = new Map<string, Promise<ApiResponse<unknown>>>()
+
+/**
+ * Request data from the API, joining an identical request already in flight if there is one.
+ */
+function requestOnce<T>(
+  apiKey: string,
+  cacheKey: string,
+  endpoint: string,
+  params?: QueryParams,
+): Promise<ApiResponse<T>> {
+  const key = `${apiKey}\n${cacheKey}`
+  let request = inFlightRequests.get(key)
+  if (!request) {
+    request = requestFromApi<T>(apiKey, endpoint, params)
+      .finally(() => inFlightRequests.delete(key))
+    inFlightRequests.set(key, request)
+  } else {
+    logger.debug("Joining in-flight request", { endpoint })
+  }
+  return request as Promise<ApiResponse<T>>
+}
 
 /**
  * Determines if an error is retryable (transient failure).
@@ -58,11 +235,39 @@ function isRetryableError(status: number | null, error?: Error): boolean {
 }
 
 /**
- * Calculates the delay for exponential backoff.
- * Returns delay in ms: 1s, 2s, 4s for attempts 0, 1, 2
+ * Calculates the delay for exponential backoff with full jitter.
+ * Returns a random delay in ms up to 1s, 2s, 4s for attempts 0, 1, 2 (capped at 10s),
+ * so clients retrying after the same failure spread out instead of arriving together.
  */
 function getRetryDelay(attempt: number): number {
-  return Math.pow(2, attempt) * BASE_RETRY_DELAY_MS
+  const ceiling = Math.min(MAX_RETRY_DELAY_MS, Math.pow(2, attempt) * BASE_RETRY_DELAY_MS)
+  return Math.floor(Math.random() * ceiling)
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined
+  }
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * A server or network failure that persisted through all retries.
+ * Thrown inside the circuit breaker so it counts as a failure.
+ */
+class TransientApiError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TransientApiError"
+  }
 }
 
 /**
@@ -91,30 +296,118 @@ export function encodePath(value: unknown): string {
   return encodeURIComponent(str)
 }
 
+/** Query parameters accepted by uwFetch */
+export type QueryParams = Record<string, string | number | boolean | string[] | undefined>
+
+/** HTTP method and JSON body for requests that are not plain GETs */
+export interface RequestOptions {
+  method?: "GET" | "POST"
+  /** Sent as the JSON request body */
+  body?: unknown
+}
+
 /**
- * Fetch data from the UnusualWhales API with exponential backoff retry.
+ * Fetch data from the UnusualWhales API, serving cacheable endpoints from the
+ * response cache when a fresh copy is available. Requests for a past trading
+ * date use the persistent disk cache instead, when it is enabled.
+ *
+ * Uses the API key from the current request context (set per client in HTTP mode),
+ * falling back to the UW_API_KEY environment variable. Cached responses are
+ * scoped to that key, so one client's key never serves another client's requests.
+ *
+ * POST requests change state on the server, so they are never cached, never
+ * joined with another request in flight, and never retried after a server or
+ * network error that may have left the change applied.
  *
  * @param endpoint - The API endpoint path (relative to base URL)
  * @param params - Optional query parameters to append to the URL
- * @returns Promise resolving to an ApiResponse containing data or error
+ * @param options - Optional HTTP method and JSON body
+ * @returns Promise resolving to an ApiResponse containing data or error, plus cache status
  * @template T - The expected type of the response data
  */
 export async function uwFetch<T = unknown>(
   endpoint: string,
-  params?: Record<string, string | number | boolean | string[] | undefined>,
+  params?: QueryParams,
+  options: RequestOptions = {},
 ): Promise<ApiResponse<T>> {
-  const apiKey = process.env.UW_API_KEY
+  const apiKey = getCurrentApiKey()
 
   if (!apiKey) {
     return { error: "UW_API_KEY environment variable is not set" }
   }
 
-  // Check rate limit before making request
-  const rateCheck = rateLimiter.tryAcquire()
+  if (options.method && options.method !== "GET") {
+    return requestFromApi<T>(apiKey, endpoint, params, options)
+  }
+
+  const policy = getCachePolicy(endpoint)
+  const cacheKey = buildCacheKey(endpoint, params)
+  const scope = getCacheScope(apiKey)
+
+  if (policy.ttlMs <= 0) {
+    return requestOnce<T>(apiKey, cacheKey, endpoint, params)
+  }
+
+  if (diskCache && isHistoricalRequest(endpoint, params)) {
+    const stored = await diskCache.get<T>(cacheKey, scope)
+    if (stored) {
+      return { data: stored.data, cache: toDiskCacheInfo(stored, true) }
+    }
+
+    const result = await requestOnce<T>(apiKey, cacheKey, endpoint, params)
+    if (result.error) {
+      return result
+    }
+
+    const entry = await diskCache.set(cacheKey, result.data, scope)
+    return entry ? { ...result, cache: toDiskCacheInfo(entry, false) } : result
+  }
+
+  const cached = responseCache.get<T>(cacheKey, scope)
+  if (cached) {
+    return { data: cached.data, cache: toCacheInfo(cached, true) }
+  }
+
+  const result = await requestOnce<T>(apiKey, cacheKey, endpoint, params)
+  if (result.error) {
+    return result
+  }
+
+  const entry = responseCache.set(cacheKey, result.data, policy, scope)
+  return entry ? { ...result, cache: toCacheInfo(entry, false) } : result
+}
+
+/**
+ * Request data from the UnusualWhales API with quota protection, rate limiting,
+ * circuit breaker protection, and jittered backoff retry.
+ */
+async function requestFromApi<T>(
+  apiKey: string,
+  endpoint: string,
+  params?: QueryParams,
+  options: RequestOptions = {},
+): Promise<ApiResponse<T>> {
+  const guards = getApiKeyGuards(apiKey)
+  const { rateLimiter, retryBudget } = guards
+  const circuitBreaker = getCircuitBreaker(guards, getEndpointGroup(endpoint))
+
+  // Keep the end of the daily quota for requests that matter
+  if (quotaTracker.shouldRefuse(apiKey, getRequestPriority(endpoint))) {
+    const remaining = quotaTracker.getRemaining(apiKey)
+    return {
+      error: `Daily API quota is running low (${remaining} requests remaining). Skipping low-priority request; try again after the quota resets.`,
+    }
+  }
+
+  // Wait for a rate limit slot before making request
+  const rateCheck = await rateLimiter.acquire()
   if (!rateCheck.allowed) {
     const waitSeconds = Math.ceil((rateCheck.waitMs || 0) / 1000)
+    const reason = rateCheck.reason === "timeout"
+      ? ` No slot freed up within ${Math.ceil(rateLimiterQueueConfig.maxWaitMs / 1000)} seconds.`
+      : ""
     return {
-      error: `Rate limit exceeded (${rateLimitPerMinute}/min). Try again in ${waitSeconds} seconds.`,
+      error: `Rate limit exceeded (${configuredRateLimit}/min).${reason} Try again in ${waitSeconds} seconds.`,
     }
   }
 
@@ -137,107 +430,170 @@ export async function uwFetch<T = unknown>(
     })
   }
 
-  // Execute request with circuit breaker protection
+  // Execute request with circuit breaker protection. Transient failures that
+  // outlast the retries are thrown inside the breaker so they count towards opening it.
+  // While the breaker is testing recovery, each request gets a single attempt.
+  const allowRetries = circuitBreaker.getStatus().state === CircuitState.CLOSED
   try {
-    return await circuitBreaker.execute(async () => {
-      let lastError: string | null = null
+    return await circuitBreaker.execute(() => sendWithRetries<T>(apiKey, url, endpoint, options, retryBudget, allowRetries))
+  } catch (error) {
+    if (error instanceof CircuitBreakerError || error instanceof TransientApiError) {
+      return { error: error.message }
+    }
+    throw error
+  }
+}
+
+/**
+ * Send a request, retrying transient failures with full-jitter backoff and 429s
+ * after their Retry-After delay, as long as the retry budget allows.
+ * Only GETs are retried after a server or network error; a 429 means the request
+ * was not processed, so any method is retried after one.
+ *
+ * @throws {TransientApiError} If the request still fails with a server or network error
+ */
+async function sendWithRetries<T>(
+  apiKey: string,
+  url: URL,
+  endpoint: string,
+  options: RequestOptions,
+  retryBudget: RetryBudget,
+  allowRetries: boolean,
+): Promise<ApiResponse<T>> {
+  let lastError: string | null = null
+  retryBudget.recordRequest()
+
+  const method = options.method ?? "GET"
+  const idempotent = method === "GET"
+  const hasBody = options.body !== undefined
+
+  const canRetry = (attempt: number): boolean => {
+    if (!allowRetries || attempt >= configuredMaxRetries - 1) {
+      return false
+    }
+    if (!retryBudget.tryRetry()) {
+      logger.warn("Retry budget exhausted - not retrying", { endpoint, ...retryBudget.getStatus() })
+      return false
+    }
+    return true
+  }
+
+  for (let attempt = 0; attempt < configuredMaxRetries; attempt++) {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
 
-      for (let attempt = 0; attempt < configuredMaxRetries; attempt++) {
-        const controller = new AbortController()
-        const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+    try {
+      const response = await fetch(url.toString(), {
+        method,
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: "application/json",
+          ...(hasBody ? { "Content-Type": "application/json" } : {}),
+        },
+        body: hasBody ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal,
+      })
+
+      clearTimeout(timeout)
+      quotaTracker.record(apiKey, response.headers)
+
+      if (response.ok) {
+        const text = await response.text()
+        if (!text) {
+          return { data: {} as T }
+        }
 
         try {
-          const response = await fetch(url.toString(), {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-              Accept: "application/json",
-            },
-            signal: controller.signal,
+          const data = JSON.parse(text)
+          return { data: data as T }
+        } catch {
+          return { error: `Invalid JSON response: ${text.slice(0, 100)}` }
+        }
+      }
+
+      // Rate limit responses from the API: retry if the server asks for a short wait,
+      // but not once the daily quota is used up
+      if (response.status === 429) {
+        const retryAfter = response.headers?.get("retry-after")
+        const retryAfterMs = parseRetryAfter(retryAfter)
+        const dailyQuotaExhausted = quotaTracker.getRemaining(apiKey) === 0
+        const waitAcceptable = retryAfterMs === undefined || retryAfterMs <= configuredRetryAfterMaxMs
+
+        if (!dailyQuotaExhausted && waitAcceptable && canRetry(attempt)) {
+          const retryDelay = (retryAfterMs ?? 0) + getRetryDelay(attempt)
+          logger.warn("Retrying request after rate limit response", {
+            endpoint,
+            status: response.status,
+            retryAfter,
+            attempt: attempt + 1,
+            maxRetries: configuredMaxRetries,
+            delayMs: retryDelay,
           })
+          await delay(retryDelay)
+          continue
+        }
 
-          clearTimeout(timeout)
-
-          if (response.ok) {
-            const text = await response.text()
-            if (!text) {
-              return { data: {} as T }
-            }
-
-            try {
-              const data = JSON.parse(text)
-              return { data: data as T }
-            } catch {
-              return { error: `Invalid JSON response: ${text.slice(0, 100)}` }
-            }
-          }
-
-          // Special handling for rate limit responses from the API (don't retry)
-          if (response.status === 429) {
-            const retryAfter = response.headers.get("retry-after")
-            const waitInfo = retryAfter ? ` Retry after ${retryAfter} seconds.` : ""
-            return {
-              error: `API rate limit exceeded (429).${waitInfo} You may be approaching your daily limit.`,
-            }
-          }
-
-          const errorText = await response.text()
-          lastError = `API error (${response.status}): ${errorText}`
-
-          // Don't retry 4xx client errors (except 429 which is handled above)
-          if (response.status >= 400 && response.status < 500) {
-            return { error: lastError }
-          }
-
-          // 5xx errors - check if we should retry
-          if (isRetryableError(response.status) && attempt < configuredMaxRetries - 1) {
-            const retryDelay = getRetryDelay(attempt)
-            logger.warn("Retrying request after server error", {
-              endpoint,
-              status: response.status,
-              attempt: attempt + 1,
-              maxRetries: configuredMaxRetries,
-              delayMs: retryDelay,
-            })
-            await delay(retryDelay)
-            continue
-          }
-        } catch (error) {
-          clearTimeout(timeout)
-          const err = error instanceof Error ? error : new Error(String(error))
-
-          if (err.name === "AbortError") {
-            lastError = "Request timed out"
-          } else {
-            lastError = `Request failed: ${err.message}`
-          }
-
-          // Check if we should retry network errors
-          if (isRetryableError(null, err) && attempt < configuredMaxRetries - 1) {
-            const retryDelay = getRetryDelay(attempt)
-            logger.warn("Retrying request after network error", {
-              endpoint,
-              error: err.message,
-              attempt: attempt + 1,
-              maxRetries: configuredMaxRetries,
-              delayMs: retryDelay,
-            })
-            await delay(retryDelay)
-            continue
-          }
+        const waitInfo = retryAfter ? ` Retry after ${retryAfter} seconds.` : ""
+        const { daily_count: used, daily_limit: limit } = quotaTracker.getUsage(apiKey)
+        const quotaInfo = used !== null && limit !== null
+          ? ` ${used} of ${limit} daily requests used.`
+          : " You may be approaching your daily limit."
+        return {
+          error: `API rate limit exceeded (429).${waitInfo}${quotaInfo}`,
         }
       }
 
-      // All retries exhausted
-      return { error: lastError ?? "Max retries exceeded" }
-    })
-  } catch (error) {
-    // Handle circuit breaker errors
-    if (error instanceof CircuitBreakerError) {
-      return { error: error.message }
+      const errorText = await response.text()
+      lastError = `API error (${response.status}): ${errorText}`
+
+      // Don't retry 4xx client errors (except 429 which is handled above)
+      if (response.status >= 400 && response.status < 500) {
+        return { error: lastError }
+      }
+
+      // 5xx errors - check if we should retry
+      if (idempotent && isRetryableError(response.status) && canRetry(attempt)) {
+        const retryDelay = getRetryDelay(attempt)
+        logger.warn("Retrying request after server error", {
+          endpoint,
+          status: response.status,
+          attempt: attempt + 1,
+          maxRetries: configuredMaxRetries,
+          delayMs: retryDelay,
+        })
+        await delay(retryDelay)
+        continue
+      }
+      break
+    } catch (error) {
+      clearTimeout(timeout)
+      const err = error instanceof Error ? error : new Error(String(error))
+
+      if (err.name === "AbortError") {
+        lastError = "Request timed out"
+      } else {
+        lastError = `Request failed: ${err.message}`
+      }
+
+      // Check if we should retry network errors
+      if (idempotent && isRetryableError(null, err) && canRetry(attempt)) {
+        const retryDelay = getRetryDelay(attempt)
+        logger.warn("Retrying request after network error", {
+          endpoint,
+          error: err.message,
+          attempt: attempt + 1,
+          maxRetries: configuredMaxRetries,
+          delayMs: retryDelay,
+        })
+        await delay(retryDelay)
+        continue
+      }
+      break
     }
-    throw error
   }
+
+  // All retries exhausted
+  throw new TransientApiError(lastError ?? "Max retries exceeded")
 }
 
 /**
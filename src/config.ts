@@ -0,0 +1,111 @@
+/**
+ * Server startup configuration.
+ *
+ * Settings are read from CLI flags first, then environment variables, then defaults:
+ *
+ * | Flag            | Environment variable       | Default     |
+ * |-----------------|----------------------------|-------------|
+ * | `--transport`   | `UW_TRANSPORT`             | `stdio`     |
+ * | `--host`        | `UW_HTTP_HOST`             | `127.0.0.1` |
+ * | `--port`        | `UW_HTTP_PORT`             | `3000`      |
+ * | —               | `UW_HTTP_SESSION_TIMEOUT`  | `1800000`   |
+ */
+
+export type TransportMode = "stdio" | "http"
+
+export interface ServerConfig {
+  /** Transport used to talk to MCP clients */
+  transport: TransportMode
+  /** Interface the HTTP server binds to (http mode only) */
+  host: string
+  /** Port the HTTP server listens on (http mode only) */
+  port: number
+  /** Milliseconds of inactivity before an HTTP session is closed (http mode only) */
+  sessionTimeoutMs: number
+}
+
+const DEFAULT_HOST = "127.0.0.1"
+const DEFAULT_PORT = 3000
+const DEFAULT_SESSION_TIMEOUT_MS = 30 * 60_000
+
+const TRANSPORT_MODES: readonly TransportMode[] = ["stdio", "http"]
+
+/**
+ * Parse `--name value` and `--name=value` flags into a map.
+ * A flag without a value (e.g. `--http`) is recorded as "true".
+ */
+function parseFlags(argv: string[]): Map<string, string> {
+  const flags = new Map<string, string>()
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (!arg.startsWith("--")) {
+      continue
+    }
+
+    const eqIndex = arg.indexOf("=")
+    if (eqIndex !== -1) {
+      flags.set(arg.slice(2, eqIndex), arg.slice(eqIndex + 1))
+      continue
+    }
+
+    const next = argv[i + 1]
+    if (next !== undefined && !next.startsWith("--")) {
+      flags.set(arg.slice(2), next)
+      i++
+    } else {
+      flags.set(arg.slice(2), "true")
+    }
+  }
+
+  return flags
+}
+
+/**
+ * Parse a positive integer setting, throwing a descriptive error when invalid.
+ */
+function parsePositiveInt(value: string, name: string, max?: number): number {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1 || (max !== undefined && parsed > max)) {
+    const range = max !== undefined ? ` between 1 and ${max}` : ""
+    throw new Error(`Invalid ${name}: "${value}" (expected a positive integer${range})`)
+  }
+  return parsed
+}
+
+/**
+ * Load the server configuration from CLI arguments and environment variables.
+ *
+ * @param argv - CLI arguments (defaults to process.argv without node and script path)
+ * @param env - Environment variables (defaults to process.env)
+ * @returns Resolved server configuration
+ * @throws {Error} If a flag or environment variable has an invalid value
+ */
+export function loadServerConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): ServerConfig {
+  const flags = parseFlags(argv)
+
+  const transportValue = flags.has("http")
+    ? "http"
+    : (flags.get("transport") ?? env.UW_TRANSPORT ?? "stdio").toLowerCase()
+  if (!TRANSPORT_MODES.includes(transportValue as TransportMode)) {
+    throw new Error(
+      `Invalid transport: "${transportValue}" (expected one of ${TRANSPORT_MODES.join(", ")})`,
+    )
+  }
+
+  const host = flags.get("host") ?? env.UW_HTTP_HOST ?? DEFAULT_HOST
+  const portValue = flags.get("port") ?? env.UW_HTTP_PORT
+  const timeoutValue = env.UW_HTTP_SESSION_TIMEOUT
+
+  return {
+    transport: transportValue as TransportMode,
+    host,
+    port: portValue ? parsePositiveInt(portValue, "port", 65535) : DEFAULT_PORT,
+    sessionTimeoutMs: timeoutValue
+      ? parsePositiveInt(timeoutValue, "UW_HTTP_SESSION_TIMEOUT")
+      : DEFAULT_SESSION_TIMEOUT_MS,
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * Persistent on-disk cache for historical API responses.
+ *
+ * Data for a trading day that has already ended (the full tape, OHLC candles, or
+ * flow for a past date) never changes, so it is kept across restarts. This makes
+ * backtesting-style conversations cheap and lets them work offline.
+ *
+ * Each response is stored as a JSON file named by the SHA-256 hash of its cache key
+ * and the scope of the API key that fetched it,
+ * inside a directory for the current format version. File modification times track
+ * last access, and the least recently used files are evicted once the total size
+ * exceeds the cap. The cache is enabled by setting `UW_DISK_CACHE_DIR`.
+ */
+
+import { createHash } from "node:crypto"
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { logger } from "./logger.js"
+import type { CacheInfo } from "./cache.js"
+
+/** Bump when the entry format changes; entries from other versions are ignored */
+export const DISK_CACHE_VERSION = 1
+
+const DEFAULT_MAX_SIZE_MB = 256
+const MB = 1024 * 1024
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const PATH_DATE_PATTERN = /\/(\d{4}-\d{2}-\d{2})(?:\/|$)/
+
+/**
+ * Endpoint families whose responses for a finished trading day are final. Other
+ * dated endpoints (screener, news, alerts and the like) can still change, so they
+ * are never kept on disk.
+ */
+export const HISTORICAL_ENDPOINTS: readonly { name: string; pattern: RegExp }[] = [
+  { name: "full-tape", pattern: /^\/api\/option-trades\/(full-tape|exchange-breakdown)\/\d{4}-\d{2}-\d{2}$/ },
+  { name: "ohlc", pattern: /^\/api\/stock\/[^/]+\/ohlc\/[^/]+$/ },
+  { name: "stock-flow", pattern: /^\/api\/stock\/[^/]+\/(flow-per-strike|flow-per-strike-intraday|flow-per-expiry|net-prem-ticks)$/ },
+  { name: "greek-flow", pattern: /^\/api\/(stock|group-flow)\/[^/]+\/greek-flow(\/[^/]+)?$/ },
+  { name: "greek-exposure", pattern: /^\/api\/stock\/[^/]+\/(greek-exposure|spot-exposures)(\/(expiry|strike|strike-expiry|expiry-strike))?$/ },
+  { name: "open-interest", pattern: /^\/api\/stock\/[^/]+\/(oi-per-expiry|oi-per-strike|max-pain)$/ },
+  { name: "contract-intraday", pattern: /^\/api\/option-contract\/[^/]+\/(intraday|volume-profile)$/ },
+]
+
+/** Format of each cache file */
+interface DiskCacheFile<T = unknown> {
+  version: number
+  key: string
+  scope?: string
+  storedAt: number
+  data: T
+}
+
+export interface DiskCacheEntry<T = unknown> {
+  key: string
+  data: T
+  storedAt: number
+}
+
+export interface DiskCacheStats {
+  directory: string
+  entries: number
+  sizeBytes: number
+  maxSizeBytes: number
+  hits: number
+  misses: number
+}
+
+interface IndexEntry {
+  size: number
+  lastAccess: number
+  /** Scope of the entry, once known (entries loaded from disk are read lazily) */
+  scope?: string
+}
+
+/**
+ * Get the current trading date (YYYY-MM-DD) in US Eastern time.
+ */
+export function currentMarketDate(now: Date = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/New_York",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now)
+}
+
+/**
+ * Check whether a request is for a trading day that has already ended, so its
+ * response can never change. Only endpoints in `HISTORICAL_ENDPOINTS` qualify. The
+ * date is taken from the `date` query parameter, or from a date path segment for
+ * endpoints like the full tape.
+ *
+ * @param endpoint - The API endpoint path
+ * @param params - Query parameters
+ * @param today - Current trading date (default: today in US Eastern time)
+ */
+export function isHistoricalRequest(
+  endpoint: string,
+  params?: Record<string, unknown>,
+  today: string = currentMarketDate(),
+): boolean {
+  const path = endpoint.split("?")[0]
+  if (!HISTORICAL_ENDPOINTS.some(({ pattern }) => pattern.test(path))) {
+    return false
+  }
+  const date = params?.date !== undefined
+    ? params.date
+    : PATH_DATE_PATTERN.exec(path)?.[1]
+  return typeof date === "string" && DATE_PATTERN.test(date) && date < today
+}
+
+/**
+ * File-backed response cache with a total size cap and least-recently-used eviction.
+ * Disk errors are logged and treated as cache misses, so they never fail a request.
+ */
+export class DiskCache {
+  private readonly versionDir: string
+  private index = new Map<string, IndexEntry>()
+  private loading: Promise<void> | undefined
+  private hits = 0
+  private misses = 0
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxSizeBytes: number = DEFAULT_MAX_SIZE_MB * MB,
+  ) {
+    this.versionDir = join(directory, `v${DISK_CACHE_VERSION}`)
+  }
+
+  /**
+   * Read an entry stored under the same scope, or undefined if it is missing or unreadable.
+   */
+  async get<T = unknown>(key: string, scope = ""): Promise<DiskCacheEntry<T> | undefined> {
+    await this.load()
+    const hash = hashKey(key, scope)
+
+    if (this.index.has(hash)) {
+      try {
+        const file = JSON.parse(await readFile(this.filePath(hash), "utf8")) as DiskCacheFile<T>
+        if (file.version === DISK_CACHE_VERSION && file.key === key && (file.scope ?? "") === scope) {
+          this.index.get(hash)!.scope = scope
+          this.touch(hash)
+          this.hits++
+          return { key, data: file.data, storedAt: file.storedAt }
+        }
+      } catch (error) {
+        logger.warn("Failed to read disk cache entry", { key, error })
+      }
+      await this.remove(hash)
+    }
+
+    this.misses++
+    return undefined
+  }
+
+  /**
+   * Store a response under a scope, evicting least recently used entries if over the size cap.
+   */
+  async set(key: string, data: unknown, scope = ""): Promise<DiskCacheEntry | undefined> {
+    await this.load()
+    const hash = hashKey(key, scope)
+    const entry: DiskCacheEntry = { key, data, storedAt: Date.now() }
+    const file: DiskCacheFile = { version: DISK_CACHE_VERSION, ...entry, scope: scope || undefined }
+    const content = JSON.stringify(file)
+    const size = Buffer.byteLength(content)
+
+    if (size > this.maxSizeBytes) {
+      return undefined
+    }
+
+    // Write to a temporary file first so readers never see a partial entry
+    const path = this.filePath(hash)
+    const tempPath = `${path}.${process.pid}.tmp`
+    try {
+      await writeFile(tempPath, content, "utf8")
+      await rename(tempPath, path)
+    } catch (error) {
+      logger.warn("Failed to write disk cache entry", { key, error })
+      await rm(tempPath, { force: true }).catch(() => undefined)
+      return undefined
+    }
+
+    this.index.delete(hash)
+    this.index.set(hash, { size, lastAccess: Date.now(), scope })
+    await this.evict()
+    return entry
+  }
+
+  /**
+   * Remove entries. With a prefix, only entries whose key starts with it are removed;
+   * with a scope, only entries stored under that scope.
+   *
+   * @returns Number of entries removed
+   */
+  async clear(prefix?: string, scope?: string): Promise<number> {
+    await this.load()
+    let count = 0
+
+    for (const hash of [...this.index.keys()]) {
+      if (prefix !== undefined || scope !== undefined) {
+        const meta = await this.readMeta(hash)
+        // Unreadable entries are removed regardless of the filters
+        if (meta && ((prefix !== undefined && !meta.key.startsWith(prefix)) || (scope !== undefined && meta.scope !== scope))) {
+          continue
+        }
+      }
+      await this.remove(hash)
+      count++
+    }
+
+    return count
+  }
+
+  /**
+   * Get entry count, total size, and hit/miss statistics.
+   * With a scope, the entry count and size only cover entries stored under it.
+   */
+  async getStats(scope?: string): Promise<DiskCacheStats> {
+    await this.load()
+    let entries = 0
+    let sizeBytes = 0
+    for (const [hash, entry] of [...this.index]) {
+      if (scope !== undefined && (entry.scope ?? (await this.readMeta(hash))?.scope) !== scope) {
+        continue
+      }
+      entries++
+      sizeBytes += entry.size
+    }
+    return {
+      directory: this.directory,
+      entries,
+      sizeBytes,
+      maxSizeBytes: this.maxSizeBytes,
+      hits: this.hits,
+      misses: this.misses,
+    }
+  }
+
+  /**
+   * Build the index from the files on disk, once.
+   */
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      try {
+        await mkdir(this.versionDir, { recursive: true })
+        const files = (await readdir(this.versionDir)).filter((name) => name.endsWith(".json"))
+        const entries = await Promise.all(files.map(async (name) => {
+          const info = await stat(join(this.versionDir, name))
+          return { hash: name.slice(0, -".json".length), size: info.size, lastAccess: info.mtimeMs }
+        }))
+
+        // Insert oldest first so the map iterates in least-recently-used order
+        entries.sort((a, b) => a.lastAccess - b.lastAccess)
+        for (const { hash, size, lastAccess } of entries) {
+          this.index.set(hash, { size, lastAccess })
+        }
+      } catch (error) {
+        logger.warn("Failed to load disk cache", { directory: this.directory, error })
+      }
+    })()
+    return this.loading
+  }
+
+  /**
+   * Read the key and scope of an entry from its file, remembering the scope in the index.
+   *
+   * @returns Undefined if the entry is unreadable
+   */
+  private async readMeta(hash: string): Promise<{ key: string, scope: string } | undefined> {
+    try {
+      const file = JSON.parse(await readFile(this.filePath(hash), "utf8")) as DiskCacheFile
+      const scope = file.scope ?? ""
+      const entry = this.index.get(hash)
+      if (entry) {
+        entry.scope = scope
+      }
+      return { key: file.key, scope }
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Mark an entry as most recently used, persisting the access time in its mtime.
+   */
+  private touch(hash: string): void {
+    const entry = this.index.get(hash)
+    if (!entry) {
+      return
+    }
+    const now = new Date()
+    entry.lastAccess = now.getTime()
+    this.index.delete(hash)
+    this.index.set(hash, entry)
+    utimes(this.filePath(hash), now, now).catch(() => undefined)
+  }
+
+  private async evict(): Promise<void> {
+    let total = 0
+    for (const entry of this.index.values()) {
+      total += entry.size
+    }
+
+    for (const [hash, entry] of this.index) {
+      if (total <= this.maxSizeBytes) {
+        break
+      }
+      total -= entry.size
+      await this.remove(hash)
+    }
+  }
+
+  private async remove(hash: string): Promise<void> {
+    this.index.delete(hash)
+    await rm(this.filePath(hash), { force: true }).catch((error) => {
+      logger.warn("Failed to remove disk cache entry", { hash, error })
+    })
+  }
+
+  private filePath(hash: string): string {
+    return join(this.versionDir, `${hash}.json`)
+  }
+}
+
+function hashKey(key: string, scope: string): string {
+  return createHash("sha256").update(scope ? `${scope}\n${key}` : key).digest("hex")
+}
+
+/**
+ * Describe a disk cache entry for API responses. Historical entries never expire.
+ */
+export function toDiskCacheInfo(entry: DiskCacheEntry, hit: boolean): CacheInfo {
+  return {
+    hit,
+    policy: "historical",
+    age_seconds: Math.floor((Date.now() - entry.storedAt) / 1000),
+    ttl_seconds: null,
+  }
+}
+
+// Initialize the shared disk cache from environment variables (disabled unless a directory is set)
+const maxSizeMb = parseInt(process.env.UW_DISK_CACHE_MAX_MB || String(DEFAULT_MAX_SIZE_MB), 10)
+
+export const diskCache: DiskCache | undefined = process.env.UW_DISK_CACHE_DIR
+  ? new DiskCache(
+    process.env.UW_DISK_CACHE_DIR,
+    (isNaN(maxSizeMb) || maxSizeMb < 1 ? DEFAULT_MAX_SIZE_MB : maxSizeMb) * MB,
+  )
+  : undefined
@@ -0,0 +1,342 @@
+/**
+ * HTTP transport for sharing one server between several MCP clients.
+ *
+ * Serves the Streamable HTTP transport on `/mcp` and the legacy HTTP+SSE transport
+ * on `/sse` + `/messages` for older clients. Every session gets its own McpServer
+ * instance created by the supplied factory, so tool/resource/prompt registration is
+ * shared with stdio mode.
+ */
+
+import { randomUUID } from "node:crypto"
+import { createServer as createNodeServer, type IncomingMessage, type ServerResponse } from "node:http"
+import type { AddressInfo } from "node:net"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js"
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js"
+
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js"
+
+import { logger } from "./logger.js"
+import type { ServerConfig } from "./config.js"
+import { authenticateRequest, AuthenticationError, type AuthConfig } from "./auth.js"
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+const SESSION_SWEEP_INTERVAL_MS = 60_000
+
+const MCP_PATH = "/mcp"
+const SSE_PATH = "/sse"
+const SSE_MESSAGES_PATH = "/messages"
+const HEALTH_PATH = "/health"
+
+const NO_AUTH: AuthConfig = { mode: "none", tokens: new Map() }
+
+/** Request with auth info attached, as the SDK transports expect */
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo }
+
+interface Session {
+  type: "streamable" | "sse"
+  transport: StreamableHTTPServerTransport | SSEServerTransport
+  server: McpServer
+  lastActivity: number
+  /** Responses still being written, such as SSE streams and slow tool calls */
+  openResponses: number
+  /** Token of the client that opened the session; other credentials may not use it */
+  ownerToken?: string
+}
+
+export interface HttpServerHandle {
+  /** Base URL the server is listening on (e.g. http://127.0.0.1:3000) */
+  url: string
+  /** Number of currently open MCP sessions */
+  sessionCount(): number
+  /** Close all sessions and stop accepting connections */
+  close(): Promise<void>
+}
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly rpcCode: number = -32000,
+    public readonly headers: Record<string, string> = {},
+  ) {
+    super(message)
+    this.name = "HttpError"
+  }
+}
+
+/**
+ * Read and parse a JSON request body, enforcing a size limit.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large")
+    }
+    chunks.push(chunk as Buffer)
+  }
+
+  const text = Buffer.concat(chunks).toString("utf8")
+  if (!text) {
+    return undefined
+  }
+
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new HttpError(400, "Parse error: request body is not valid JSON", -32700)
+  }
+}
+
+/**
+ * Write a JSON-RPC error response, matching the shape the SDK transports use.
+ */
+function sendJsonRpcError(res: ServerResponse, error: HttpError): void {
+  if (res.headersSent) {
+    return
+  }
+  res.writeHead(error.status, { ...error.headers, "Content-Type": "application/json" })
+  res.end(JSON.stringify({
+    jsonrpc: "2.0",
+    error: { code: error.rpcCode, message: error.message },
+    id: null,
+  }))
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Start the HTTP server.
+ *
+ * @param config - Host, port, and session timeout settings
+ * @param createServer - Factory returning a fully registered McpServer for each new session
+ * @param auth - Client authentication settings (default: no authentication)
+ * @returns Handle exposing the listening URL and a graceful close function
+ */
+export async function startHttpServer(
+  config: Pick<ServerConfig, "host" | "port" | "sessionTimeoutMs">,
+  createServer: () => McpServer,
+  auth: AuthConfig = NO_AUTH,
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>()
+
+  async function closeSession(sessionId: string, reason: string): Promise<void> {
+    const session = sessions.get(sessionId)
+    if (!session) {
+      return
+    }
+    sessions.delete(sessionId)
+    logger.info("Closing HTTP session", { sessionId, type: session.type, reason })
+    try {
+      await session.server.close()
+    } catch (error) {
+      logger.warn("Error closing HTTP session", { sessionId, error })
+    }
+  }
+
+  function getSession(req: AuthenticatedRequest, res: ServerResponse, sessionId: string, type: Session["type"]): Session {
+    const session = sessions.get(sessionId)
+    if (!session || session.type !== type) {
+      throw new HttpError(404, "Session not found")
+    }
+    if (session.ownerToken !== req.auth?.token) {
+      throw new HttpError(403, "Session belongs to a different client")
+    }
+    trackResponse(session, res)
+    return session
+  }
+
+  /**
+   * Keep a session from being swept as idle while a response for it is open,
+   * and restart its idle timer when the response ends.
+   */
+  function trackResponse(session: Session, res: ServerResponse): void {
+    session.lastActivity = Date.now()
+    session.openResponses++
+    res.once("close", () => {
+      session.openResponses--
+      session.lastActivity = Date.now()
+    })
+  }
+
+  async function handleStreamable(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"]
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined
+
+    if (typeof sessionId === "string") {
+      const session = getSession(req, res, sessionId, "streamable")
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body)
+      return
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      throw new HttpError(400, "Bad Request: No valid session ID provided")
+    }
+
+    const server = createServer()
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        const session: Session = {
+          type: "streamable",
+          transport,
+          server,
+          lastActivity: Date.now(),
+          openResponses: 0,
+          ownerToken: req.auth?.token,
+        }
+        sessions.set(newSessionId, session)
+        trackResponse(session, res)
+        logger.info("HTTP session initialized", {
+          sessionId: newSessionId,
+          type: "streamable",
+          clientId: req.auth?.clientId,
+        })
+      },
+    })
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId, "transport closed")
+      }
+    }
+
+    try {
+      await server.connect(transport)
+      await transport.handleRequest(req, res, body)
+    } finally {
+      // A rejected initialize never gets a session ID, so no session would ever close it
+      if (!transport.sessionId) {
+        await server.close().catch((error) => {
+          logger.warn("Error closing uninitialized HTTP session", { error })
+        })
+      }
+    }
+  }
+
+  async function handleSseConnect(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    const server = createServer()
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res)
+    const session: Session = {
+      type: "sse",
+      transport,
+      server,
+      lastActivity: Date.now(),
+      openResponses: 0,
+      ownerToken: req.auth?.token,
+    }
+    sessions.set(transport.sessionId, session)
+    // The event stream stays open for the life of the session
+    trackResponse(session, res)
+    transport.onclose = () => {
+      void closeSession(transport.sessionId, "transport closed")
+    }
+    logger.info("HTTP session initialized", {
+      sessionId: transport.sessionId,
+      type: "sse",
+      clientId: req.auth?.clientId,
+    })
+    await server.connect(transport)
+  }
+
+  async function handleSseMessage(req: AuthenticatedRequest, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get("sessionId")
+    if (!sessionId) {
+      throw new HttpError(400, "Bad Request: sessionId query parameter is required")
+    }
+    const session = getSession(req, res, sessionId, "sse")
+    const body = await readJsonBody(req)
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body)
+  }
+
+  async function route(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`)
+
+    if (url.pathname === HEALTH_PATH && req.method === "GET") {
+      sendJson(res, 200, { status: "ok", sessions: sessions.size })
+      return
+    }
+
+    // Every MCP endpoint requires a valid credential when auth is enabled.
+    // The SDK transports forward req.auth to tool handlers as extra.authInfo.
+    try {
+      req.auth = authenticateRequest(req, auth)
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw new HttpError(401, error.message, -32001, { "WWW-Authenticate": "Bearer" })
+      }
+      throw error
+    }
+
+    if (url.pathname === MCP_PATH && ["GET", "POST", "DELETE"].includes(req.method ?? "")) {
+      await handleStreamable(req, res)
+      return
+    }
+
+    if (url.pathname === SSE_PATH && req.method === "GET") {
+      await handleSseConnect(req, res)
+      return
+    }
+
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+      await handleSseMessage(req, res, url)
+      return
+    }
+
+    throw new HttpError(404, "Not found")
+  }
+
+  const httpServer = createNodeServer((req, res) => {
+    route(req, res).catch((error) => {
+      if (error instanceof HttpError) {
+        sendJsonRpcError(res, error)
+        return
+      }
+      logger.error("Unhandled HTTP request error", { method: req.method, url: req.url, error })
+      sendJsonRpcError(res, new HttpError(500, "Internal server error", -32603))
+    })
+  })
+
+  // Close sessions whose clients went away without sending DELETE. Sessions with
+  // an open stream or a request in progress are in use, however long ago they started.
+  const sweepTimer = setInterval(() => {
+    const cutoff = Date.now() - config.sessionTimeoutMs
+    for (const [sessionId, session] of sessions) {
+      if (session.openResponses === 0 && session.lastActivity < cutoff) {
+        void closeSession(sessionId, "idle timeout")
+      }
+    }
+  }, Math.min(SESSION_SWEEP_INTERVAL_MS, config.sessionTimeoutMs))
+  sweepTimer.unref()
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject)
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off("error", reject)
+      resolve()
+    })
+  })
+
+  const address = httpServer.address() as AddressInfo
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address
+
+  return {
+    url: `http://${host}:${address.port}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweepTimer)
+      await Promise.all([...sessions.keys()].map((sessionId) => closeSession(sessionId, "shutdown")))
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()))
+        httpServer.closeAllConnections()
+      })
+    },
+  }
+}
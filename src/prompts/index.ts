@@ -1,4 +1,6 @@
+import { z } from "zod"
 import type { Prompt, PromptArgument, PromptMessage } from "@modelcontextprotocol/sdk/types.js"
+import { tickerSchema, dateSchema, flowGroupSchema } from "../schemas/index.js"
 
 /**
  * Type definition for a prompt handler function.
@@ -6,27 +8,55 @@ import type { Prompt, PromptArgument, PromptMessage } from "@modelcontextprotoco
 export type PromptHandler = (args: Record<string, string>) => Promise<PromptMessage[]>
 
 /**
- * Represents a prompt registration with its definition and handler.
+ * Zod shape describing a prompt's arguments.
+ * MCP clients always send prompt arguments as strings, so every field validates a string.
+ */
+export type PromptArgsShape = Record<string, z.ZodType<string | undefined>>
+
+/**
+ * Represents a prompt registration with its definition, handler, and argument schema.
  */
 interface PromptRegistration {
   prompt: Prompt
   handler: PromptHandler
+  argsSchema?: PromptArgsShape
+}
+
+/** Positive whole number passed as a string (e.g., "30") */
+const wholeNumberArgSchema = z.string().regex(/^\d+$/, "Must be a positive whole number")
+
+/** Comma-separated list of ticker symbols (e.g., "SPY,QQQ,IWM") */
+const tickerListArgSchema = z.string()
+  .regex(/^[A-Za-z.]{1,10}(\s*,\s*[A-Za-z.]{1,10})*$/, "Tickers must be a comma-separated list of symbols")
+
+/** Option contract symbol in OCC format (e.g., AAPL240119C00150000) */
+const optionSymbolArgSchema = z.string()
+  .regex(/^[A-Za-z.]{1,6}\d{6}[CPcp]\d{8}$/, "Contract must be an option symbol like AAPL240119C00150000")
+
+/**
+ * Build the MCP argument list advertised for a prompt from its Zod shape.
+ * Mirrors how McpServer derives arguments, so the `prompts` export matches what clients see.
+ */
+function toPromptArguments(shape: PromptArgsShape): PromptArgument[] {
+  return Object.entries(shape).map(([name, schema]) => ({
+    name,
+    description: schema.description,
+    required: !(schema instanceof z.ZodOptional),
+  }))
 }
 
 /**
  * Daily Market Summary Prompt
  * Combines market tide, sector analysis, unusual options flow, and dark pool activity.
  */
+const dailySummaryArgs = {
+  date: dateSchema.optional().describe("Date to analyze in YYYY-MM-DD format (default: today)"),
+} satisfies PromptArgsShape
+
 const dailySummaryPrompt: Prompt = {
   name: "daily-summary",
   description: "Generate a comprehensive daily market summary with unusual activity",
-  arguments: [
-    {
-      name: "date",
-      description: "Date to analyze in YYYY-MM-DD format (default: today)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(dailySummaryArgs),
 }
 
 async function handleDailySummary(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -60,16 +90,14 @@ Focus on identifying:
  * Ticker Deep Dive Prompt
  * Comprehensive analysis of a single ticker across multiple data sources.
  */
+const tickerAnalysisArgs = {
+  ticker: tickerSchema.describe("Stock ticker symbol to analyze (e.g., AAPL, TSLA)"),
+} satisfies PromptArgsShape
+
 const tickerAnalysisPrompt: Prompt = {
   name: "ticker-analysis",
   description: "Comprehensive analysis of a single ticker with stock info, options, dark pool, and insider activity",
-  arguments: [
-    {
-      name: "ticker",
-      description: "Stock ticker symbol to analyze (e.g., AAPL, TSLA)",
-      required: true,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(tickerAnalysisArgs),
 }
 
 async function handleTickerAnalysis(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -115,21 +143,15 @@ Provide a summary that includes:
  * Congressional Trading Activity Prompt
  * Track recent congressional trading activity and identify patterns.
  */
+const congressTrackerArgs = {
+  days: wholeNumberArgSchema.default("7").optional().describe("Number of days to look back (default: 7)"),
+  min_amount: wholeNumberArgSchema.default("15000").optional().describe("Minimum transaction amount to filter by (e.g., 50000)"),
+} satisfies PromptArgsShape
+
 const congressTrackerPrompt: Prompt = {
   name: "congress-tracker",
   description: "Track recent congressional trading activity and identify notable patterns",
-  arguments: [
-    {
-      name: "days",
-      description: "Number of days to look back (default: 7)",
-      required: false,
-    },
-    {
-      name: "min_amount",
-      description: "Minimum transaction amount to filter by (e.g., 50000)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(congressTrackerArgs),
 }
 
 async function handleCongressTracker(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -150,11 +172,15 @@ async function handleCongressTracker(args: Record<string, string>): Promise<Prom
    - Unusual timing relative to events or earnings
    - Large purchases or sales that stand out
 5. Check for any late-filed reports that might be notable
+6. Get trades flagged as statistically unusual (committee conflicts, unusually large trades,
+   first person to trade a ticker, FEC donation conflicts) and the aggregate unusual-trade stats,
+   and highlight any that overlap with the recent trades above
 
 Provide a summary that includes:
 - Top traded tickers by congress members
 - Most active congressional traders
 - Notable large transactions or unusual patterns
+- Trades flagged as unusual and why they were flagged
 - Sector preferences
 - Any potential red flags or interesting correlations`
 
@@ -175,8 +201,8 @@ Provide a summary that includes:
  */
 const morningBriefingPrompt: Prompt = {
   name: "morning-briefing",
-  description: "Morning market briefing with tide, sectors, dark pool, and earnings on deck",
-  arguments: [] as PromptArgument[],
+  description: "Morning market briefing with tide, sectors, dark pool, earnings on deck, and rates, oil, and FX",
+  arguments: [],
 }
 
 async function handleMorningBriefing(): Promise<PromptMessage[]> {
@@ -187,11 +213,14 @@ async function handleMorningBriefing(): Promise<PromptMessage[]> {
 3. Look for any notable dark pool prints from premarket or yesterday's close
 4. Show what earnings are on deck for today (both premarket and afterhours)
 5. Check for any major economic events scheduled today
+6. Check the 10-year Treasury yield, WTI crude, and the dollar against the euro and yen
+7. Get the top market movers (gainers, losers, most active) and any IPOs pricing soon
 
 Summarize:
 - Overall market sentiment and direction
 - Sectors to watch today
-- Key earnings and potential movers
+- Key earnings, top movers, and upcoming IPOs
+- Rates, oil, and currency moves that could drive the open
 - Any overnight news or developments that matter`
 
   return [
@@ -209,16 +238,14 @@ Summarize:
  * Options Setup Analysis Prompt
  * Analyze whether options are cheap or expensive for a ticker.
  */
+const optionsSetupArgs = {
+  ticker: tickerSchema.describe("Stock ticker symbol to analyze (e.g., AAPL, TSLA)"),
+} satisfies PromptArgsShape
+
 const optionsSetupPrompt: Prompt = {
   name: "options-setup",
   description: "Analyze options pricing, IV rank, and volatility structure for a ticker",
-  arguments: [
-    {
-      name: "ticker",
-      description: "Stock ticker symbol to analyze (e.g., AAPL, TSLA)",
-      required: true,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(optionsSetupArgs),
 }
 
 async function handleOptionsSetup(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -234,9 +261,12 @@ async function handleOptionsSetup(args: Record<string, string>): Promise<PromptM
 3. Get max pain for the nearest monthly expiration
 4. Check the put/call ratio and open interest distribution by strike
 5. Look at recent options volume patterns
+6. Get the variance risk premium - how does implied variance compare to realized?
+7. Check the volatility anomaly score and volatility character (mean-reverting or persistent)
 
 Assess:
-- Are options cheap or expensive right now based on IV rank?
+- Are options cheap or expensive right now based on IV rank and the variance risk premium?
+- Is the anomaly score flagging volatility as unusually rich or cheap?
 - What's the expected move priced into options?
 - Where are the key open interest levels (potential support/resistance)?
 - Is there any skew in the volatility smile?
@@ -257,16 +287,14 @@ Assess:
  * Pre-Earnings Analysis Prompt
  * Comprehensive analysis before an earnings announcement.
  */
+const preEarningsArgs = {
+  ticker: tickerSchema.describe("Stock ticker symbol to analyze (e.g., AAPL, GOOGL)"),
+} satisfies PromptArgsShape
+
 const preEarningsPrompt: Prompt = {
   name: "pre-earnings",
   description: "Pre-earnings analysis with historical moves, IV, and positioning",
-  arguments: [
-    {
-      name: "ticker",
-      description: "Stock ticker symbol to analyze (e.g., AAPL, GOOGL)",
-      required: true,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(preEarningsArgs),
 }
 
 async function handlePreEarnings(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -307,16 +335,14 @@ Provide:
  * Unusual Flow Scanner Prompt
  * Find the most unusual options activity across the market.
  */
+const unusualFlowArgs = {
+  min_premium: wholeNumberArgSchema.default("100000").optional().describe("Minimum premium filter in dollars (default: 100000)"),
+} satisfies PromptArgsShape
+
 const unusualFlowPrompt: Prompt = {
   name: "unusual-flow",
   description: "Scan for unusual options activity with large premium and volume",
-  arguments: [
-    {
-      name: "min_premium",
-      description: "Minimum premium filter in dollars (default: 100000)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(unusualFlowArgs),
 }
 
 async function handleUnusualFlow(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -352,16 +378,14 @@ Highlight:
  * Dark Pool Scanner Prompt
  * Analyze dark pool activity across the market.
  */
+const darkPoolScannerArgs = {
+  min_size: wholeNumberArgSchema.default("1000000").optional().describe("Minimum trade size filter (default: 1000000)"),
+} satisfies PromptArgsShape
+
 const darkPoolScannerPrompt: Prompt = {
   name: "dark-pool-scanner",
   description: "Scan for significant dark pool activity across the market",
-  arguments: [
-    {
-      name: "min_size",
-      description: "Minimum trade size filter (default: 1000000)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(darkPoolScannerArgs),
 }
 
 async function handleDarkPoolScanner(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -374,6 +398,7 @@ async function handleDarkPoolScanner(args: Record<string, string>): Promise<Prom
 3. Look for tickers with unusual dark pool volume relative to normal
 4. Analyze whether prints are hitting bid (selling) or lifting offer (buying)
 5. Compare dark pool sentiment to options flow for confirmation/divergence
+6. For the tickers with the most dark pool activity, get dark pool price levels to see where volume concentrates
 
 Report:
 - Largest dark pool prints today (ticker, size, price level)
@@ -397,16 +422,14 @@ Report:
  * Insider Activity Scanner Prompt
  * Track insider buying and selling patterns.
  */
+const insiderScannerArgs = {
+  days: wholeNumberArgSchema.default("14").optional().describe("Number of days to look back (default: 14)"),
+} satisfies PromptArgsShape
+
 const insiderScannerPrompt: Prompt = {
   name: "insider-scanner",
   description: "Scan for notable insider buying and selling activity",
-  arguments: [
-    {
-      name: "days",
-      description: "Number of days to look back (default: 14)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(insiderScannerArgs),
 }
 
 async function handleInsiderScanner(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -442,16 +465,14 @@ Highlight:
  * Institutional Activity Prompt
  * Track institutional holdings and 13F changes.
  */
+const institutionalActivityArgs = {
+  sector: z.string().optional().describe("Optional sector focus (e.g., technology, healthcare)"),
+} satisfies PromptArgsShape
+
 const institutionalActivityPrompt: Prompt = {
   name: "institutional-activity",
   description: "Analyze recent institutional filings, holdings changes, and sector exposure",
-  arguments: [
-    {
-      name: "sector",
-      description: "Optional sector focus (e.g., technology, healthcare)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(institutionalActivityArgs),
 }
 
 async function handleInstitutionalActivity(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -488,16 +509,14 @@ Report:
  * Sector Flow Analysis Prompt
  * Compare options flow across sector groups.
  */
+const sectorFlowArgs = {
+  group: flowGroupSchema.default("mag7").optional().describe("Sector group to analyze (mag7, semi, bank, energy, etc.)"),
+} satisfies PromptArgsShape
+
 const sectorFlowPrompt: Prompt = {
   name: "sector-flow",
   description: "Compare options flow sentiment across sectors or a specific sector group",
-  arguments: [
-    {
-      name: "group",
-      description: "Sector group to analyze (mag7, semi, bank, energy, etc.)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(sectorFlowArgs),
 }
 
 async function handleSectorFlow(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -533,16 +552,14 @@ Provide:
  * Greek Exposure Analysis Prompt
  * Analyze dealer gamma and delta positioning.
  */
+const greekExposureArgs = {
+  ticker: tickerSchema.describe("Stock ticker symbol to analyze (e.g., SPY, QQQ)"),
+} satisfies PromptArgsShape
+
 const greekExposurePrompt: Prompt = {
   name: "greek-exposure",
   description: "Analyze gamma, delta, and vanna exposure for a ticker",
-  arguments: [
-    {
-      name: "ticker",
-      description: "Stock ticker symbol to analyze (e.g., SPY, QQQ)",
-      required: true,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(greekExposureArgs),
 }
 
 async function handleGreekExposure(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -581,16 +598,14 @@ Explain:
  * IV Rank Screener Prompt
  * Find stocks with extreme IV levels.
  */
+const ivRankScreenerArgs = {
+  mode: z.enum(["high", "low", "both"]).default("both").optional().describe("high (>70 IV rank) or low (<30 IV rank)"),
+} satisfies PromptArgsShape
+
 const ivRankScreenerPrompt: Prompt = {
   name: "iv-screener",
   description: "Screen for stocks with high or low IV rank for options strategies",
-  arguments: [
-    {
-      name: "mode",
-      description: "high (>70 IV rank) or low (<30 IV rank)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(ivRankScreenerArgs),
 }
 
 async function handleIvRankScreener(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -603,13 +618,16 @@ async function handleIvRankScreener(args: Record<string, string>): Promise<Promp
 3. For high IV stocks, check if there's a catalyst (earnings, FDA, etc.) explaining the elevation
 4. For low IV stocks, look for any upcoming events that might cause IV expansion
 5. Cross-reference with options flow to see market positioning
+6. Pull the top volatility anomalies in both directions (short_vol for rich, long_vol for cheap)
+   and check the variance risk premium of the strongest candidates
 
 Provide:
 - Top 10 highest IV rank stocks with context
 - Top 10 lowest IV rank stocks with context
 - For each, note: current IV rank, any upcoming catalysts, and recent flow sentiment
 - Strategy suggestions (credit spreads for high IV, debit spreads for low IV)
-- Any stocks where IV seems mispriced relative to upcoming events`
+- Any stocks where IV seems mispriced relative to upcoming events
+- Names that rank as volatility anomalies, with their variance risk premium`
 
   return [
     {
@@ -626,16 +644,14 @@ Provide:
  * Earnings Calendar Prompt
  * Comprehensive earnings calendar with positioning.
  */
+const earningsCalendarArgs = {
+  timeframe: z.enum(["today", "week", "next_week"]).default("week").optional().describe("today, week, or next_week (default: week)"),
+} satisfies PromptArgsShape
+
 const earningsCalendarPrompt: Prompt = {
   name: "earnings-calendar",
   description: "Earnings calendar with IV levels and options positioning",
-  arguments: [
-    {
-      name: "timeframe",
-      description: "today, week, or next_week (default: week)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(earningsCalendarArgs),
 }
 
 async function handleEarningsCalendar(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -671,16 +687,14 @@ Format as:
  * FDA Calendar Prompt
  * Track FDA events and biotech catalysts.
  */
+const fdaCalendarArgs = {
+  days: wholeNumberArgSchema.default("30").optional().describe("Number of days to look ahead (default: 30)"),
+} satisfies PromptArgsShape
+
 const fdaCalendarPrompt: Prompt = {
   name: "fda-calendar",
   description: "FDA calendar with PDUFA dates and biotech options activity",
-  arguments: [
-    {
-      name: "days",
-      description: "Number of days to look ahead (default: 30)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(fdaCalendarArgs),
 }
 
 async function handleFdaCalendar(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -716,16 +730,14 @@ Provide:
  * Short Interest Analysis Prompt
  * Track short interest and squeeze potential.
  */
+const shortInterestArgs = {
+  ticker: tickerSchema.describe("Stock ticker symbol to analyze (e.g., GME, AMC)"),
+} satisfies PromptArgsShape
+
 const shortInterestPrompt: Prompt = {
   name: "short-interest",
   description: "Analyze short interest, FTDs, and squeeze potential for a ticker",
-  arguments: [
-    {
-      name: "ticker",
-      description: "Stock ticker symbol to analyze (e.g., GME, AMC)",
-      required: true,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(shortInterestArgs),
 }
 
 async function handleShortInterest(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -769,16 +781,14 @@ Assess squeeze potential:
  * Seasonality Analysis Prompt
  * Historical seasonal patterns for a ticker or market.
  */
+const seasonalityArgs = {
+  ticker: tickerSchema.optional().describe("Stock ticker symbol (optional - omit for market-wide)"),
+} satisfies PromptArgsShape
+
 const seasonalityPrompt: Prompt = {
   name: "seasonality",
   description: "Analyze historical seasonality patterns for a ticker or the market",
-  arguments: [
-    {
-      name: "ticker",
-      description: "Stock ticker symbol (optional - omit for market-wide)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(seasonalityArgs),
 }
 
 async function handleSeasonality(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -816,16 +826,14 @@ Provide:
  * ETF Flow Analysis Prompt
  * Track ETF inflows, outflows, and holdings.
  */
+const etfFlowArgs = {
+  ticker: tickerSchema.describe("ETF ticker to analyze (e.g., SPY, QQQ) or stock ticker for exposure lookup"),
+} satisfies PromptArgsShape
+
 const etfFlowPrompt: Prompt = {
   name: "etf-flow",
   description: "Analyze ETF inflows, outflows, and sector exposure",
-  arguments: [
-    {
-      name: "ticker",
-      description: "ETF ticker to analyze (e.g., SPY, QQQ) or stock ticker for exposure lookup",
-      required: true,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(etfFlowArgs),
 }
 
 async function handleEtfFlow(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -872,7 +880,7 @@ Provide:
 const bullishConfluencePrompt: Prompt = {
   name: "bullish-confluence",
   description: "Find stocks with multiple bullish signals across flow, dark pool, and insiders",
-  arguments: [] as PromptArgument[],
+  arguments: [],
 }
 
 async function handleBullishConfluence(): Promise<PromptMessage[]> {
@@ -914,7 +922,7 @@ Provide:
 const bearishConfluencePrompt: Prompt = {
   name: "bearish-confluence",
   description: "Find stocks with multiple bearish signals across flow, dark pool, and insiders",
-  arguments: [] as PromptArgument[],
+  arguments: [],
 }
 
 async function handleBearishConfluence(): Promise<PromptMessage[]> {
@@ -953,16 +961,14 @@ Provide:
  * Politician Portfolio Prompt
  * Deep dive on a specific politician's holdings and trades.
  */
+const politicianPortfolioArgs = {
+  name: z.string().min(1, "Politician name is required").describe("Politician name (e.g., Nancy Pelosi, Dan Crenshaw)"),
+} satisfies PromptArgsShape
+
 const politicianPortfolioPrompt: Prompt = {
   name: "politician-portfolio",
   description: "Analyze a politician's portfolio holdings and recent trades",
-  arguments: [
-    {
-      name: "name",
-      description: "Politician name (e.g., Nancy Pelosi, Dan Crenshaw)",
-      required: true,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(politicianPortfolioArgs),
 }
 
 async function handlePoliticianPortfolio(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -1001,16 +1007,14 @@ Provide:
  * Weekly Expiration Analysis Prompt
  * Analyze options dynamics for weekly expiration.
  */
+const weeklyExpirationArgs = {
+  tickers: tickerListArgSchema.default("SPY,QQQ,IWM").optional().describe("Comma-separated tickers to analyze (default: SPY,QQQ,IWM)"),
+} satisfies PromptArgsShape
+
 const weeklyExpirationPrompt: Prompt = {
   name: "weekly-expiration",
   description: "Analyze max pain, gamma, and positioning for weekly options expiration",
-  arguments: [
-    {
-      name: "tickers",
-      description: "Comma-separated tickers to analyze (default: SPY,QQQ,IWM)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(weeklyExpirationArgs),
 }
 
 async function handleWeeklyExpiration(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -1050,7 +1054,7 @@ Provide for each ticker:
 const economicCalendarPrompt: Prompt = {
   name: "economic-calendar",
   description: "Economic calendar with FOMC, CPI, jobs data and market positioning",
-  arguments: [] as PromptArgument[],
+  arguments: [],
 }
 
 async function handleEconomicCalendar(): Promise<PromptMessage[]> {
@@ -1089,7 +1093,7 @@ Provide:
 const endOfDayRecapPrompt: Prompt = {
   name: "end-of-day-recap",
   description: "End of day market recap with flow, dark pool, and sector summary",
-  arguments: [] as PromptArgument[],
+  arguments: [],
 }
 
 async function handleEndOfDayRecap(): Promise<PromptMessage[]> {
@@ -1124,21 +1128,15 @@ Summarize:
  * Correlation Analysis Prompt
  * Analyze correlations between tickers.
  */
+const correlationAnalysisArgs = {
+  tickers: tickerListArgSchema.describe("Comma-separated tickers to analyze (e.g., NVDA,AMD,INTC)"),
+  days: wholeNumberArgSchema.default("30").optional().describe("Number of days for correlation period (default: 30)"),
+} satisfies PromptArgsShape
+
 const correlationAnalysisPrompt: Prompt = {
   name: "correlation-analysis",
   description: "Analyze correlations between tickers over a time period",
-  arguments: [
-    {
-      name: "tickers",
-      description: "Comma-separated tickers to analyze (e.g., NVDA,AMD,INTC)",
-      required: true,
-    },
-    {
-      name: "days",
-      description: "Number of days for correlation period (default: 30)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(correlationAnalysisArgs),
 }
 
 async function handleCorrelationAnalysis(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -1179,16 +1177,14 @@ Provide:
  * Top Movers Prompt
  * Find tickers with the biggest options activity.
  */
+const topMoversArgs = {
+  limit: wholeNumberArgSchema.default("10").optional().describe("Number of top movers to show (default: 10)"),
+} satisfies PromptArgsShape
+
 const topMoversPrompt: Prompt = {
   name: "top-movers",
   description: "Top tickers by net premium and options impact today",
-  arguments: [
-    {
-      name: "limit",
-      description: "Number of top movers to show (default: 10)",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(topMoversArgs),
 }
 
 async function handleTopMovers(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -1227,16 +1223,14 @@ Provide:
  * News Scanner Prompt
  * Scan market news and related flow.
  */
+const newsScannerArgs = {
+  ticker: tickerSchema.optional().describe("Optional ticker to focus news on"),
+} satisfies PromptArgsShape
+
 const newsScannerPrompt: Prompt = {
   name: "news-scanner",
   description: "Market news headlines with related options and dark pool activity",
-  arguments: [
-    {
-      name: "ticker",
-      description: "Optional ticker to focus news on",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(newsScannerArgs),
 }
 
 async function handleNewsScanner(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -1275,16 +1269,14 @@ Provide:
  * Option Contract Analysis Prompt
  * Deep dive on a specific option contract.
  */
+const optionContractArgs = {
+  contract: optionSymbolArgSchema.describe("Option contract symbol (e.g., AAPL240119C00150000)"),
+} satisfies PromptArgsShape
+
 const optionContractPrompt: Prompt = {
   name: "option-contract",
   description: "Deep dive analysis of a specific option contract",
-  arguments: [
-    {
-      name: "contract",
-      description: "Option contract symbol (e.g., AAPL240119C00150000)",
-      required: true,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(optionContractArgs),
 }
 
 async function handleOptionContract(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -1327,16 +1319,14 @@ Provide:
  * Analyst Tracker Prompt
  * Track analyst ratings and related flow.
  */
+const analystTrackerArgs = {
+  ticker: tickerSchema.optional().describe("Optional ticker to focus on"),
+} satisfies PromptArgsShape
+
 const analystTrackerPrompt: Prompt = {
   name: "analyst-tracker",
   description: "Recent analyst ratings changes with options flow correlation",
-  arguments: [
-    {
-      name: "ticker",
-      description: "Optional ticker to focus on",
-      required: false,
-    },
-  ] as PromptArgument[],
+  arguments: toPromptArguments(analystTrackerArgs),
 }
 
 async function handleAnalystTracker(args: Record<string, string>): Promise<PromptMessage[]> {
@@ -1375,35 +1365,35 @@ Provide:
  * Array of all prompt registrations.
  */
 const promptRegistrations: PromptRegistration[] = [
-  { prompt: dailySummaryPrompt, handler: handleDailySummary },
-  { prompt: tickerAnalysisPrompt, handler: handleTickerAnalysis },
-  { prompt: congressTrackerPrompt, handler: handleCongressTracker },
+  { prompt: dailySummaryPrompt, handler: handleDailySummary, argsSchema: dailySummaryArgs },
+  { prompt: tickerAnalysisPrompt, handler: handleTickerAnalysis, argsSchema: tickerAnalysisArgs },
+  { prompt: congressTrackerPrompt, handler: handleCongressTracker, argsSchema: congressTrackerArgs },
   { prompt: morningBriefingPrompt, handler: handleMorningBriefing },
-  { prompt: optionsSetupPrompt, handler: handleOptionsSetup },
-  { prompt: preEarningsPrompt, handler: handlePreEarnings },
-  { prompt: unusualFlowPrompt, handler: handleUnusualFlow },
-  { prompt: darkPoolScannerPrompt, handler: handleDarkPoolScanner },
-  { prompt: insiderScannerPrompt, handler: handleInsiderScanner },
-  { prompt: institutionalActivityPrompt, handler: handleInstitutionalActivity },
-  { prompt: sectorFlowPrompt, handler: handleSectorFlow },
-  { prompt: greekExposurePrompt, handler: handleGreekExposure },
-  { prompt: ivRankScreenerPrompt, handler: handleIvRankScreener },
-  { prompt: earningsCalendarPrompt, handler: handleEarningsCalendar },
-  { prompt: fdaCalendarPrompt, handler: handleFdaCalendar },
-  { prompt: shortInterestPrompt, handler: handleShortInterest },
-  { prompt: seasonalityPrompt, handler: handleSeasonality },
-  { prompt: etfFlowPrompt, handler: handleEtfFlow },
+  { prompt: optionsSetupPrompt, handler: handleOptionsSetup, argsSchema: optionsSetupArgs },
+  { prompt: preEarningsPrompt, handler: handlePreEarnings, argsSchema: preEarningsArgs },
+  { prompt: unusualFlowPrompt, handler: handleUnusualFlow, argsSchema: unusualFlowArgs },
+  { prompt: darkPoolScannerPrompt, handler: handleDarkPoolScanner, argsSchema: darkPoolScannerArgs },
+  { prompt: insiderScannerPrompt, handler: handleInsiderScanner, argsSchema: insiderScannerArgs },
+  { prompt: institutionalActivityPrompt, handler: handleInstitutionalActivity, argsSchema: institutionalActivityArgs },
+  { prompt: sectorFlowPrompt, handler: handleSectorFlow, argsSchema: sectorFlowArgs },
+  { prompt: greekExposurePrompt, handler: handleGreekExposure, argsSchema: greekExposureArgs },
+  { prompt: ivRankScreenerPrompt, handler: handleIvRankScreener, argsSchema: ivRankScreenerArgs },
+  { prompt: earningsCalendarPrompt, handler: handleEarningsCalendar, argsSchema: earningsCalendarArgs },
+  { prompt: fdaCalendarPrompt, handler: handleFdaCalendar, argsSchema: fdaCalendarArgs },
+  { prompt: shortInterestPrompt, handler: handleShortInterest, argsSchema: shortInterestArgs },
+  { prompt: seasonalityPrompt, handler: handleSeasonality, argsSchema: seasonalityArgs },
+  { prompt: etfFlowPrompt, handler: handleEtfFlow, argsSchema: etfFlowArgs },
   { prompt: bullishConfluencePrompt, handler: handleBullishConfluence },
   { prompt: bearishConfluencePrompt, handler: handleBearishConfluence },
-  { prompt: politicianPortfolioPrompt, handler: handlePoliticianPortfolio },
-  { prompt: weeklyExpirationPrompt, handler: handleWeeklyExpiration },
+  { prompt: politicianPortfolioPrompt, handler: handlePoliticianPortfolio, argsSchema: politicianPortfolioArgs },
+  { prompt: weeklyExpirationPrompt, handler: handleWeeklyExpiration, argsSchema: weeklyExpirationArgs },
   { prompt: economicCalendarPrompt, handler: handleEconomicCalendar },
   { prompt: endOfDayRecapPrompt, handler: handleEndOfDayRecap },
-  { prompt: correlationAnalysisPrompt, handler: handleCorrelationAnalysis },
-  { prompt: topMoversPrompt, handler: handleTopMovers },
-  { prompt: newsScannerPrompt, handler: handleNewsScanner },
-  { prompt: optionContractPrompt, handler: handleOptionContract },
-  { prompt: analystTrackerPrompt, handler: handleAnalystTracker },
+  { prompt: correlationAnalysisPrompt, handler: handleCorrelationAnalysis, argsSchema: correlationAnalysisArgs },
+  { prompt: topMoversPrompt, handler: handleTopMovers, argsSchema: topMoversArgs },
+  { prompt: newsScannerPrompt, handler: handleNewsScanner, argsSchema: newsScannerArgs },
+  { prompt: optionContractPrompt, handler: handleOptionContract, argsSchema: optionContractArgs },
+  { prompt: analystTrackerPrompt, handler: handleAnalystTracker, argsSchema: analystTrackerArgs },
 ]
 
 /**
@@ -1417,3 +1407,13 @@ export const prompts = promptRegistrations.map((reg) => reg.prompt)
 export const handlers: Record<string, PromptHandler> = Object.fromEntries(
   promptRegistrations.map((reg) => [reg.prompt.name, reg.handler]),
 )
+
+/**
+ * Export object mapping prompt names to their argument schemas.
+ * Prompts without arguments have no entry.
+ */
+export const argsSchemas: Record<string, PromptArgsShape> = Object.fromEntries(
+  promptRegistrations
+    .filter((reg) => reg.argsSchema !== undefined)
+    .map((reg) => [reg.prompt.name, reg.argsSchema as PromptArgsShape]),
+)
@@ -0,0 +1,274 @@
+/**
+ * Daily API quota tracking.
+ *
+ * Unusual Whales reports usage in response headers on every request. The tracker
+ * keeps a ledger per API key for the current trading day, persisted to
+ * `UW_QUOTA_FILE` when set so counts survive restarts. When the remaining quota
+ * drops below `UW_QUOTA_RESERVE`, low-priority requests are refused so the rest
+ * of the day's quota is kept for the calls that matter.
+ */
+
+import { createHash } from "node:crypto"
+import { readFileSync } from "node:fs"
+import { writeFile } from "node:fs/promises"
+import { logger } from "./logger.js"
+import { currentMarketDate } from "./disk-cache.js"
+import { getCurrentApiKey } from "./request-context.js"
+
+/** Bump when the ledger format changes; ledgers from other versions are discarded */
+const LEDGER_VERSION = 1
+const SAVE_DELAY_MS = 1000
+
+/** Usage headers returned by the Unusual Whales API */
+export const QUOTA_HEADERS = {
+  dailyCount: "x-uw-daily-req-count",
+  dailyLimit: "x-uw-token-req-limit",
+  minuteRemaining: "x-uw-req-per-minute-remaining",
+} as const
+
+export type RequestPriority = "normal" | "low"
+
+/**
+ * Bulk and discovery endpoints that are the first to be held back when quota runs low.
+ */
+const LOW_PRIORITY_PATTERNS: readonly RegExp[] = [
+  /^\/api\/screener\//,
+  /^\/api\/news\//,
+  /^\/api\/option-trades\/full-tape\//,
+  /^\/api\/seasonality\//,
+]
+
+interface LedgerEntry {
+  /** Trading date (YYYY-MM-DD) the counts belong to */
+  date: string
+  /** Requests sent by this server */
+  requests: number
+  dailyCount?: number
+  dailyLimit?: number
+  minuteRemaining?: number
+  updatedAt?: string
+}
+
+interface LedgerFile {
+  version: number
+  keys: Record<string, LedgerEntry>
+}
+
+export interface QuotaConfig {
+  /** Ledger file path (in-memory only when unset) */
+  file?: string
+  /** Remaining requests below which low-priority calls are refused (0 disables) */
+  reserve: number
+  /** Daily limit to assume until the API reports one */
+  dailyLimit?: number
+}
+
+/** Quota usage for one API key, as shown to clients */
+export interface QuotaUsage {
+  client: string
+  date: string
+  requests: number
+  daily_count: number | null
+  daily_limit: number | null
+  remaining: number | null
+  minute_remaining: number | null
+  reserve: number
+  updated_at: string | null
+}
+
+/**
+ * Get the priority of a request to an endpoint.
+ */
+export function getRequestPriority(endpoint: string): RequestPriority {
+  const path = endpoint.split("?")[0]
+  return LOW_PRIORITY_PATTERNS.some((pattern) => pattern.test(path)) ? "low" : "normal"
+}
+
+/**
+ * Identify an API key in logs and the ledger without storing the key itself.
+ */
+export function getKeyFingerprint(apiKey: string): string {
+  return `key-${createHash("sha256").update(apiKey).digest("hex").slice(0, 8)}`
+}
+
+function parseHeader(headers: Headers | undefined, name: string): number | undefined {
+  const value = headers?.get(name)
+  if (value === null || value === undefined || value === "") {
+    return undefined
+  }
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * Per-API-key ledger of the current trading day's usage.
+ */
+export class QuotaTracker {
+  private ledger = new Map<string, LedgerEntry>()
+  private saveTimer: ReturnType<typeof setTimeout> | null = null
+  /** Trading date the ledger was last pruned on */
+  private prunedDate: string | undefined
+
+  constructor(private readonly config: QuotaConfig) {
+    if (config.file) {
+      this.load(config.file)
+    }
+  }
+
+  /**
+   * Record a request sent with an API key, updating counts from the response headers.
+   */
+  record(apiKey: string, headers: Headers | undefined): void {
+    this.pruneStale()
+    const entry = this.getEntry(apiKey)
+    entry.requests++
+    entry.dailyCount = parseHeader(headers, QUOTA_HEADERS.dailyCount) ?? entry.dailyCount
+    entry.dailyLimit = parseHeader(headers, QUOTA_HEADERS.dailyLimit) ?? entry.dailyLimit
+    entry.minuteRemaining = parseHeader(headers, QUOTA_HEADERS.minuteRemaining) ?? entry.minuteRemaining
+    entry.updatedAt = new Date().toISOString()
+    this.scheduleSave()
+  }
+
+  /**
+   * Get the remaining daily quota for an API key, or null if the limit is unknown.
+   */
+  getRemaining(apiKey: string): number | null {
+    const entry = this.getEntry(apiKey)
+    const limit = entry.dailyLimit ?? this.config.dailyLimit
+    if (limit === undefined) {
+      return null
+    }
+    return Math.max(0, limit - (entry.dailyCount ?? entry.requests))
+  }
+
+  /**
+   * Check whether a request should be refused to protect the quota reserve.
+   */
+  shouldRefuse(apiKey: string, priority: RequestPriority): boolean {
+    if (priority !== "low" || this.config.reserve <= 0) {
+      return false
+    }
+    const remaining = this.getRemaining(apiKey)
+    return remaining !== null && remaining < this.config.reserve
+  }
+
+  /**
+   * Get today's usage for an API key.
+   */
+  getUsage(apiKey: string): QuotaUsage {
+    const entry = this.getEntry(apiKey)
+    return {
+      client: getKeyFingerprint(apiKey),
+      date: entry.date,
+      requests: entry.requests,
+      daily_count: entry.dailyCount ?? null,
+      daily_limit: entry.dailyLimit ?? this.config.dailyLimit ?? null,
+      remaining: this.getRemaining(apiKey),
+      minute_remaining: entry.minuteRemaining ?? null,
+      reserve: this.config.reserve,
+      updated_at: entry.updatedAt ?? null,
+    }
+  }
+
+  /**
+   * Write the ledger to disk now.
+   */
+  async save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = null
+    }
+    if (!this.config.file) {
+      return
+    }
+
+    const file: LedgerFile = { version: LEDGER_VERSION, keys: Object.fromEntries(this.ledger) }
+    try {
+      await writeFile(this.config.file, JSON.stringify(file, null, 2), "utf8")
+    } catch (error) {
+      logger.warn("Failed to save quota ledger", { file: this.config.file, error })
+    }
+  }
+
+  /**
+   * Get the entry for an API key, starting a new one when the trading day changes.
+   */
+  private getEntry(apiKey: string): LedgerEntry {
+    const fingerprint = getKeyFingerprint(apiKey)
+    const today = currentMarketDate()
+    let entry = this.ledger.get(fingerprint)
+    if (!entry || entry.date !== today) {
+      entry = { date: today, requests: 0 }
+      this.ledger.set(fingerprint, entry)
+    }
+    return entry
+  }
+
+  private load(path: string): void {
+    let content: string
+    try {
+      content = readFileSync(path, "utf8")
+    } catch {
+      // No ledger yet
+      return
+    }
+
+    try {
+      const file = JSON.parse(content) as LedgerFile
+      if (file.version !== LEDGER_VERSION) {
+        logger.warn("Ignoring quota ledger with unsupported version", { file: path, version: file.version })
+        return
+      }
+      this.ledger = new Map(Object.entries(file.keys))
+      this.pruneStale()
+    } catch (error) {
+      logger.warn("Failed to load quota ledger", { file: path, error })
+    }
+  }
+
+  /**
+   * Drop entries from earlier trading days, once per day, so the ledger only
+   * holds keys used today instead of every key ever seen.
+   */
+  private pruneStale(): void {
+    const today = currentMarketDate()
+    if (this.prunedDate === today) {
+      return
+    }
+    this.prunedDate = today
+    for (const [fingerprint, entry] of this.ledger) {
+      if (entry.date < today) {
+        this.ledger.delete(fingerprint)
+      }
+    }
+  }
+
+  /**
+   * Save shortly after changes, so bursts of requests share one write.
+   */
+  private scheduleSave(): void {
+    if (!this.config.file || this.saveTimer) {
+      return
+    }
+    this.saveTimer = setTimeout(() => void this.save(), SAVE_DELAY_MS)
+    this.saveTimer.unref()
+  }
+}
+
+// Initialize the shared tracker from environment variables or defaults
+const reserve = parseInt(process.env.UW_QUOTA_RESERVE || "0", 10)
+const dailyLimit = parseInt(process.env.UW_QUOTA_DAILY_LIMIT || "", 10)
+
+export const quotaTracker = new QuotaTracker({
+  file: process.env.UW_QUOTA_FILE || undefined,
+  reserve: isNaN(reserve) || reserve < 0 ? 0 : reserve,
+  dailyLimit: isNaN(dailyLimit) || dailyLimit < 1 ? undefined : dailyLimit,
+})
+
+/**
+ * Get quota usage for the API key of the current request, or undefined if there is no key.
+ */
+export function getCurrentQuotaUsage(): QuotaUsage | undefined {
+  const apiKey = getCurrentApiKey()
+  return apiKey ? quotaTracker.getUsage(apiKey) : undefined
+}
@@ -1,37 +1,141 @@
 const ONE_MINUTE_MS = 60_000
 
+export interface RateLimiterQueueConfig {
+  /** Maximum number of requests waiting for a slot (0 disables waiting) */
+  maxQueueLength: number
+  /** Maximum time a request waits for a slot before giving up */
+  maxWaitMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  /** Time until the next slot frees up, when not allowed */
+  waitMs?: number
+  /** Why a queued acquire gave up, when not allowed */
+  reason?: "queue_full" | "timeout"
+}
+
+interface Waiter {
+  resolve: (result: RateLimitResult) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+const DEFAULT_QUEUE_CONFIG: RateLimiterQueueConfig = {
+  maxQueueLength: 0,
+  maxWaitMs: 0,
+}
+
 /**
  * Sliding window rate limiter to prevent exceeding API rate limits.
  * Tracks request timestamps and rejects requests that would exceed the limit.
+ * With a wait queue configured, `acquire()` instead holds requests in FIFO order
+ * until a slot frees up, smoothing out bursts.
  */
 export class SlidingWindowRateLimiter {
   private timestamps: number[] = []
   private readonly maxRequests: number
   private readonly windowMs: number
+  private readonly queueConfig: RateLimiterQueueConfig
+  private queue: Waiter[] = []
+  private drainTimer: ReturnType<typeof setTimeout> | null = null
 
-  constructor(maxRequestsPerMinute: number) {
+  constructor(maxRequestsPerMinute: number, queueConfig: Partial<RateLimiterQueueConfig> = {}) {
     this.maxRequests = maxRequestsPerMinute
     this.windowMs = ONE_MINUTE_MS
+    this.queueConfig = { ...DEFAULT_QUEUE_CONFIG, ...queueConfig }
   }
 
   /**
    * Check if a request can proceed. If yes, records the request.
+   * Requests already waiting in the queue go first.
    * @returns Object with allowed boolean and waitMs if rate limited
    */
   tryAcquire(): { allowed: boolean; waitMs?: number } {
     const now = Date.now()
+    this.pruneTimestamps(now)
 
-    // Remove timestamps outside the sliding window
-    this.timestamps = this.timestamps.filter(t => now - t < this.windowMs)
-
-    if (this.timestamps.length >= this.maxRequests) {
-      // Calculate how long until the oldest request exits the window
-      const oldestTimestamp = this.timestamps[0]
-      const waitMs = this.windowMs - (now - oldestTimestamp)
-      return { allowed: false, waitMs }
+    if (this.queue.length > 0 || this.timestamps.length >= this.maxRequests) {
+      return { allowed: false, waitMs: this.getWaitMs(now) }
     }
 
     this.timestamps.push(now)
     return { allowed: true }
   }
+
+  /**
+   * Acquire a slot, waiting in FIFO order if the limit is reached.
+   * Resolves as not allowed if the queue is full or no slot frees up within `maxWaitMs`.
+   */
+  acquire(): Promise<RateLimitResult> {
+    const result = this.tryAcquire()
+    if (result.allowed) {
+      return Promise.resolve(result)
+    }
+
+    if (this.queue.length >= this.queueConfig.maxQueueLength) {
+      return Promise.resolve({ ...result, reason: "queue_full" })
+    }
+
+    return new Promise((resolve) => {
+      const waiter: Waiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.queue = this.queue.filter((w) => w !== waiter)
+          resolve({ allowed: false, waitMs: this.getWaitMs(Date.now()), reason: "timeout" })
+        }, this.queueConfig.maxWaitMs),
+      }
+      this.queue.push(waiter)
+      this.scheduleDrain()
+    })
+  }
+
+  /**
+   * Number of requests currently waiting for a slot.
+   */
+  getQueueLength(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Grant free slots to waiting requests, oldest first.
+   */
+  private drain(): void {
+    this.drainTimer = null
+    const now = Date.now()
+    this.pruneTimestamps(now)
+
+    while (this.queue.length > 0 && this.timestamps.length < this.maxRequests) {
+      const waiter = this.queue.shift() as Waiter
+      clearTimeout(waiter.timer)
+      this.timestamps.push(now)
+      waiter.resolve({ allowed: true })
+    }
+
+    this.scheduleDrain()
+  }
+
+  /**
+   * Wake up when the oldest request leaves the window, if anyone is waiting.
+   */
+  private scheduleDrain(): void {
+    if (this.drainTimer || this.queue.length === 0) {
+      return
+    }
+    this.drainTimer = setTimeout(() => this.drain(), this.getWaitMs(Date.now()))
+  }
+
+  private pruneTimestamps(now: number): void {
+    // Remove timestamps outside the sliding window
+    this.timestamps = this.timestamps.filter(t => now - t < this.windowMs)
+  }
+
+  /**
+   * Calculate how long until the oldest request exits the window.
+   */
+  private getWaitMs(now: number): number {
+    if (this.timestamps.length < this.maxRequests) {
+      return 0
+    }
+    return this.windowMs - (now - this.timestamps[0])
+  }
 }
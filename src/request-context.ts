@@ -0,0 +1,44 @@
+/**
+ * Per-request context propagated through async calls.
+ *
+ * In HTTP mode each client can authenticate with its own Unusual Whales API key.
+ * Tool handlers run inside `runWithRequestContext` so `uwFetch` can pick up the
+ * caller's key without threading it through every tool.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks"
+
+export interface RequestContext {
+  /** Unusual Whales API key to use for outgoing requests */
+  apiKey?: string
+  /** Identifier of the authenticated client, for logging */
+  clientId?: string
+}
+
+const storage = new AsyncLocalStorage<RequestContext>()
+
+/**
+ * Run a function with the given request context.
+ *
+ * @param context - Context visible to everything called from `fn`
+ * @param fn - Function to run
+ * @returns The function's return value
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn)
+}
+
+/**
+ * Get the request context for the current async call chain, if any.
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore()
+}
+
+/**
+ * Get the API key for the current request: the client's own key in HTTP mode,
+ * otherwise the UW_API_KEY environment variable.
+ */
+export function getCurrentApiKey(): string | undefined {
+  return storage.getStore()?.apiKey ?? process.env.UW_API_KEY
+}
@@ -1,4 +1,7 @@
 import type { ToolDefinition } from "../tools/index.js"
+import { getCurrentQuotaUsage } from "../quota.js"
+import { getCircuitBreakerStatuses } from "../client.js"
+import { getCurrentApiKey } from "../request-context.js"
 
 export type ResourceHandler = () => Promise<string>
 
@@ -89,6 +92,29 @@ function createToolsSummaryHandler(tools: ToolDefinition[]): ResourceHandler {
   return async () => generateToolsSummary(tools)
 }
 
+/**
+ * Create resource handler for daily API quota usage.
+ */
+function createQuotaHandler(): ResourceHandler {
+  return async () => {
+    const usage = getCurrentQuotaUsage()
+    return JSON.stringify(usage ?? { error: "UW_API_KEY environment variable is not set" }, null, 2)
+  }
+}
+
+/**
+ * Create resource handler for circuit breaker status by endpoint group.
+ */
+function createCircuitBreakersHandler(): ResourceHandler {
+  return async () => {
+    const apiKey = getCurrentApiKey()
+    const content = apiKey
+      ? { breakers: getCircuitBreakerStatuses(apiKey) }
+      : { error: "UW_API_KEY environment variable is not set" }
+    return JSON.stringify(content, null, 2)
+  }
+}
+
 /**
  * Initialize resources with the given tools.
  */
@@ -115,6 +141,24 @@ export function initializeResources(tools: ToolDefinition[]): {
       },
       handler: createToolsSummaryHandler(tools),
     },
+    {
+      resource: {
+        uri: "usage://quota",
+        name: "API Quota",
+        description: "Today's Unusual Whales API usage, daily limit, and remaining quota for your API key",
+        mimeType: "application/json",
+      },
+      handler: createQuotaHandler(),
+    },
+    {
+      resource: {
+        uri: "health://circuit-breakers",
+        name: "Circuit Breakers",
+        description: "State of the circuit breaker for each endpoint group (CLOSED, OPEN, or HALF_OPEN)",
+        mimeType: "application/json",
+      },
+      handler: createCircuitBreakersHandler(),
+    },
   ]
 
   return {
@@ -0,0 +1,64 @@
+const ONE_MINUTE_MS = 60_000
+
+export interface RetryBudgetConfig {
+  /** Retries allowed as a fraction of requests in the window (e.g. 0.2 = 20%) */
+  ratio: number
+  /** Retries always allowed per window, so low traffic can still retry */
+  minRetries: number
+}
+
+/**
+ * Retry budget limiting retries to a fraction of recent requests.
+ *
+ * Without a budget, every request to a failing API is multiplied by the retry
+ * count, adding load exactly when the API is struggling. With one, retries stop
+ * once they make up too large a share of recent traffic, and requests fail fast
+ * until the circuit breaker takes over.
+ */
+export class RetryBudget {
+  private requests: number[] = []
+  private retries: number[] = []
+  private readonly windowMs: number
+
+  constructor(private readonly config: RetryBudgetConfig = { ratio: 0.2, minRetries: 10 }) {
+    this.windowMs = ONE_MINUTE_MS
+  }
+
+  /**
+   * Record a first attempt, which grows the budget.
+   */
+  recordRequest(): void {
+    this.prune(Date.now())
+    this.requests.push(Date.now())
+  }
+
+  /**
+   * Check if a retry fits in the budget. If yes, records the retry.
+   */
+  tryRetry(): boolean {
+    const now = Date.now()
+    this.prune(now)
+
+    const allowed = this.config.minRetries + Math.floor(this.requests.length * this.config.ratio)
+    if (this.retries.length >= allowed) {
+      return false
+    }
+
+    this.retries.push(now)
+    return true
+  }
+
+  /**
+   * Get request and retry counts in the current window.
+   */
+  getStatus(): { requests: number; retries: number } {
+    this.prune(Date.now())
+    return { requests: this.requests.length, retries: this.retries.length }
+  }
+
+  private prune(now: number): void {
+    // Remove timestamps outside the sliding window
+    this.requests = this.requests.filter(t => now - t < this.windowMs)
+    this.retries = this.retries.filter(t => now - t < this.windowMs)
+  }
+}
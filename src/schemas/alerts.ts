@@ -0,0 +1,19 @@
+import { z } from "zod"
+
+/** Alert type the Query language grammar can be fetched for */
+export const alertQueryTargetSchema = z.enum([
+  "flow_alert",
+  "option_trade",
+  "option_contract",
+  "ticker_interval_flow",
+  "news",
+  "trading_state",
+  "multi_leg_trade",
+]).describe("Alert target to get the full field reference for (omit for an overview of all targets)")
+
+/** Status of an alert configuration */
+export const alertStatusSchema = z.enum(["active", "rate_limit", "paused"]).describe("Alert status (active, rate_limit, paused)")
+
+/** ID of an existing alert configuration */
+export const alertConfigIdSchema = z.uuid({ message: "Alert configuration ID must be a UUID" })
+  .describe("ID of the alert configuration to update, from the configurations action")
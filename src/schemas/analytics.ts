@@ -0,0 +1,23 @@
+import { z } from "zod"
+import { intradayIntervalSchema } from "./common.js"
+
+const ANALYTICS_CALCULATIONS = [
+  "MIN", "MAX", "MEAN", "MEDIAN", "CUMULATIVE_RETURN", "VARIANCE", "STDDEV",
+  "MAX_DRAWDOWN", "HISTOGRAM", "AUTOCORRELATION", "COVARIANCE", "CORRELATION",
+] as const
+
+const calculation = `(${ANALYTICS_CALCULATIONS.join("|")})`
+
+/** Comma-separated analytics calculations */
+export const analyticsCalculationsSchema = z.string()
+  .regex(new RegExp(`^${calculation}(,${calculation})*$`), `Calculations must be a comma-separated list of: ${ANALYTICS_CALCULATIONS.join(", ")}`)
+  .describe(`Comma-separated calculations to run (${ANALYTICS_CALCULATIONS.join(", ")})`)
+
+/** Start of an analytics window: an ISO date, a relative period, or the full history */
+export const analyticsRangeSchema = z.string()
+  .regex(/^(\d{4}-\d{2}-\d{2}|\d+[a-z]+|full)$/, "Range must be a YYYY-MM-DD date, a relative period like 2month, or full")
+  .describe("Start of the window: a YYYY-MM-DD date (pair with range_end), a relative period like 2month, or full")
+
+/** Bar interval for analytics series */
+export const analyticsIntervalSchema = z.enum([...intradayIntervalSchema.options, "DAILY", "WEEKLY", "MONTHLY"])
+  .describe("Bar interval (1min, 5min, 15min, 30min, 60min, DAILY, WEEKLY, MONTHLY)")
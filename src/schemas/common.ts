@@ -41,16 +41,44 @@ export const pageSchema = z.number()
   .min(1, "Page must be at least 1")
   .describe("Page number for paginated results")
 
+/** Pagination offset */
+export const offsetSchema = z.number()
+  .int("Offset must be an integer")
+  .min(0, "Offset cannot be negative")
+  .describe("Number of results to skip")
+
 /** Candle size for OHLC data */
 export const candleSizeSchema = z.enum([
   "1m", "5m", "10m", "15m", "30m", "1h", "4h", "1d",
 ]).describe("Candle size (1m, 5m, 10m, 15m, 30m, 1h, 4h, 1d)")
 
+/** Bar interval for daily and longer price history */
+export const historyIntervalSchema = z.enum(["daily", "weekly", "monthly"]).describe("Bar interval (daily, weekly, monthly)")
+
+/** Bar interval for intraday price history */
+export const intradayIntervalSchema = z.enum(["1min", "5min", "15min", "30min", "60min"])
+  .describe("Bar interval (1min, 5min, 15min, 30min, 60min)")
+
 /** Timeframe for historical data */
 export const timeframeSchema = z.string().describe("Timeframe for historical data (e.g., '1y', '6m', '3m', '1m' for 1 year, 6 months, 3 months, 1 month)").default("1Y")
 
 /** IV rank timespan */
 export const timespanSchema = z.string().describe("Timespan for IV rank calculation (e.g., '1y' for 1-year lookback period)")
 
+/** Market sector */
+export const sectorSchema = z.enum([
+  "Basic Materials",
+  "Communication Services",
+  "Consumer Cyclical",
+  "Consumer Defensive",
+  "Energy",
+  "Financial Services",
+  "Healthcare",
+  "Industrials",
+  "Real Estate",
+  "Technology",
+  "Utilities",
+])
+
 /** Delta value for risk reversal skew (10 or 25) */
 export const deltaSchema = z.enum(["10", "25"]).describe("Delta value for risk reversal skew (10 or 25, representing 0.10 or 0.25)")
@@ -0,0 +1,9 @@
+import { z } from "zod"
+
+/** Fiscal year and quarter (e.g., 2024Q1) */
+export const quarterSchema = z.string()
+  .regex(/^\d{4}Q[1-4]$/, "Quarter must be in YYYYQN format (e.g., 2024Q1)")
+  .describe("Fiscal year and quarter in YYYYQN format (e.g., 2024Q1)")
+
+/** Listing status filter */
+export const listingStatusSchema = z.enum(["active", "delisted"]).describe("Listing status (active or delisted)")
@@ -0,0 +1,8 @@
+import { z } from "zod"
+
+/** Comma-separated unusual congressional trade tags */
+export const unusualTradeTypesSchema = z.string()
+  .describe("Comma-separated unusual-activity tags to filter by (committee_conflict, first_person_to_trade, low_marketcap, unusual_industry, unusually_large_trade, fec_donation_conflict)")
+
+/** Side of a congressional transaction */
+export const congressTransactionTypeSchema = z.enum(["buy", "sell"]).describe("Transaction side (buy or sell)")
@@ -0,0 +1,25 @@
+import { z } from "zod"
+import { candleSizeSchema } from "./common.js"
+
+/** Crypto pair (e.g., BTC-USD, ETH-USD) */
+export const cryptoPairSchema = z.string()
+  .min(3, "Crypto pair is required")
+  .max(21, "Crypto pair too long")
+  .regex(/^[A-Za-z0-9]+-[A-Za-z0-9]+$/, "Crypto pair must be in BASE-QUOTE format (e.g., BTC-USD)")
+  .describe("Crypto pair in BASE-QUOTE format (e.g., BTC-USD, ETH-USD)")
+
+/** Candle size for crypto OHLC data, which adds weekly candles */
+export const cryptoCandleSizeSchema = z.enum([...candleSizeSchema.options, "1w"])
+  .describe("Candle size (1m, 5m, 10m, 15m, 30m, 1h, 4h, 1d, 1w)")
+
+/** Digital currency symbol (e.g., BTC) */
+export const digitalCurrencySymbolSchema = z.string()
+  .min(1, "Symbol is required")
+  .max(10, "Symbol too long")
+  .describe("Digital currency symbol (e.g., BTC, ETH)")
+
+/** Fiat market a digital currency is quoted in (e.g., USD) */
+export const digitalCurrencyMarketSchema = z.string()
+  .min(1, "Market is required")
+  .max(10, "Market too long")
+  .describe("Fiat market the currency is quoted in (e.g., USD, EUR)")
@@ -9,6 +9,75 @@ export const flowGroupSchema = z.enum([
   "uranium", "utilities",
 ]).describe("Flow group (e.g., mag7, semi, bank, energy, crypto)")
 
+/** Multi-leg strategy detected from its legs */
+export const multiLegStrategySchema = z.enum([
+  "call_butterfly_spread",
+  "call_calendar",
+  "call_condor",
+  "call_diagonal_spread_bearish",
+  "call_diagonal_spread_bullish",
+  "call_ratio_spread",
+  "call_vertical_spread",
+  "iron_butterfly",
+  "iron_condor",
+  "jade_lizard",
+  "other",
+  "put_butterfly_spread",
+  "put_calendar",
+  "put_condor",
+  "put_diagonal_spread_bearish",
+  "put_diagonal_spread_bullish",
+  "put_frontspread",
+  "put_vertical_spread",
+  "risk_reversal",
+  "straddle",
+  "strangle",
+  "synthetic",
+])
+
+/** Net premium filter for multi-leg trades, a number or abs() of one to filter on magnitude */
+export const netPremiumFilterSchema = z.union([
+  z.number(),
+  z.string().regex(/^abs\(-?\d+(\.\d+)?\)$/, "Premium filter must be a number or abs(<number>)"),
+])
+
+/** Options exchange (MIC code) */
+export const optionExchangeSchema = z.enum([
+  "AMXO", "ARCO", "BATO", "C2OX", "EDGO", "EMLD", "GMNI", "MCRY", "MPRL", "XBOX",
+  "XBXO", "XCBO", "XISX", "XMIO", "XNDQ", "XPHO", "MXOP", "SPHR", "MXTO", "IEXO",
+])
+
+/** Tag attached to an option trade */
+export const optionTradeTagSchema = z.enum([
+  "ask_side", "bid_side", "mid_side", "no_side", "china", "volatility", "dividend", "index", "arbitrage",
+])
+
+/** Issue type of an underlying */
+export const issueTypeSchema = z.enum(["Common Stock", "ETF", "Index", "ADR"])
+
+/** Market capitalization size category */
+export const marketcapSizeSchema = z.enum(["micro", "small", "mid", "large", "big"])
+
+/** Trade report flag */
+export const reportFlagSchema = z.enum([
+  "opening", "closing", "reopening", "cross_trade", "extended_hours", "intermarket_sweep",
+  "trade_through_exempt", "odd_lot", "official_price_report", "futures_floor", "summary", "printable", "normal",
+])
+
+/** OPRA trade condition code */
+export const tradeCodeSchema = z.enum([
+  "mlet", "mlat", "mlct", "mlft", "mesl", "masl", "mfsl", "cbmo", "tlet", "tlct", "tlft", "tesl", "tasl", "tfsl",
+  "tlat", "auto", "isoi", "late", "mctp", "open", "opnl", "oseq", "reop", "slai", "slan", "slci", "slcn", "slft",
+])
+
+/** ID of a flow alert */
+export const flowAlertIdSchema = z.uuid({ message: "Flow alert ID must be a UUID" })
+  .describe("Flow alert ID, from the id of a flow_alerts result")
+
+/** ID of a detected multi-leg strategy */
+export const multiLegIdSchema = z.uuid({ message: "Multi-leg strategy ID must be a UUID" })
+  .describe("Strategy ID, from the id of a multi_leg_trades result")
+
 // ============================================================================
 // Output Schemas
 // ============================================================================
@@ -18,6 +87,7 @@ export const flowGroupSchema = z.enum([
  */
 export const flowAlertOutputSchema = z.object({
   ticker: z.string().describe("Stock ticker symbol"),
+  id: z.string().optional().describe("Flow alert ID, for flow_alert_trades"),
   option_symbol: z.string().describe("Option contract symbol"),
   timestamp: z.union([z.string(), z.number()]).describe("Transaction timestamp"),
   premium: z.number().describe("Transaction premium amount"),
@@ -0,0 +1,94 @@
+import { z } from "zod"
+
+/** Dated CME futures contract symbol (e.g., ESU6), optionally a calendar spread (e.g., ESU6-ESZ6) */
+export const futuresContractSchema = z.string()
+  .min(3, "Contract symbol is required")
+  .max(21, "Contract symbol too long")
+  .regex(
+    /^[A-Za-z0-9]{1,4}[FGHJKMNQUVXZfghjkmnquvxz]\d{1,2}(-[A-Za-z0-9]{1,4}[FGHJKMNQUVXZfghjkmnquvxz]\d{1,2})?$/,
+    "Contract symbol must be a product code, month code, and year (e.g., ESU6)",
+  )
+  .describe("Dated CME contract symbol: product code, month code, and year (e.g., ESU6 for E-mini S&P 500 September 2026)")
+
+/** Trade cursor timestamp in ISO 8601 format */
+export const futuresCursorSchema = z.iso.datetime({ offset: true, message: "Timestamp must be in ISO 8601 format" })
+
+/** Aggressor side of a futures trade */
+export const futuresSideSchema = z.enum(["buy", "sell"]).describe("Aggressor side (buy or sell)")
+
+/** Candle interval for futures OHLCV data */
+export const futuresIntervalSchema = z.enum(["1m", "5m", "1d"]).describe("Candle interval (1m, 5m, 1d)")
+
+/** History range for futures OHLCV data */
+export const futuresRangeSchema = z.enum(["1d", "5d", "1w", "1m", "3m", "1y"]).describe("History range (1d, 5d, 1w, 1m, 3m, 1y)")
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+/**
+ * Futures contract output schema.
+ */
+export const futuresContractOutputSchema = z.object({
+  name: z.string().describe("Dated contract symbol"),
+  product: z.string().describe("CME product code"),
+  is_spread: z.boolean().optional().describe("Whether the contract is a calendar or inter-commodity spread"),
+  trades: z.number().optional().describe("Number of trades in the lookback window"),
+  volume: z.number().nullable().optional().describe("Volume in the lookback window"),
+  high: z.string().nullable().optional().describe("High price"),
+  low: z.string().nullable().optional().describe("Low price"),
+  last_trade: z.string().nullable().optional().describe("Last trade timestamp"),
+  security_id: z.string().nullable().optional().describe("CME security ID"),
+})
+
+/**
+ * Futures trade print output schema.
+ */
+export const futuresTradeOutputSchema = z.object({
+  executed_at: z.string().describe("Execution timestamp"),
+  price: z.string().describe("Trade price"),
+  size: z.number().describe("Trade size in contracts"),
+  side: z.enum(["buy", "sell", "none"]).describe("Aggressor side"),
+  sym: z.string().optional().describe("Contract symbol (flow only)"),
+  product: z.string().optional().describe("CME product code (flow only)"),
+  nbbo_bid: z.string().nullable().optional().describe("NBBO bid at execution"),
+  nbbo_ask: z.string().nullable().optional().describe("NBBO ask at execution"),
+  crossed: z.boolean().optional().describe("Whether the NBBO was locked or crossed"),
+  trade_id: z.number().nullable().optional().describe("Trade ID"),
+})
+
+/**
+ * Futures OHLCV candle output schema.
+ */
+export const futuresCandleOutputSchema = z.object({
+  date: z.string().optional().describe("Trading date"),
+  start: z.string().describe("Candle start timestamp"),
+  end: z.string().optional().describe("Candle end timestamp"),
+  o: z.string().describe("Open"),
+  h: z.string().describe("High"),
+  l: z.string().describe("Low"),
+  c: z.string().describe("Close"),
+  v: z.number().describe("Volume"),
+})
+
+/**
+ * Futures session statistics output schema.
+ */
+export const futuresStatsOutputSchema = z.object({
+  settlement: z.string().nullable().describe("Official settlement price (day-change reference)"),
+  settlement_date: z.string().nullable().optional().describe("Settlement date"),
+  open_interest: z.number().nullable().optional().describe("Open interest"),
+  session_volume: z.number().nullable().optional().describe("Session volume"),
+})
+
+/**
+ * Union of all possible futures tool output types.
+ */
+export const futuresOutputSchema = z.union([
+  z.array(futuresContractOutputSchema),
+  z.array(futuresTradeOutputSchema),
+  z.array(futuresCandleOutputSchema),
+  futuresStatsOutputSchema,
+  z.array(z.unknown()),
+  z.record(z.string(), z.unknown()),
+])
@@ -8,6 +8,8 @@ import { z } from "zod"
  * Convert a Zod schema to JSON Schema format for MCP tool definitions.
  * Uses Zod v4's native toJSONSchema method.
  * Strips the $schema property and ensures proper typing.
+ * Variants of a nested discriminated union (e.g. one action split by function)
+ * are lifted into the top-level oneOf so every variant carries action_type.
  */
 export function toJsonSchema<T extends z.core.$ZodType>(schema: T): {
   type: "object"
@@ -17,6 +19,11 @@ export function toJsonSchema<T extends z.core.$ZodType>(schema: T): {
   const jsonSchema = z.toJSONSchema(schema)
   // Remove $schema property and return with proper typing
   const { $schema: _, ...rest } = jsonSchema as Record<string, unknown>
+  if (Array.isArray(rest.oneOf)) {
+    rest.oneOf = rest.oneOf.flatMap((variant: Record<string, unknown>) =>
+      Array.isArray(variant.oneOf) ? variant.oneOf : [variant],
+    )
+  }
   return rest as {
     type: "object"
     properties: Record<string, unknown>
@@ -46,23 +53,58 @@ export {
   sideSchema,
   orderDirectionSchema,
   pageSchema,
+  offsetSchema,
   candleSizeSchema,
+  historyIntervalSchema,
+  intradayIntervalSchema,
   timeframeSchema,
   timespanSchema,
   deltaSchema,
+  sectorSchema,
 } from "./common.js"
 
 // Flow schemas
 export {
   flowGroupSchema,
+  flowAlertIdSchema,
+  multiLegIdSchema,
+  multiLegStrategySchema,
+  netPremiumFilterSchema,
+  optionExchangeSchema,
+  optionTradeTagSchema,
+  issueTypeSchema,
+  marketcapSizeSchema,
+  reportFlagSchema,
+  tradeCodeSchema,
   flowOutputSchema,
 } from "./flow.js"
 
 // Stock schemas
 export {
   filterSchema,
+  priceSeriesIndicatorSchema,
+  seriesIndicatorSchema,
+  periodIndicatorSchema,
+  intervalIndicatorSchema,
+  indicatorIntervalSchema,
+  seriesTypeSchema,
+  indicatorMonthSchema,
+  tradeStanceSchema,
+  optionStanceTypeSchema,
 } from "./stock.js"
 
+// Market schemas
+export {
+  optionsPulseDirectionSchema,
+} from "./market.js"
+
+// Alerts schemas
+export {
+  alertQueryTargetSchema,
+  alertStatusSchema,
+  alertConfigIdSchema,
+} from "./alerts.js"
+
 // Screener schemas
 export {
   stockScreenerOrderBySchema,
@@ -86,3 +128,65 @@ export {
   institutionalOwnershipOrderBySchema,
   latestInstitutionalFilingsOrderBySchema,
 } from "./institutions.js"
+
+// Predictions schemas
+export {
+  predictionAssetIdSchema,
+  predictionUserIdSchema,
+  predictionCategoriesSchema,
+  predictionPriceSchema,
+  predictionsOutputSchema,
+} from "./predictions.js"
+
+// Private markets schemas
+export {
+  npmTickerSchema,
+  privateMarketsInvestorSchema,
+} from "./private-markets.js"
+
+// Crypto schemas
+export {
+  cryptoPairSchema,
+  cryptoCandleSizeSchema,
+  digitalCurrencySymbolSchema,
+  digitalCurrencyMarketSchema,
+} from "./crypto.js"
+
+// Futures schemas
+export {
+  futuresContractSchema,
+  futuresCursorSchema,
+  futuresSideSchema,
+  futuresIntervalSchema,
+  futuresRangeSchema,
+  futuresOutputSchema,
+} from "./futures.js"
+
+// Macro schemas
+export {
+  currencyCodeSchema,
+  commodityNameSchema,
+  commodityIntervalSchema,
+  economicIndicatorNameSchema,
+  economicIntervalSchema,
+  treasuryMaturitySchema,
+} from "./macro.js"
+
+// Company schemas
+export {
+  quarterSchema,
+  listingStatusSchema,
+} from "./company.js"
+
+// Congress schemas
+export {
+  unusualTradeTypesSchema,
+  congressTransactionTypeSchema,
+} from "./congress.js"
+
+// Analytics schemas
+export {
+  analyticsCalculationsSchema,
+  analyticsRangeSchema,
+  analyticsIntervalSchema,
+} from "./analytics.js"
@@ -0,0 +1,30 @@
+import { z } from "zod"
+
+/** ISO 4217 currency code (e.g., USD, EUR) */
+export const currencyCodeSchema = z.string()
+  .regex(/^[A-Za-z]{3}$/, "Currency code must be a 3-letter ISO 4217 code")
+  .describe("ISO 4217 currency code (e.g., USD, EUR, JPY)")
+
+/** Commodity price series */
+export const commodityNameSchema = z.enum([
+  "wti", "brent", "natural-gas", "copper", "aluminum", "wheat", "corn",
+  "cotton", "sugar", "coffee", "all-commodities",
+]).describe("Commodity (wti, brent, natural-gas, copper, aluminum, wheat, corn, cotton, sugar, coffee, all-commodities)")
+
+/** Series cadence for commodity prices */
+export const commodityIntervalSchema = z.enum(["daily", "weekly", "monthly", "quarterly", "annual"])
+  .describe("Series cadence (daily, weekly, monthly, quarterly, annual)")
+
+/** US economic indicator series (treasury yields have their own action) */
+export const economicIndicatorNameSchema = z.enum([
+  "gdp", "gdp-per-capita", "fed-funds", "cpi", "inflation",
+  "retail-sales", "durables", "unemployment", "payrolls",
+]).describe("Economic indicator (gdp, gdp-per-capita, fed-funds, cpi, inflation, retail-sales, durables, unemployment, payrolls)")
+
+/** Series cadence for economic indicators */
+export const economicIntervalSchema = z.enum(["daily", "weekly", "monthly", "quarterly", "annual", "semiannual"])
+  .describe("Series cadence (daily, weekly, monthly, quarterly, annual, semiannual). Only some indicators support each cadence")
+
+/** Treasury maturity */
+export const treasuryMaturitySchema = z.enum(["3month", "2year", "5year", "7year", "10year", "30year"])
+  .describe("Treasury maturity (3month, 2year, 5year, 7year, 10year, 30year)")
@@ -0,0 +1,5 @@
+import { z } from "zod"
+
+/** Options pulse scanner ranking direction */
+export const optionsPulseDirectionSchema = z.enum(["bullish", "bearish"])
+  .describe("Rank by highest sentiment first (bullish) or lowest first (bearish)")
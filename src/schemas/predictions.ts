@@ -0,0 +1,237 @@
+import { z } from "zod"
+
+/** Prediction market asset (outcome token) ID */
+export const predictionAssetIdSchema = z.string()
+  .min(1, "Asset ID is required")
+  .describe("Prediction market outcome asset ID (a long numeric string)")
+
+/** Prediction market user ID */
+export const predictionUserIdSchema = z.string()
+  .min(1, "User ID is required")
+  .describe("Prediction market user ID or wallet address (e.g., 0x5140e6529f2108469c9386ad5acd7acb8cddae0c)")
+
+/** Comma-separated prediction market categories */
+export const predictionCategoriesSchema = z.string()
+  .describe("Comma-separated categories to filter by (Crypto, Culture, Finance, Politics, Science, Sports, Technology)")
+
+/** Outcome price, quoted 0-1 */
+export const predictionPriceSchema = z.number()
+  .min(0, "Price must be between 0 and 1")
+  .max(1, "Price must be between 0 and 1")
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+const predictionTagSchema = z.enum([
+  "contrarian_whales", "momentum", "closing_soon", "insider_trades", "smart_money",
+]).describe("Prediction market tag")
+
+const tagScoreOutputSchema = z.object({
+  tag: predictionTagSchema,
+  value: z.string().optional().describe("Raw tag value"),
+  normalized: z.string().optional().describe("Normalized tag score"),
+  weighted: z.string().optional().describe("Weighted tag score"),
+})
+
+const pricePointOutputSchema = z.object({
+  date: z.string().describe("Date of the closing price"),
+  price: z.string().describe("Closing price, quoted 0-1"),
+})
+
+const predictionTradeOutputSchema = z.object({
+  id: z.string().describe("Trade ID"),
+  executed_at: z.string().describe("Execution timestamp"),
+  maker_address: z.string().optional().describe("Maker wallet address"),
+  taker_address: z.string().optional().describe("Taker wallet address"),
+  maker_side: z.string().optional().describe("Maker side (buy or sell)"),
+  taker_side: z.string().optional().describe("Taker side (buy or sell)"),
+  maker_amount_filled: z.string().optional().describe("Amount filled for the maker"),
+  taker_amount_filled: z.string().optional().describe("Amount filled for the taker"),
+  fee: z.string().optional().describe("Trade fee"),
+  transaction_hash: z.string().optional().describe("On-chain transaction hash"),
+})
+
+/**
+ * Prediction market details output schema.
+ */
+export const predictionMarketOutputSchema = z.object({
+  asset_id: z.string().describe("Outcome asset ID"),
+  question: z.string().describe("Market question"),
+  description: z.string().nullable().optional().describe("Resolution criteria"),
+  category: z.string().nullable().optional().describe("Market category"),
+  active: z.boolean().optional().describe("Whether the market is active"),
+  closed: z.boolean().optional().describe("Whether the market is closed"),
+  end_date: z.string().nullable().optional().describe("Market end date"),
+  outcomes: z.array(z.string()).optional().describe("Outcome labels"),
+  outcome_index: z.number().optional().describe("Zero-based index of this outcome within the market"),
+  winning_outcome: z.number().nullable().optional().describe("Zero-based index of the winning outcome once resolved"),
+  volume: z.string().optional().describe("Traded volume in USD"),
+  tags: z.array(predictionTagSchema).optional().describe("Tags applied to the market"),
+  tags_score: z.string().optional().describe("Combined tag score"),
+  tag_scores: z.array(tagScoreOutputSchema).optional().describe("Score for each tag"),
+  trades: z.array(predictionTradeOutputSchema).optional().describe("Recent trades"),
+  smart_trades: z.array(predictionTradeOutputSchema).optional().describe("Recent smart money trades"),
+  contrarian_whale_trades: z.array(predictionTradeOutputSchema).optional().describe("Recent contrarian whale trades"),
+})
+
+/**
+ * Prediction market insider output schema.
+ */
+export const predictionInsiderOutputSchema = z.object({
+  user_address: z.string().describe("Wallet address"),
+  asset_id: z.string().optional().describe("Outcome asset ID"),
+  question: z.string().nullable().optional().describe("Market question"),
+  outcome: z.string().nullable().optional().describe("Outcome held"),
+  category: z.string().nullable().optional().describe("Market category"),
+  avg_price: z.string().describe("Average entry price"),
+  current_price: z.string().optional().describe("Current outcome price"),
+  total_invested_usd: z.string().describe("Total invested in USD"),
+  pnl_percent: z.string().optional().describe("Profit and loss in percent"),
+  invested_zscore: z.string().optional().describe("Z-score of the amount invested"),
+  n_positions: z.number().optional().describe("Number of positions held"),
+  first_trade_at: z.string().nullable().optional().describe("First trade timestamp"),
+  days_since_first_trade: z.number().nullable().optional().describe("Days since the first trade in this market"),
+  resolves: z.string().nullable().optional().describe("Market resolution date"),
+  tags: z.array(predictionTagSchema).optional().describe("Tags applied to the market"),
+})
+
+/**
+ * Prediction market liquidity output schema.
+ */
+export const predictionLiquidityOutputSchema = z.object({
+  asset_id: z.string().describe("Outcome asset ID"),
+  timestamp: z.string().optional().describe("Order book snapshot time"),
+  best_bid: z.string().nullable().describe("Best bid price"),
+  best_ask: z.string().nullable().describe("Best ask price"),
+  mid_price: z.string().nullable().optional().describe("Mid price"),
+  spread: z.string().nullable().optional().describe("Bid-ask spread"),
+  bid_liquidity: z.string().describe("Liquidity on the bid side in USD"),
+  ask_liquidity: z.string().describe("Liquidity on the ask side in USD"),
+  total_liquidity: z.string().describe("Total liquidity in USD"),
+  bids: z.array(z.object({ price: z.string(), size: z.string() })).optional().describe("Bid levels"),
+  asks: z.array(z.object({ price: z.string(), size: z.string() })).optional().describe("Ask levels"),
+})
+
+/**
+ * Prediction market position output schema.
+ */
+export const predictionPositionOutputSchema = z.object({
+  user_address: z.string().describe("Wallet address"),
+  amount: z.string().describe("Shares held"),
+  avg_price: z.string().describe("Average entry price"),
+  invested_usd: z.string().optional().describe("Current amount invested in USD"),
+  total_invested_usd: z.string().optional().describe("Total amount invested in USD"),
+  total_bought: z.string().optional().describe("Total shares bought"),
+  realized_pnl: z.string().optional().describe("Realized profit and loss"),
+  smart_score: z.string().nullable().optional().describe("Trader's smart money score"),
+  position_start_at: z.string().nullable().optional().describe("Position open timestamp"),
+  updated_at: z.string().optional().describe("Last update timestamp"),
+})
+
+/**
+ * Prediction market whale position output schema.
+ */
+export const predictionWhaleOutputSchema = z.object({
+  user_address: z.string().nullable().describe("Wallet address"),
+  asset_id: z.string().describe("Outcome asset ID"),
+  question: z.string().nullable().optional().describe("Market question"),
+  outcome: z.string().nullable().optional().describe("Outcome held"),
+  category: z.string().nullable().optional().describe("Market category"),
+  amount: z.string().describe("Shares held"),
+  avg_price: z.string().describe("Average entry price"),
+  current_price: z.string().nullable().optional().describe("Current outcome price"),
+  invested_usd: z.string().describe("Amount invested in USD"),
+  realized_pnl: z.string().optional().describe("Realized profit and loss"),
+  unusual_score: z.string().optional().describe("Unusualness score of the position"),
+  wallet_age_days: z.number().nullable().optional().describe("Age of the wallet in days"),
+  purchased_at: z.string().nullable().optional().describe("Purchase timestamp"),
+  resolves: z.string().nullable().optional().describe("Market resolution date"),
+  prices: z.array(pricePointOutputSchema).optional().describe("Daily closing prices"),
+})
+
+/**
+ * Smart money market output schema.
+ */
+export const predictionSmartMoneyOutputSchema = z.object({
+  question_id: z.number().describe("Market question ID"),
+  title: z.string().nullable().optional().describe("Market title"),
+  description: z.string().nullable().optional().describe("Resolution criteria"),
+  category: z.string().nullable().optional().describe("Market category"),
+  resolves: z.string().nullable().optional().describe("Market resolution date"),
+  smart_gap: z.string().describe("Difference between the smart money implied price and the current price"),
+  outcomes: z.array(z.object({
+    asset_id: z.string().describe("Outcome asset ID"),
+    label: z.string().describe("Outcome label"),
+    price: z.string().nullable().optional().describe("Current outcome price"),
+    smart_score: z.string().optional().describe("Smart money score for the outcome"),
+    prices: z.array(pricePointOutputSchema).optional().describe("Daily closing prices"),
+  })).describe("Market outcomes"),
+})
+
+/**
+ * Unusual prediction market output schema.
+ */
+export const predictionUnusualOutputSchema = z.object({
+  asset_id: z.string().describe("Outcome asset ID"),
+  market: z.string().nullable().optional().describe("Market question"),
+  outcome: z.string().nullable().optional().describe("Outcome label"),
+  category: z.string().nullable().optional().describe("Market category"),
+  current: z.string().nullable().optional().describe("Current outcome price, quoted 0-1"),
+  volume: z.string().optional().describe("Traded volume in USD"),
+  smart_volume: z.string().optional().describe("Volume traded by smart money in USD"),
+  unusual_score: z.string().describe("Unusualness score of the market"),
+  resolves: z.string().nullable().optional().describe("Market resolution date"),
+  tags: z.array(tagScoreOutputSchema).optional().describe("Score for each tag"),
+  top_insiders: z.array(z.object({
+    user_address: z.string().describe("Wallet address"),
+    avg_price: z.string().optional().describe("Average entry price"),
+    total_invested_usd: z.string().optional().describe("Total invested in USD"),
+    first_trade_at: z.string().nullable().optional().describe("First trade timestamp"),
+  })).optional().describe("Largest potential insiders in the market"),
+})
+
+/**
+ * Prediction market user profile output schema.
+ */
+export const predictionUserOutputSchema = z.object({
+  user_address: z.string().describe("Wallet address"),
+  user_name: z.string().nullable().optional().describe("Display name"),
+  total_trades: z.number().optional().describe("Total number of trades"),
+  categories: z.array(z.string()).optional().describe("Categories the user trades"),
+  address_tags: z.array(z.string()).optional().describe("Tags applied to the wallet"),
+  score: z.object({
+    is_smart: z.boolean().describe("Whether the user counts as smart money"),
+    num_markets: z.number().describe("Number of markets traded"),
+    smart_score: z.string().describe("Smart money score"),
+    sum_pnl: z.string().describe("Total profit and loss"),
+    win_rate: z.string().describe("Share of markets won"),
+  }).nullable().optional().describe("Aggregate score across all categories"),
+  positions: z.array(z.record(z.string(), z.unknown())).optional().describe("Open and closed positions"),
+  trades: z.array(z.record(z.string(), z.unknown())).optional().describe("Recent trades"),
+})
+
+/**
+ * Prediction market user search hit output schema.
+ */
+export const predictionUserSearchOutputSchema = z.object({
+  address: z.string().describe("Wallet address"),
+  name: z.string().describe("Display name, or an empty string when matched by address"),
+})
+
+/**
+ * Union of all possible predictions tool output types.
+ */
+export const predictionsOutputSchema = z.union([
+  predictionMarketOutputSchema,
+  predictionLiquidityOutputSchema,
+  predictionUserOutputSchema,
+  z.array(predictionInsiderOutputSchema),
+  z.array(predictionPositionOutputSchema),
+  z.array(predictionWhaleOutputSchema),
+  z.array(predictionSmartMoneyOutputSchema),
+  z.array(predictionUnusualOutputSchema),
+  z.array(predictionUserSearchOutputSchema),
+  z.array(z.unknown()),
+  z.record(z.string(), z.unknown()),
+])
@@ -0,0 +1,13 @@
+import { z } from "zod"
+
+/** Nasdaq Private Markets ticker (e.g., OPENAI) */
+export const npmTickerSchema = z.string()
+  .min(1, "NPM ticker is required")
+  .max(20, "NPM ticker too long")
+  .regex(/^[A-Za-z0-9][A-Za-z0-9.-]*$/, "NPM ticker may only contain letters, digits, dots, and hyphens")
+  .describe("Nasdaq Private Markets ticker (e.g., OPENAI). Use the search action to look one up by company name")
+
+/** Private markets investor name */
+export const privateMarketsInvestorSchema = z.string()
+  .min(1, "Investor name is required")
+  .describe("Investor name exactly as returned by the search or investors action (e.g., Sequoia Capital)")
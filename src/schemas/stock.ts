@@ -1,4 +1,48 @@
 import { z } from "zod"
+import { historyIntervalSchema, intradayIntervalSchema } from "./common.js"
 
 /** Filter type for intraday flow */
 export const filterSchema = z.enum(["NetPremium", "Volume", "Trades"]).describe("Filter type for intraday flow").default("NetPremium")
+
+/** Technical indicators using interval, time_period, and series_type */
+export const priceSeriesIndicatorSchema = z.enum([
+  "SMA", "EMA", "WMA", "DEMA", "TEMA", "TRIMA", "KAMA", "T3", "RSI", "MOM",
+  "CMO", "ROC", "ROCR", "TRIX", "BBANDS", "MIDPOINT", "STOCHRSI",
+]).describe("Indicator using interval, time_period, and series_type")
+
+/** Technical indicators using interval and series_type */
+export const seriesIndicatorSchema = z.enum([
+  "MAMA", "MACD", "MACDEXT", "APO", "PPO", "HT_TRENDLINE", "HT_SINE",
+  "HT_TRENDMODE", "HT_DCPERIOD", "HT_DCPHASE", "HT_PHASOR",
+]).describe("Indicator using interval and series_type")
+
+/** Technical indicators using interval and time_period, computed from high, low, and close */
+export const periodIndicatorSchema = z.enum([
+  "WILLR", "ADX", "ADXR", "CCI", "AROON", "AROONOSC", "MFI", "DX", "MINUS_DI",
+  "PLUS_DI", "MINUS_DM", "PLUS_DM", "MIDPRICE", "ATR", "NATR",
+]).describe("Indicator using interval and time_period")
+
+/** Technical indicators using only interval */
+export const intervalIndicatorSchema = z.enum([
+  "STOCH", "STOCHF", "BOP", "ULTOSC", "SAR", "TRANGE", "AD", "ADOSC", "OBV",
+]).describe("Indicator using only interval")
+
+/** Intervals for technical indicators */
+export const indicatorIntervalSchema = z.enum([...intradayIntervalSchema.options, ...historyIntervalSchema.options])
+  .describe("Interval between data points (1min, 5min, 15min, 30min, 60min, daily, weekly, monthly)")
+
+/** Price used to calculate a technical indicator */
+export const seriesTypeSchema = z.enum(["close", "open", "high", "low"])
+  .describe("Price used in the calculation (close, open, high, low)")
+
+/** Month of intraday data for technical indicators */
+export const indicatorMonthSchema = z.string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format")
+  .describe("Month of intraday data in YYYY-MM format (e.g., 2026-02). Only for intraday intervals")
+
+/** Trade stance to rank option contracts by */
+export const tradeStanceSchema = z.enum(["sell_premium", "sell_vega", "directional", "leaps", "cheapies"])
+  .describe("Trade stance to rank contracts by (sell_premium, sell_vega, directional, leaps, cheapies)")
+
+/** Contract side for option stance ranking */
+export const optionStanceTypeSchema = z.enum(["Calls", "Puts"]).describe("Restrict to Calls or Puts")
@@ -0,0 +1,233 @@
+import { createRequire } from "module"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { PromptMessage } from "@modelcontextprotocol/sdk/types.js"
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js"
+
+import { formatError } from "./client.js"
+import { logger } from "./logger.js"
+import { runWithRequestContext } from "./request-context.js"
+import { tools, handlers, type ToolResponse } from "./tools/index.js"
+import { initializeResources } from "./resources/index.js"
+import { prompts, handlers as promptHandlers, argsSchemas as promptArgsSchemas } from "./prompts/index.js"
+
+const require = createRequire(import.meta.url)
+const { version } = require("../package.json") as { version: string }
+
+export const SERVER_NAME = "unusual-whales"
+export const SERVER_VERSION = version
+
+// Initialize resources
+const { resources, handlers: resourceHandlers } = initializeResources(tools)
+
+/**
+ * Check if a JSON response string contains an error.
+ */
+function isErrorResponse(jsonString: string): boolean {
+  try {
+    const parsed = JSON.parse(jsonString)
+    return parsed !== null && typeof parsed === "object" && "error" in parsed
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Create a new MCP server with all tools, resources, and prompts registered.
+ * Each transport connection needs its own server instance, so the HTTP transport
+ * calls this once per session while stdio calls it once at startup.
+ */
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  })
+
+  // Register all tools
+  for (const tool of tools) {
+    const handler = handlers[tool.name]
+    if (!handler) {
+      logger.error(`No handler found for tool: ${tool.name}`)
+      continue
+    }
+
+    // McpServer requires Zod schemas, not JSON schemas
+    if (!tool.zodInputSchema) {
+      logger.error(`No Zod schema found for tool: ${tool.name}`)
+      continue
+    }
+
+    server.registerTool(
+      tool.name,
+      {
+        description: tool.description,
+        inputSchema: tool.zodInputSchema,
+        annotations: tool.annotations || {},
+      },
+
+      async (args: any, extra: { authInfo?: AuthInfo }) => {
+        try {
+          // In HTTP mode, run the handler with the authenticated client's API key
+          const result = await runWithRequestContext(
+            {
+              apiKey: extra.authInfo?.extra?.apiKey as string | undefined,
+              clientId: extra.authInfo?.clientId,
+            },
+            () => handler(args),
+          )
+
+          // Handle structured response format
+          if (typeof result === "object" && result !== null && "text" in result) {
+            const structuredResult = result as ToolResponse
+            // Metadata such as cache status travels in _meta alongside the content
+            const meta = structuredResult.meta && { _meta: structuredResult.meta }
+
+            // Check if the handler returned an error response
+            if (isErrorResponse(structuredResult.text)) {
+              throw new Error(structuredResult.text)
+            }
+
+            // Return response with structured content if available and not null/empty
+            if (
+              structuredResult.structuredContent !== undefined &&
+              structuredResult.structuredContent !== null &&
+              (typeof structuredResult.structuredContent !== "object" ||
+                Object.keys(structuredResult.structuredContent).length > 0)
+            ) {
+              return {
+                content: [
+                  {
+                    type: "text" as const,
+                    text: structuredResult.text,
+                  },
+                ],
+                structuredContent: structuredResult.structuredContent as Record<string, unknown>,
+                ...meta,
+              }
+            }
+
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: structuredResult.text,
+                },
+              ],
+              ...meta,
+            }
+          }
+
+          // Handle legacy string response format
+          if (isErrorResponse(result)) {
+            throw new Error(result)
+          }
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result,
+              },
+            ],
+          }
+        } catch (error) {
+          throw new Error(
+            formatError(
+              `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`,
+            ),
+          )
+        }
+      },
+    )
+  }
+
+  // Register all resources
+  for (const resource of resources) {
+    const handler = resourceHandlers[resource.uri]
+    if (!handler) {
+      logger.error(`No handler found for resource: ${resource.uri}`)
+      continue
+    }
+
+    server.registerResource(
+      resource.name,
+      resource.uri,
+      {
+        description: resource.description,
+        mimeType: resource.mimeType,
+      },
+      async (_uri, extra: { authInfo?: AuthInfo }) => {
+        try {
+          // Resources like usage://quota report on the caller's own API key
+          const content = await runWithRequestContext(
+            {
+              apiKey: extra.authInfo?.extra?.apiKey as string | undefined,
+              clientId: extra.authInfo?.clientId,
+            },
+            () => handler(),
+          )
+          return {
+            contents: [
+              {
+                uri: resource.uri,
+                text: content,
+                mimeType: resource.mimeType,
+              },
+            ],
+          }
+        } catch (error) {
+          throw new Error(
+            formatError(
+              `Resource read failed: ${error instanceof Error ? error.message : String(error)}`,
+            ),
+          )
+        }
+      },
+    )
+  }
+
+  // Register all prompts
+  for (const prompt of prompts) {
+    const handler = promptHandlers[prompt.name]
+    if (!handler) {
+      logger.error(`No handler found for prompt: ${prompt.name}`)
+      continue
+    }
+
+    const getMessages = async (args: Record<string, string>): Promise<{ messages: PromptMessage[] }> => {
+      try {
+        const messages = await handler(args)
+        return { messages }
+      } catch (error) {
+        throw new Error(
+          formatError(
+            `Prompt execution failed: ${error instanceof Error ? error.message : String(error)}`,
+          ),
+        )
+      }
+    }
+
+    // McpServer validates arguments against argsSchema (applying defaults) before calling back.
+    // Prompts without arguments are registered without a schema so clients may omit `arguments`.
+    const argsSchema = promptArgsSchemas[prompt.name]
+    if (argsSchema) {
+      server.registerPrompt(
+        prompt.name,
+        {
+          description: prompt.description ?? "",
+          argsSchema,
+        },
+        async (args) => getMessages(args as Record<string, string>),
+      )
+    } else {
+      server.registerPrompt(
+        prompt.name,
+        {
+          description: prompt.description ?? "",
+        },
+        async () => getMessages({}),
+      )
+    }
+  }
+
+  return server
+}
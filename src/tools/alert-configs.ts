@@ -0,0 +1,131 @@
+import { z } from "zod"
+import { uwFetch, type ApiResponse } from "../client.js"
+import { formatAlertQueryErrors, getAlertQueryGrammar, validateAlertQuery } from "../alert-query.js"
+import {
+  toJsonSchema,
+  alertQueryTargetSchema,
+  alertStatusSchema,
+  alertConfigIdSchema,
+} from "../schemas/index.js"
+import { createToolHandler } from "./base/tool-factory.js"
+
+// Query language target for alert types whose name differs from it
+const NOTI_TYPE_TARGETS: Record<string, string> = {
+  flow_alerts: "flow_alert",
+}
+
+// Fields shared by creating and updating an alert configuration
+const alertConfigFields = {
+  name: z.string().min(1, "Alert name is required").describe("Name of the alert"),
+  noti_type: z.string().min(1, "Alert type is required").describe("Alert type (e.g., flow_alerts, news); see the uw_alerts filters action for the available types"),
+  config: z.record(z.string(), z.unknown()).describe("Structured filter object for the noti_type, built from the uw_alerts filters action. Use either config or input").optional(),
+  input: z.string().min(1).describe("Query language expression (e.g., \"where calls and volume > 100\"), see the uw_alerts grammar action. Use either config or input").optional(),
+  status: alertStatusSchema.optional(),
+  target: alertQueryTargetSchema.describe("Query language target to check input against before posting (defaults from noti_type when known)").optional(),
+}
+
+const hasConfigOrInput = (data: { config?: unknown, input?: string }): boolean =>
+  (data.config === undefined) !== (data.input === undefined)
+
+const configOrInputRequired = {
+  message: "Provide exactly one of config or input",
+  path: ["config"],
+}
+
+// Explicit per-action schemas
+const createConfigurationSchema = z.object({
+  action_type: z.literal("create_configuration"),
+  ...alertConfigFields,
+}).refine(hasConfigOrInput, configOrInputRequired)
+
+const updateConfigurationSchema = z.object({
+  action_type: z.literal("update_configuration"),
+  id: alertConfigIdSchema,
+  ...alertConfigFields,
+}).refine(hasConfigOrInput, configOrInputRequired)
+
+// Discriminated union of all action schemas
+const alertConfigsInputSchema = z.discriminatedUnion("action_type", [
+  createConfigurationSchema,
+  updateConfigurationSchema,
+])
+
+export const alertConfigsTool = {
+  name: "uw_alert_configs",
+  description: `Create or update UnusualWhales alert configurations.
+
+Available actions:
+- create_configuration: Create an alert configuration (name, noti_type, and config or input required; optional: status)
+- update_configuration: Replace an existing alert configuration (id, name, noti_type, and config or input required; optional: status)
+
+To set up an alert, fetch filters (for a structured config) or grammar (for a Query language input) with uw_alerts first.
+A Query language input is checked against the grammar before it is posted, and errors give the column they occur at.
+These actions change the user's alerts on Unusual Whales; confirm with the user before calling them.`,
+  inputSchema: toJsonSchema(alertConfigsInputSchema),
+  zodInputSchema: alertConfigsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+}
+
+/**
+ * Check a Query language input against the grammar for its target.
+ *
+ * @returns An error response if the input does not parse or type check, or
+ * undefined if it is valid or the grammar could not be fetched or recognized (the
+ * API still validates the input when it is posted)
+ */
+async function checkQueryInput(input: string, noti_type: string, target?: string): Promise<ApiResponse | undefined> {
+  const grammarTarget = target ?? NOTI_TYPE_TARGETS[noti_type] ?? (alertQueryTargetSchema.safeParse(noti_type).success ? noti_type : undefined)
+  const grammar = await getAlertQueryGrammar(grammarTarget)
+  if (!grammar) {
+    return undefined
+  }
+  const errors = validateAlertQuery(input, grammar)
+  return errors.length > 0
+    ? { error: `Invalid Query language input: ${formatAlertQueryErrors(input, errors)}` }
+    : undefined
+}
+
+/**
+ * Handle alert configuration tool requests using the tool factory pattern
+ */
+export const handleAlertConfigs = createToolHandler(alertConfigsInputSchema, {
+  create_configuration: async (data) => {
+    if (data.input) {
+      const invalid = await checkQueryInput(data.input, data.noti_type, data.target)
+      if (invalid) return invalid
+    }
+    return uwFetch("/api/alerts/configuration", undefined, {
+      method: "POST",
+      body: {
+        name: data.name,
+        noti_type: data.noti_type,
+        config: data.config,
+        input: data.input,
+        status: data.status,
+      },
+    })
+  },
+
+  update_configuration: async (data) => {
+    if (data.input) {
+      const invalid = await checkQueryInput(data.input, data.noti_type, data.target)
+      if (invalid) return invalid
+    }
+    return uwFetch("/api/alerts/configuration", undefined, {
+      method: "POST",
+      body: {
+        id: data.id,
+        name: data.name,
+        noti_type: data.noti_type,
+        config: data.config,
+        input: data.input,
+        status: data.status,
+      },
+    })
+  },
+})
@@ -1,6 +1,6 @@
 import { z } from "zod"
 import { uwFetch } from "../client.js"
-import { toJsonSchema, limitSchema } from "../schemas/index.js"
+import { toJsonSchema, limitSchema, alertQueryTargetSchema } from "../schemas/index.js"
 import { createToolHandler } from "./base/tool-factory.js"
 
 // Explicit per-action schemas
@@ -19,19 +19,34 @@ const configurationsSchema = z.object({
   action_type: z.literal("configurations"),
 })
 
+const grammarSchema = z.object({
+  action_type: z.literal("grammar"),
+  target: alertQueryTargetSchema.optional(),
+})
+
+const filtersSchema = z.object({
+  action_type: z.literal("filters"),
+})
+
 // Discriminated union of all action schemas
 const alertsInputSchema = z.discriminatedUnion("action_type", [
   alertsSchema,
   configurationsSchema,
+  grammarSchema,
+  filtersSchema,
 ])
 
 export const alertsTool = {
   name: "uw_alerts",
-  description: `Access UnusualWhales user alerts and configurations.
+  description: `Access UnusualWhales user alerts, alert configurations, and the filters and Query language used to define them.
 
 Available actions:
 - alerts: Get triggered alerts for the user
-- configurations: Get alert configurations`,
+- configurations: Get alert configurations
+- grammar: Get the alert Query language syntax, fields, functions, and examples (optional: target)
+- filters: Get the filter fields per alert type, their accepted values, and which types the account can create
+
+To create or update an alert configuration, fetch filters (for a structured config) or grammar (for a Query language input) here, then use uw_alert_configs.`,
   inputSchema: toJsonSchema(alertsInputSchema),
   zodInputSchema: alertsInputSchema,
   annotations: {
@@ -60,4 +75,14 @@ export const handleAlerts = createToolHandler(alertsInputSchema, {
   configurations: async () => {
     return uwFetch("/api/alerts/configuration")
   },
+
+  grammar: async (data) => {
+    return uwFetch("/api/alerts/query/grammar", {
+      target: data.target,
+    })
+  },
+
+  filters: async () => {
+    return uwFetch("/api/alerts/filters")
+  },
 })
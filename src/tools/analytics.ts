@@ -0,0 +1,104 @@
+import { z } from "zod"
+import { uwFetch } from "../client.js"
+import {
+  toJsonSchema,
+  dateRegex,
+  dateSchema,
+  seriesTypeSchema,
+  analyticsCalculationsSchema,
+  analyticsRangeSchema,
+  analyticsIntervalSchema,
+} from "../schemas/index.js"
+import { createToolHandler } from "./base/tool-factory.js"
+
+// Fields shared by the sliding and fixed window actions
+const analyticsFields = {
+  symbols: z.string().describe("Comma-separated tickers to analyze (e.g., AAPL,IBM,MSFT)"),
+  range: analyticsRangeSchema,
+  range_end: dateSchema.describe("End of the window in YYYY-MM-DD format (only with a YYYY-MM-DD range)").optional(),
+  interval: analyticsIntervalSchema.default("DAILY").optional(),
+  ohlc: seriesTypeSchema.default("close").describe("Price field to analyze (open, high, low, close)").optional(),
+  calculations: analyticsCalculationsSchema,
+}
+
+const hasDateRangeStart = (data: { range: string, range_end?: string }): boolean =>
+  data.range_end === undefined || dateRegex.test(data.range)
+
+const rangeEndRequiresDate = {
+  message: "range_end can only be used when range is a YYYY-MM-DD date",
+  path: ["range_end"],
+}
+
+// ISO dates compare correctly as strings
+const isOrderedDateRange = (data: { range: string, range_end?: string }): boolean =>
+  data.range_end === undefined || !dateRegex.test(data.range) || data.range <= data.range_end
+
+const rangeEndAfterStart = {
+  message: "range_end must not be before range",
+  path: ["range_end"],
+}
+
+// Explicit per-action schemas
+const slidingSchema = z.object({
+  action_type: z.literal("sliding"),
+  ...analyticsFields,
+  window_size: z.number().int().min(1).default(20).describe("Bars in each sliding window (default 20)").optional(),
+}).refine(hasDateRangeStart, rangeEndRequiresDate).refine(isOrderedDateRange, rangeEndAfterStart)
+
+const windowSchema = z.object({
+  action_type: z.literal("window"),
+  ...analyticsFields,
+}).refine(hasDateRangeStart, rangeEndRequiresDate).refine(isOrderedDateRange, rangeEndAfterStart)
+
+// Discriminated union of all action schemas
+const analyticsInputSchema = z.discriminatedUnion("action_type", [
+  slidingSchema,
+  windowSchema,
+])
+
+export const analyticsTool = {
+  name: "uw_analytics",
+  description: `Run statistical analytics over price series for one or more tickers. Requires Advanced+ tier.
+
+Available actions:
+- sliding: Compute calculations over a rolling window across the range (symbols, range, calculations required; range_end, interval, ohlc, window_size optional)
+- window: Compute calculations once over the whole range (symbols, range, calculations required; range_end, interval, ohlc optional)
+
+Calculations: MIN, MAX, MEAN, MEDIAN, CUMULATIVE_RETURN, VARIANCE, STDDEV, MAX_DRAWDOWN, HISTOGRAM, AUTOCORRELATION, COVARIANCE, CORRELATION
+range is a YYYY-MM-DD start date (optionally with range_end), a relative period like 2month, or full.`,
+  inputSchema: toJsonSchema(analyticsInputSchema),
+  zodInputSchema: analyticsInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+}
+
+/**
+ * Handle analytics tool requests using the tool factory pattern
+ */
+export const handleAnalytics = createToolHandler(analyticsInputSchema, {
+  sliding: async (data) => {
+    return uwFetch("/api/analytics/sliding", {
+      symbols: data.symbols,
+      range: data.range,
+      range_end: data.range_end,
+      interval: data.interval,
+      ohlc: data.ohlc,
+      window_size: data.window_size,
+      calculations: data.calculations,
+    })
+  },
+
+  window: async (data) => {
+    return uwFetch("/api/analytics/window", {
+      symbols: data.symbols,
+      range: data.range,
+      range_end: data.range_end,
+      interval: data.interval,
+      ohlc: data.ohlc,
+      calculations: data.calculations,
+    })
+  },
+})
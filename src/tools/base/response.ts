@@ -6,6 +6,8 @@ import type { ApiResponse } from "../../client.js"
 export interface ToolResponse {
   text: string
   structuredContent?: unknown
+  /** Response metadata (e.g. cache status), returned to clients as `_meta` */
+  meta?: Record<string, unknown>
 }
 
 /**
@@ -24,6 +26,7 @@ export function formatToolResponse(result: ApiResponse): ToolResponse {
   return {
     text: JSON.stringify(result.data, null, 2),
     structuredContent: result.data,
+    ...(result.cache && { meta: { cache: result.cache } }),
   }
 }
 
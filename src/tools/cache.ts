@@ -0,0 +1,110 @@
+import { z } from "zod"
+import { toJsonSchema } from "../schemas/index.js"
+import { CACHE_POLICIES, getCacheScope, responseCache } from "../cache.js"
+import { diskCache } from "../disk-cache.js"
+import { getCurrentApiKey } from "../request-context.js"
+import { createToolHandler } from "./base/tool-factory.js"
+
+const prefixSchema = z.string()
+  .startsWith("/api/", "Prefix must be an endpoint path starting with /api/")
+  .describe("Endpoint prefix to match (e.g., /api/stock/AAPL)")
+
+/**
+ * Get the cache scope of the caller's API key. Every action only sees and flushes
+ * the caller's own entries, so one HTTP client cannot inspect or clear another's.
+ */
+function callerScope(): string {
+  const apiKey = getCurrentApiKey()
+  return apiKey ? getCacheScope(apiKey) : ""
+}
+
+// Explicit per-action schemas
+const statsSchema = z.object({
+  action_type: z.literal("stats"),
+})
+
+const listSchema = z.object({
+  action_type: z.literal("list"),
+  prefix: prefixSchema.optional(),
+  limit: z.number().int().min(1).max(500).describe("Maximum number of entries to return").default(100).optional(),
+})
+
+const flushSchema = z.object({
+  action_type: z.literal("flush"),
+  prefix: prefixSchema.describe("Only flush entries whose endpoint starts with this prefix (omit to flush everything)").optional(),
+  include_disk: z.boolean().describe("Also flush the persistent cache of historical responses").default(false).optional(),
+})
+
+// Discriminated union of all action schemas
+const cacheInputSchema = z.discriminatedUnion("action_type", [
+  statsSchema,
+  listSchema,
+  flushSchema,
+])
+
+export const cacheTool = {
+  name: "uw_cache",
+  description: `Inspect and manage the server's API response cache.
+
+Responses are cached per API key, endpoint, and parameters, with TTLs set per endpoint family (e.g., stock info for hours, flow alerts for seconds).
+When a cache directory is configured, responses for past dates are also kept on disk across restarts.
+
+Available actions:
+- stats: Get cache hit/miss statistics, the TTL policies, and disk cache usage
+- list: List cached entries with their age and remaining lifetime (optional prefix filter)
+- flush: Remove cached entries (all, or those matching an endpoint prefix) to force fresh data (include_disk to also flush historical responses)
+
+Entry counts, listings, and flushes only cover entries cached for your API key; hit/miss counts are server-wide.`,
+  inputSchema: toJsonSchema(cacheInputSchema),
+  zodInputSchema: cacheInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+}
+
+/**
+ * Handle cache tool requests using the tool factory pattern
+ */
+export const handleCache = createToolHandler(cacheInputSchema, {
+  stats: async () => {
+    return {
+      data: {
+        ...responseCache.getStats(callerScope()),
+        policies: CACHE_POLICIES.map((policy) => ({
+          name: policy.name,
+          pattern: policy.pattern.source,
+          ttl_seconds: policy.ttlMs / 1000,
+        })),
+        disk: diskCache ? await diskCache.getStats(callerScope()) : null,
+      },
+    }
+  },
+
+  list: async (data) => {
+    const now = Date.now()
+    const entries = responseCache.list(callerScope())
+      .filter((entry) => !data.prefix || entry.key.startsWith(data.prefix))
+      .reverse()
+      .slice(0, data.limit ?? 100)
+      .map((entry) => ({
+        key: entry.key,
+        policy: entry.policy,
+        age_seconds: Math.floor((now - entry.storedAt) / 1000),
+        expires_in_seconds: Math.ceil((entry.expiresAt - now) / 1000),
+      }))
+    return { data: { count: entries.length, entries } }
+  },
+
+  flush: async (data) => {
+    const scope = callerScope()
+    const removed = responseCache.clear(data.prefix, scope)
+    if (data.include_disk && diskCache) {
+      const diskRemoved = await diskCache.clear(data.prefix, scope)
+      return { data: { removed, disk_removed: diskRemoved, prefix: data.prefix ?? null } }
+    }
+    return { data: { removed, prefix: data.prefix ?? null } }
+  },
+})
@@ -0,0 +1,265 @@
+import { z } from "zod"
+import { uwFetch } from "../client.js"
+import {
+  toJsonSchema,
+  tickerSchema,
+  dateSchema,
+  quarterSchema,
+  listingStatusSchema,
+} from "../schemas/index.js"
+import { createToolHandler } from "./base/tool-factory.js"
+import { PathParamBuilder } from "../utils/path-params.js"
+
+/** Transcript characters returned per call unless the caller asks for more */
+const DEFAULT_TRANSCRIPT_MAX_CHARS = 20_000
+const MAX_TRANSCRIPT_MAX_CHARS = 200_000
+
+interface TranscriptStatement {
+  speaker?: string | null
+  title?: string | null
+  sentiment?: number | null
+  content?: string | null
+  content_truncated?: boolean
+}
+
+interface Transcript {
+  ticker?: string
+  quarter?: string
+  statements: TranscriptStatement[]
+}
+
+// Explicit per-action schemas
+const profileSchema = z.object({
+  action_type: z.literal("profile"),
+  ticker: tickerSchema,
+})
+
+const listingsSchema = z.object({
+  action_type: z.literal("listings"),
+  status: listingStatusSchema.default("active").optional(),
+  date: dateSchema.describe("Date to list delisted securities as of, in YYYY-MM-DD format (only with status delisted)").optional(),
+})
+
+const dividendsSchema = z.object({
+  action_type: z.literal("dividends"),
+  ticker: tickerSchema,
+})
+
+const splitsSchema = z.object({
+  action_type: z.literal("splits"),
+  ticker: tickerSchema,
+})
+
+const earningsEstimatesSchema = z.object({
+  action_type: z.literal("earnings_estimates"),
+  ticker: tickerSchema,
+})
+
+const transcriptSchema = z.object({
+  action_type: z.literal("transcript"),
+  ticker: tickerSchema,
+  quarter: quarterSchema,
+  offset: z.number().int().min(0).default(0).describe("Index of the first statement to return, from next_offset of the previous call").optional(),
+  max_chars: z.number().int().min(1000).max(MAX_TRANSCRIPT_MAX_CHARS).default(DEFAULT_TRANSCRIPT_MAX_CHARS)
+    .describe(`Maximum characters of statement content to return (default ${DEFAULT_TRANSCRIPT_MAX_CHARS}, max ${MAX_TRANSCRIPT_MAX_CHARS})`).optional(),
+})
+
+const balanceSheetsSchema = z.object({
+  action_type: z.literal("balance_sheets"),
+  ticker: tickerSchema,
+})
+
+const cashFlowsSchema = z.object({
+  action_type: z.literal("cash_flows"),
+  ticker: tickerSchema,
+})
+
+const incomeStatementsSchema = z.object({
+  action_type: z.literal("income_statements"),
+  ticker: tickerSchema,
+})
+
+const financialsSchema = z.object({
+  action_type: z.literal("financials"),
+  ticker: tickerSchema,
+})
+
+const fundamentalBreakdownSchema = z.object({
+  action_type: z.literal("fundamental_breakdown"),
+  ticker: tickerSchema,
+})
+
+// Discriminated union of all action schemas
+const companyInputSchema = z.discriminatedUnion("action_type", [
+  profileSchema,
+  listingsSchema,
+  dividendsSchema,
+  splitsSchema,
+  earningsEstimatesSchema,
+  transcriptSchema,
+  balanceSheetsSchema,
+  cashFlowsSchema,
+  incomeStatementsSchema,
+  financialsSchema,
+  fundamentalBreakdownSchema,
+])
+
+export const companyTool = {
+  name: "uw_company",
+  description: `Access UnusualWhales company fundamentals and corporate actions including profiles, financial statements, dividends, splits, estimates, and earnings call transcripts.
+
+Available actions:
+- profile: Get a company profile with sector, industry, description, market cap, P/E, and dividend yield (ticker required). Requires Advanced+ tier
+- listings: Get all US-traded securities (optional: status, date). Requires Advanced+ tier
+- dividends: Get historical dividend events (ticker required). Requires Advanced+ tier
+- splits: Get historical stock splits (ticker required). Requires Advanced+ tier
+- earnings_estimates: Get forward earnings estimates by quarter and year (ticker required). Requires Advanced+ tier
+- transcript: Get an earnings call transcript (ticker, quarter required; optional: offset, max_chars). Requires Advanced+ tier
+- balance_sheets: Get balance sheets (ticker required)
+- cash_flows: Get cash flow statements (ticker required)
+- income_statements: Get income statements (ticker required)
+- financials: Get income statements, balance sheets, cash flows, and earnings, annual and quarterly (ticker required)
+- fundamental_breakdown: Get EPS, revenue, dividends, share counts, and revenue by product and geography (ticker required)
+
+Transcripts can be long, so they are returned in pages of whole statements up to max_chars of content.
+When next_offset is not null, call again with offset set to it to read the rest.`,
+  inputSchema: toJsonSchema(companyInputSchema),
+  zodInputSchema: companyInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+}
+
+/**
+ * Return one page of a transcript, made of whole statements whose content fits in maxChars.
+ * A single statement longer than maxChars is cut short and flagged with content_truncated.
+ */
+function pageTranscript(body: unknown, offset: number, maxChars: number): unknown {
+  const transcript = (body as { data?: Transcript } | undefined)?.data
+  if (!transcript || !Array.isArray(transcript.statements)) {
+    return body
+  }
+
+  const { statements } = transcript
+  const page: TranscriptStatement[] = []
+  let chars = 0
+  let index = offset
+
+  while (index < statements.length) {
+    const statement = statements[index]
+    const content = statement.content ?? ""
+    if (page.length > 0 && chars + content.length > maxChars) {
+      break
+    }
+    if (content.length > maxChars) {
+      page.push({ ...statement, content: content.slice(0, maxChars), content_truncated: true })
+    } else {
+      page.push(statement)
+    }
+    chars += Math.min(content.length, maxChars)
+    index++
+  }
+
+  return {
+    data: {
+      ticker: transcript.ticker,
+      quarter: transcript.quarter,
+      total_statements: statements.length,
+      offset,
+      next_offset: index < statements.length ? index : null,
+      statements: page,
+    },
+  }
+}
+
+/**
+ * Handle company tool requests using the tool factory pattern
+ */
+export const handleCompany = createToolHandler(companyInputSchema, {
+  profile: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/companies/{ticker}/profile")
+    return uwFetch(path)
+  },
+
+  listings: async (data) => {
+    return uwFetch("/api/companies/listings", {
+      status: data.status,
+      date: data.date,
+    })
+  },
+
+  dividends: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/companies/{ticker}/dividends")
+    return uwFetch(path)
+  },
+
+  splits: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/companies/{ticker}/splits")
+    return uwFetch(path)
+  },
+
+  earnings_estimates: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/companies/{ticker}/earnings-estimates")
+    return uwFetch(path)
+  },
+
+  transcript: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .add("quarter", data.quarter)
+      .build("/api/companies/{ticker}/transcripts/{quarter}")
+    const result = await uwFetch(path)
+    if (result.error) {
+      return result
+    }
+    return {
+      ...result,
+      data: pageTranscript(result.data, data.offset ?? 0, data.max_chars ?? DEFAULT_TRANSCRIPT_MAX_CHARS),
+    }
+  },
+
+  balance_sheets: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/balance-sheets")
+    return uwFetch(path)
+  },
+
+  cash_flows: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/cash-flows")
+    return uwFetch(path)
+  },
+
+  income_statements: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/income-statements")
+    return uwFetch(path)
+  },
+
+  financials: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/financials")
+    return uwFetch(path)
+  },
+
+  fundamental_breakdown: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/fundamental-breakdown")
+    return uwFetch(path)
+  },
+})
@@ -1,6 +1,14 @@
 import { z } from "zod"
 import { uwFetch } from "../client.js"
-import { toJsonSchema, tickerSchema, dateSchema, limitSchema } from "../schemas/index.js"
+import {
+  toJsonSchema,
+  tickerSchema,
+  dateSchema,
+  limitSchema,
+  pageSchema,
+  unusualTradeTypesSchema,
+  congressTransactionTypeSchema,
+} from "../schemas/index.js"
 import { createToolHandler } from "./base/tool-factory.js"
 
 // Explicit per-action schemas
@@ -26,11 +34,50 @@ const congressTraderSchema = z.object({
   limit: limitSchema.min(1).max(200).default(100).describe("Maximum number of results (default 100, max 200)").optional(),
 })
 
+const unusualTradesSchema = z.object({
+  action_type: z.literal("unusual_trades"),
+  types: unusualTradeTypesSchema.optional(),
+  limit: limitSchema.default(100).optional(),
+  page: pageSchema.optional(),
+})
+
+const unusualTradesByTickersSchema = z.object({
+  action_type: z.literal("unusual_trades_by_tickers"),
+  tickers: z.string().describe("Comma-separated list of tickers to filter by (e.g., AAPL,NVDA)").optional(),
+  transaction_type: congressTransactionTypeSchema.optional(),
+  date_from: dateSchema.describe("Earliest transaction date to include (YYYY-MM-DD)").optional(),
+  date_to: dateSchema.describe("Latest transaction date to include (YYYY-MM-DD)").optional(),
+  politician: z.string().describe("Case-insensitive substring of the politician's full name").optional(),
+  limit: limitSchema.default(100).optional(),
+  page: pageSchema.optional(),
+})
+
+const unusualTradesChartSchema = z.object({
+  action_type: z.literal("unusual_trades_chart"),
+  date_from: dateSchema.describe("Earliest transaction date to include (YYYY-MM-DD, default about 4 months ago)").optional(),
+  date_to: dateSchema.describe("Latest transaction date to include (YYYY-MM-DD)").optional(),
+})
+
+const unusualTradesStatsSchema = z.object({
+  action_type: z.literal("unusual_trades_stats"),
+})
+
+const politiciansSchema = z.object({
+  action_type: z.literal("politicians"),
+  last_traded_within_months: z.number().int().min(1).max(240)
+    .describe("Only politicians who traded within this many months (e.g., 13)").optional(),
+})
+
 // Discriminated union of all action schemas
 const congressInputSchema = z.discriminatedUnion("action_type", [
   recentTradesSchema,
   lateReportsSchema,
   congressTraderSchema,
+  unusualTradesSchema,
+  unusualTradesByTickersSchema,
+  unusualTradesChartSchema,
+  unusualTradesStatsSchema,
+  politiciansSchema,
 ])
 
 export const congressTool = {
@@ -40,7 +87,14 @@ export const congressTool = {
 Available actions:
 - recent_trades: Get recent trades by congress members
 - late_reports: Get recent late reports by congress members
-- congress_trader: Get trades by a specific congress member (name required)`,
+- congress_trader: Get trades by a specific congress member (name required)
+- unusual_trades: Get trades flagged as unusual, such as committee conflicts or unusually large trades (optional: types, limit, page)
+- unusual_trades_by_tickers: Get trades for specific tickers with price-at-trade and current price (optional: tickers, transaction_type, date_from, date_to, politician)
+- unusual_trades_chart: Get trade points and SPY daily closes for charting congressional activity against the market (optional: date_from, date_to)
+- unusual_trades_stats: Get aggregate unusual-trade stats: top politicians, party and chamber breakdowns, committees, industries, top tickers, and biggest trades
+- politicians: List politicians with trade data, with trade counts and first/last trade dates (optional: last_traded_within_months)
+
+The unusual_trades actions are premium endpoints.`,
   inputSchema: toJsonSchema(congressInputSchema),
   zodInputSchema: congressInputSchema,
   annotations: {
@@ -78,4 +132,41 @@ export const handleCongress = createToolHandler(congressInputSchema, {
       limit: data.limit,
     })
   },
+
+  unusual_trades: async (data) => {
+    return uwFetch("/api/congress/unusual-trades", {
+      types: data.types,
+      limit: data.limit,
+      page: data.page,
+    })
+  },
+
+  unusual_trades_by_tickers: async (data) => {
+    return uwFetch("/api/congress/unusual-trades/by-tickers", {
+      tickers: data.tickers,
+      transaction_type: data.transaction_type,
+      date_from: data.date_from,
+      date_to: data.date_to,
+      politician: data.politician,
+      limit: data.limit,
+      page: data.page,
+    })
+  },
+
+  unusual_trades_chart: async (data) => {
+    return uwFetch("/api/congress/unusual-trades/chart-data", {
+      date_from: data.date_from,
+      date_to: data.date_to,
+    })
+  },
+
+  unusual_trades_stats: async () => {
+    return uwFetch("/api/congress/unusual-trades/stats")
+  },
+
+  politicians: async (data) => {
+    return uwFetch("/api/congress/politicians", {
+      last_traded_within_months: data.last_traded_within_months,
+    })
+  },
 })
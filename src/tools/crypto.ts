@@ -0,0 +1,137 @@
+import { z } from "zod"
+import { uwFetch } from "../client.js"
+import {
+  toJsonSchema,
+  dateSchema,
+  limitSchema,
+  historyIntervalSchema,
+  intradayIntervalSchema,
+  cryptoPairSchema,
+  cryptoCandleSizeSchema,
+  digitalCurrencySymbolSchema,
+  digitalCurrencyMarketSchema,
+} from "../schemas/index.js"
+import { createToolHandler } from "./base/tool-factory.js"
+import { PathParamBuilder } from "../utils/path-params.js"
+
+// Explicit per-action schemas
+const whaleTransactionsSchema = z.object({
+  action_type: z.literal("whale_transactions"),
+  limit: limitSchema.default(500).optional(),
+})
+
+const recentWhalesSchema = z.object({
+  action_type: z.literal("recent_whales"),
+  limit: limitSchema.default(500).optional(),
+})
+
+const ohlcSchema = z.object({
+  action_type: z.literal("ohlc"),
+  pair: cryptoPairSchema,
+  candle_size: cryptoCandleSizeSchema,
+  date: dateSchema.optional(),
+  limit: limitSchema.default(500).optional(),
+})
+
+const stateSchema = z.object({
+  action_type: z.literal("state"),
+  pair: cryptoPairSchema,
+})
+
+const historySchema = z.object({
+  action_type: z.literal("history"),
+  symbol: digitalCurrencySymbolSchema,
+  market: digitalCurrencyMarketSchema,
+  interval: historyIntervalSchema.default("daily").optional(),
+})
+
+const intradaySchema = z.object({
+  action_type: z.literal("intraday"),
+  symbol: digitalCurrencySymbolSchema,
+  market: digitalCurrencyMarketSchema,
+  interval: intradayIntervalSchema.default("5min").optional(),
+})
+
+// Discriminated union of all action schemas
+const cryptoInputSchema = z.discriminatedUnion("action_type", [
+  whaleTransactionsSchema,
+  recentWhalesSchema,
+  ohlcSchema,
+  stateSchema,
+  historySchema,
+  intradaySchema,
+])
+
+export const cryptoTool = {
+  name: "uw_crypto",
+  description: `Access UnusualWhales crypto data including whale transactions, OHLC candles, and 24h pair state.
+
+Available actions:
+- whale_transactions: Get recent crypto whale transactions (optional: limit)
+- recent_whales: Get recent crypto whale activity (optional: limit)
+- ohlc: Get OHLC candles for a pair (pair, candle_size required; optional: date, limit)
+- state: Get the current state of a pair including 24h OHLCV (pair required)
+- history: Get daily, weekly, or monthly bars for a digital currency (symbol, market required; optional: interval). Requires Advanced+ tier
+- intraday: Get intraday bars for a digital currency (symbol, market required; optional: interval). Requires Advanced+ tier
+
+Pairs use BASE-QUOTE format (e.g., BTC-USD). Candle sizes: 1m, 5m, 10m, 15m, 30m, 1h, 4h, 1d, 1w.
+For history and intraday, symbol is the currency (e.g., BTC) and market the fiat it is quoted in (e.g., USD).`,
+  inputSchema: toJsonSchema(cryptoInputSchema),
+  zodInputSchema: cryptoInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+}
+
+/**
+ * Handle crypto tool requests using the tool factory pattern
+ */
+export const handleCrypto = createToolHandler(cryptoInputSchema, {
+  whale_transactions: async (data) => {
+    return uwFetch("/api/crypto/whale-transactions", {
+      limit: data.limit,
+    })
+  },
+
+  recent_whales: async (data) => {
+    return uwFetch("/api/crypto/whales/recent", {
+      limit: data.limit,
+    })
+  },
+
+  ohlc: async (data) => {
+    const path = new PathParamBuilder()
+      .add("pair", data.pair)
+      .add("candle_size", data.candle_size)
+      .build("/api/crypto/{pair}/ohlc/{candle_size}")
+    return uwFetch(path, {
+      date: data.date,
+      limit: data.limit,
+    })
+  },
+
+  state: async (data) => {
+    const path = new PathParamBuilder()
+      .add("pair", data.pair)
+      .build("/api/crypto/{pair}/state")
+    return uwFetch(path)
+  },
+
+  history: async (data) => {
+    return uwFetch("/api/digital-currencies/history", {
+      symbol: data.symbol,
+      market: data.market,
+      interval: data.interval,
+    })
+  },
+
+  intraday: async (data) => {
+    return uwFetch("/api/digital-currencies/intraday", {
+      symbol: data.symbol,
+      market: data.market,
+      interval: data.interval,
+    })
+  },
+})
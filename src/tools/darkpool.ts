@@ -32,10 +32,17 @@ const tickerSchema$ = z.object({
   max_volume: z.number().int().nonnegative().describe("The maximum volume on the contract").optional(),
 })
 
+const priceLevelsSchema = z.object({
+  action_type: z.literal("price_levels"),
+  ticker: tickerSchema.describe("Ticker symbol (required for price_levels action)"),
+  date: dateSchema.optional(),
+})
+
 // Discriminated union of all action schemas
 const darkpoolInputSchema = z.discriminatedUnion("action_type", [
   recentSchema,
   tickerSchema$,
+  priceLevelsSchema,
 ])
 
 export const darkpoolTool = {
@@ -45,6 +52,7 @@ export const darkpoolTool = {
 Available actions:
 - recent: Get recent darkpool trades across the market
 - ticker: Get darkpool trades for a specific ticker
+- price_levels: Get darkpool and lit volume concentration by price level for a ticker (ticker required; date optional)
 
 Filtering options include premium range, size range, and volume range.`,
   inputSchema: toJsonSchema(darkpoolInputSchema),
@@ -90,4 +98,13 @@ export const handleDarkpool = createToolHandler(darkpoolInputSchema, {
       max_volume: data.max_volume,
     })
   },
+
+  price_levels: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/darkpool/{ticker}/price-levels")
+    return uwFetch(path, {
+      date: data.date,
+    })
+  },
 })
@@ -0,0 +1,64 @@
+import { z } from "zod"
+import { uwFetch } from "../client.js"
+import { toJsonSchema, dateSchema } from "../schemas/index.js"
+import { createToolHandler } from "./base/tool-factory.js"
+
+// Explicit per-action schemas
+const potusPostsSchema = z.object({
+  action_type: z.literal("potus_posts"),
+  search_term: z.string().min(1).describe("Only return posts whose text contains this term").optional(),
+  limit: z.number().int().min(1).max(200).default(200).describe("Maximum number of results (default 200, max 200)").optional(),
+  page: z.number().int().min(0).describe("Page number, starting at 0").optional(),
+})
+
+const potusScheduleSchema = z.object({
+  action_type: z.literal("potus_schedule"),
+  date: dateSchema.describe("Schedule date in YYYY-MM-DD format (default: the most recent scheduled date)").optional(),
+  limit: z.number().int().min(1).max(200).default(200).describe("Maximum number of results (default 200, max 200)").optional(),
+  page: z.number().int().min(0).describe("Page number, starting at 0").optional(),
+})
+
+// Discriminated union of all action schemas
+const eventsInputSchema = z.discriminatedUnion("action_type", [
+  potusPostsSchema,
+  potusScheduleSchema,
+])
+
+export const eventsTool = {
+  name: "uw_events",
+  description: `Access market-moving political events: the President's social media posts and public schedule.
+
+Available actions:
+- potus_posts: Get the President's short-form social media posts, newest first (search_term, limit, page optional)
+- potus_schedule: Get the President's public schedule for a date (date, limit, page optional)
+
+Pages start at 0.`,
+  inputSchema: toJsonSchema(eventsInputSchema),
+  zodInputSchema: eventsInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+}
+
+/**
+ * Handle events tool requests using the tool factory pattern
+ */
+export const handleEvents = createToolHandler(eventsInputSchema, {
+  potus_posts: async (data) => {
+    return uwFetch("/api/potus/posts", {
+      search_term: data.search_term,
+      limit: data.limit,
+      page: data.page,
+    })
+  },
+
+  potus_schedule: async (data) => {
+    return uwFetch("/api/potus/schedule", {
+      date: data.date,
+      limit: data.limit,
+      page: data.page,
+    })
+  },
+})
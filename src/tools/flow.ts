@@ -5,11 +5,27 @@ import {
   tickerSchema,
   dateSchema,
   expirySchema,
+  limitSchema,
+  offsetSchema,
+  pageSchema,
+  optionTypeSchema,
+  sectorSchema,
   flowGroupSchema,
+  flowAlertIdSchema,
+  multiLegIdSchema,
+  multiLegStrategySchema,
+  netPremiumFilterSchema,
+  optionExchangeSchema,
+  optionTradeTagSchema,
+  issueTypeSchema,
+  marketcapSizeSchema,
+  reportFlagSchema,
+  tradeCodeSchema,
   flowOutputSchema,
 } from "../schemas/index.js"
 import { createToolHandler } from "./base/tool-factory.js"
 import { PathParamBuilder } from "../utils/path-params.js"
+import { booleanParam } from "../utils/query-params.js"
 
 // Explicit per-action schemas with all parameters inlined
 const flowAlertsSchema = z.object({
@@ -137,6 +153,143 @@ const litFlowTickerSchema = z.object({
   max_volume: z.number().int().nonnegative().describe("The maximum volume on the contract").optional(),
 })
 
+const flowAlertTradesSchema = z.object({
+  action_type: z.literal("flow_alert_trades"),
+  id: flowAlertIdSchema,
+  older_than: z.string().describe("Return trades older than this unix time in milliseconds or seconds").optional(),
+})
+
+const multiLegTradesSchema = z.object({
+  action_type: z.literal("multi_leg_trades"),
+  limit: limitSchema.default(50).optional(),
+  offset: offsetSchema.max(500).optional(),
+  ticker_symbol: tickerSchema.describe("Restrict to a single underlying ticker").optional(),
+  newer_than: z.string().describe("Only strategies executed at or after this UTC timestamp (ISO 8601). Defaults to the last market open").optional(),
+  older_than: z.string().describe("Only strategies executed at or before this UTC timestamp (ISO 8601). The range is limited to 24 hours").optional(),
+  strategy: z.array(multiLegStrategySchema).describe("Filter by detected strategy (e.g., iron_condor, call_vertical_spread)").optional(),
+  exclude_other: z.boolean().describe("Exclude strategies classified as other (unrecognized structures)").optional(),
+  direction: z.array(z.enum(["long", "short"])).describe("Filter by direction (long, short)").optional(),
+  net_side: z.array(z.enum(["bid", "ask", "mid"])).describe("Filter by the strategy's net aggressor side (bid, ask, mid)").optional(),
+  min_size: z.number().int().nonnegative().describe("Minimum total contracts across legs").optional(),
+  max_size: z.number().int().nonnegative().describe("Maximum total contracts across legs").optional(),
+  min_premium: netPremiumFilterSchema.describe("Minimum net premium; use abs(<number>) to filter on magnitude (e.g., abs(100000))").optional(),
+  max_premium: netPremiumFilterSchema.describe("Maximum net premium; use abs(<number>) to filter on magnitude").optional(),
+  min_dte: z.number().int().min(0).describe("Minimum days to expiry").optional(),
+  max_dte: z.number().int().min(0).describe("Maximum days to expiry").optional(),
+  min_leg_count: z.number().int().min(2).describe("Minimum number of legs").optional(),
+  max_leg_count: z.number().int().min(2).describe("Maximum number of legs").optional(),
+  all_otm: z.boolean().describe("Only strategies where every leg is out of the money").optional(),
+  issue_types: z.array(issueTypeSchema).describe("Filter by underlying issue types").optional(),
+  sectors: z.array(sectorSchema).describe("Filter by underlying sectors").optional(),
+})
+
+const multiLegLegsSchema = z.object({
+  action_type: z.literal("multi_leg_legs"),
+  id: multiLegIdSchema,
+})
+
+const exchangeBreakdownSchema = z.object({
+  action_type: z.literal("exchange_breakdown"),
+  date: dateSchema.describe("Trading date in YYYY-MM-DD format"),
+  ticker: z.array(tickerSchema).describe("Underlying tickers to aggregate (omit for the whole option universe)").optional(),
+  by_trade_code: z.boolean().describe("Also break each row down by trade condition code").optional(),
+  min_premium: z.number().nonnegative().describe("Only include prints with at least this premium before aggregating").optional(),
+  limit: limitSchema.default(100).describe("Tickers per page in whole-universe mode (default 100, max 500)").optional(),
+  page: pageSchema.describe("1-based page of tickers in whole-universe mode").optional(),
+  order: z.enum(["volume", "premium"]).describe("How to rank tickers in whole-universe mode (volume, premium)").optional(),
+})
+
+const optionTradesSchema = z.object({
+  action_type: z.literal("option_trades"),
+  limit: limitSchema.default(50).optional(),
+  ticker_symbol: z.string().describe("Comma-separated list of ticker symbols to filter by. Prefix with '-' to exclude tickers (e.g., 'AAPL,INTC' or '-TSLA,NVDA')").optional(),
+  option_contracts: z.array(z.string()).describe("Option contract symbols to include").optional(),
+  strike: z.number().describe("Strike price of the option contract").optional(),
+  type: optionTypeSchema.optional(),
+  newer_than: z.string().describe("Return trades newer than this unix time in milliseconds or seconds").optional(),
+  older_than: z.string().describe("Return trades older than this unix time in milliseconds or seconds").optional(),
+  // Boolean filters
+  canceled: z.boolean().describe("Filter canceled (true) or non-canceled (false) trades").optional(),
+  is_multi_leg: z.boolean().describe("Filter multi-leg (true) or single-leg (false) trades").optional(),
+  volume_greater_oi: z.boolean().describe("Only include contracts where volume is greater than open interest").optional(),
+  exclude_deep_itm: z.boolean().describe("Exclude deep in-the-money contracts").optional(),
+  force_15_min_delay: z.boolean().describe("Only return trades that are at least 15 minutes old").optional(),
+  hide_expired: z.boolean().describe("Exclude expired contracts").optional(),
+  include_agg_trades: z.boolean().describe("Roll up related transactions executed at the same time into one").optional(),
+  intraday_only: z.boolean().describe("Only return trades from the current trading day").optional(),
+  is_otm: z.boolean().describe("Filter out-of-the-money (true) or in-the-money (false) trades").optional(),
+  opening: z.boolean().describe("Filter opening (true) or non-opening (false) transactions").optional(),
+  opex_only: z.boolean().describe("Only contracts expiring on monthly OpEx Friday").optional(),
+  size_greater_oi: z.boolean().describe("Only include trades whose size exceeds open interest").optional(),
+  // Array filters
+  exchanges: z.array(optionExchangeSchema).describe("Options exchanges to include").optional(),
+  excluded_tags: z.array(optionTradeTagSchema).describe("Exclude trades with any of these tags").optional(),
+  tags: z.array(optionTradeTagSchema).describe("Include trades with any of these tags").optional(),
+  expiry_dates: z.array(dateSchema).describe("Expiry dates to include").optional(),
+  industries: z.array(z.string()).describe("Industries to include").optional(),
+  issue_types: z.array(issueTypeSchema).describe("Issue types to include").optional(),
+  marketcap_size: z.array(marketcapSizeSchema).describe("Market cap size categories to include").optional(),
+  report_flag: z.array(reportFlagSchema).describe("Trade report flags to include").optional(),
+  sectors: z.array(sectorSchema).describe("Sectors to include").optional(),
+  trade_codes: z.array(tradeCodeSchema).describe("OPRA trade condition codes to include").optional(),
+  // Percentage filters
+  min_ask_perc: z.number().min(0).max(1).describe("The minimum ask percentage. Decimal proxy for percentage (0 to 1)").optional(),
+  max_ask_perc: z.number().min(0).max(1).describe("The maximum ask percentage. Decimal proxy for percentage (0 to 1)").optional(),
+  min_bear_perc: z.number().min(0).max(1).describe("The minimum bear percentage. Decimal proxy for percentage (0 to 1)").optional(),
+  max_bear_perc: z.number().min(0).max(1).describe("The maximum bear percentage. Decimal proxy for percentage (0 to 1)").optional(),
+  min_bid_perc: z.number().min(0).max(1).describe("The minimum bid percentage. Decimal proxy for percentage (0 to 1)").optional(),
+  max_bid_perc: z.number().min(0).max(1).describe("The maximum bid percentage. Decimal proxy for percentage (0 to 1)").optional(),
+  min_bull_perc: z.number().min(0).max(1).describe("The minimum bull percentage. Decimal proxy for percentage (0 to 1)").optional(),
+  max_bull_perc: z.number().min(0).max(1).describe("The maximum bull percentage. Decimal proxy for percentage (0 to 1)").optional(),
+  min_skew: z.number().min(0).max(1).describe("The minimum skew. Decimal proxy for percentage (0 to 1)").optional(),
+  max_skew: z.number().min(0).max(1).describe("The maximum skew. Decimal proxy for percentage (0 to 1)").optional(),
+  // Expiry and earnings filters
+  min_days_between_expiry_and_earnings: z.number().int().describe("Minimum days from the next earnings date to expiry (negative when the contract expires before earnings)").optional(),
+  max_days_between_expiry_and_earnings: z.number().int().describe("Maximum days from the next earnings date to expiry (negative when the contract expires before earnings)").optional(),
+  min_dte: z.number().int().min(0).describe("The minimum days to expiry").optional(),
+  max_dte: z.number().int().min(0).describe("The maximum days to expiry").optional(),
+  min_earnings_dte: z.number().int().describe("The minimum days until the next earnings report").optional(),
+  max_earnings_dte: z.number().int().describe("The maximum days until the next earnings report").optional(),
+  // Volume, OI, and size filters
+  min_open_interest: z.number().int().nonnegative().describe("The minimum open interest").optional(),
+  max_open_interest: z.number().int().nonnegative().describe("The maximum open interest").optional(),
+  min_volume: z.number().int().nonnegative().describe("The minimum volume on the contract").optional(),
+  max_volume: z.number().int().nonnegative().describe("The maximum volume on the contract").optional(),
+  min_size: z.number().int().nonnegative().describe("Minimum trade size in contracts").optional(),
+  max_size: z.number().int().nonnegative().describe("Maximum trade size in contracts").optional(),
+  min_vol_oi_ratio: z.number().min(0).describe("The minimum ratio of contract volume to open interest (open interest of zero counts as one)").optional(),
+  max_vol_oi_ratio: z.number().min(0).describe("The maximum ratio of contract volume to open interest (open interest of zero counts as one)").optional(),
+  // Greek and IV filters
+  min_delta: z.number().describe("Minimum option delta").optional(),
+  max_delta: z.number().describe("Maximum option delta").optional(),
+  min_gamma: z.number().describe("Minimum option gamma").optional(),
+  max_gamma: z.number().describe("Maximum option gamma").optional(),
+  min_iv: z.number().min(0).describe("Minimum implied volatility as a decimal").optional(),
+  max_iv: z.number().min(0).describe("Maximum implied volatility as a decimal").optional(),
+  min_theta: z.number().describe("Minimum option theta").optional(),
+  max_theta: z.number().describe("Maximum option theta").optional(),
+  // Price and premium filters
+  min_diff: z.number().describe("Minimum OTM diff of the contract (difference between strike and underlying price)").optional(),
+  max_diff: z.number().describe("Maximum OTM diff of the contract (difference between strike and underlying price)").optional(),
+  min_marketcap: z.number().nonnegative().describe("The minimum market capitalization in USD").optional(),
+  max_marketcap: z.number().nonnegative().describe("The maximum market capitalization in USD").optional(),
+  min_strike: z.number().nonnegative().describe("The minimum strike").optional(),
+  max_strike: z.number().nonnegative().describe("The maximum strike").optional(),
+  min_premium: z.number().nonnegative().describe("Minimum trade premium in dollars").optional(),
+  max_premium: z.number().nonnegative().describe("Maximum trade premium in dollars").optional(),
+  min_price: z.number().nonnegative().describe("Minimum option trade price").optional(),
+  max_price: z.number().nonnegative().describe("Maximum option trade price").optional(),
+  min_spread: z.number().min(0).describe("Minimum bid-ask spread percentage").optional(),
+  max_spread: z.number().min(0).describe("Maximum bid-ask spread percentage").optional(),
+  min_underlying_price: z.number().nonnegative().describe("Minimum underlying price at execution").optional(),
+  max_underlying_price: z.number().nonnegative().describe("Maximum underlying price at execution").optional(),
+})
+
+const optionableTickersSchema = z.object({
+  action_type: z.literal("optionable_tickers"),
+  ticker: tickerSchema.describe("Check a single symbol instead of listing the whole universe").optional(),
+})
+
 // Discriminated union of all action schemas
 const flowInputSchema = z.discriminatedUnion("action_type", [
   flowAlertsSchema,
@@ -146,6 +299,12 @@ const flowInputSchema = z.discriminatedUnion("action_type", [
   groupGreekFlowExpirySchema,
   litFlowRecentSchema,
   litFlowTickerSchema,
+  flowAlertTradesSchema,
+  multiLegTradesSchema,
+  multiLegLegsSchema,
+  exchangeBreakdownSchema,
+  optionTradesSchema,
+  optionableTickersSchema,
 ])
 
 export const flowTool = {
@@ -160,10 +319,17 @@ Available actions:
 - group_greek_flow_expiry: Get greek flow by expiry for a flow group (flow_group, expiry required; date optional)
 - lit_flow_recent: Get recent lit exchange trades across the market
 - lit_flow_ticker: Get lit exchange trades for a specific ticker (ticker required)
+- flow_alert_trades: Get the trades that make up a flow alert, including all legs of a multi-leg alert (id required; older_than optional)
+- multi_leg_trades: Get detected multi-leg strategies (spreads, condors, butterflies, etc.) with net premium and greeks, newest first
+- multi_leg_legs: Get the individual legs of a multi-leg strategy (id required)
+- exchange_breakdown: Get trade count, contracts, and premium by options exchange for a trading date (date required; ticker optional, omit for the whole universe)
+- option_trades: Get the current day's option trades tape with extensive filtering options
+- optionable_tickers: List all tickers with listed options, or check one (ticker optional). Requires Advanced tier
 
 Flow groups: airline, bank, basic materials, china, communication services, consumer cyclical, consumer defensive, crypto, cyber, energy, financial services, gas, gold, healthcare, industrials, mag7, oil, real estate, refiners, reit, semi, silver, technology, uranium, utilities
 
 Flow alerts filtering options include: ticker, premium range, volume range, OI range, DTE range, and more.
+Use the id from flow_alerts with flow_alert_trades, and the id from multi_leg_trades with multi_leg_legs, to drill into individual trades and legs.
 Lit flow filtering options include: premium range, size range, volume range, and timestamp filters.`,
   inputSchema: toJsonSchema(flowInputSchema),
   zodInputSchema: flowInputSchema,
@@ -300,4 +466,145 @@ export const handleFlow = createToolHandler(flowInputSchema, {
       max_volume: data.max_volume,
     })
   },
+
+  flow_alert_trades: async (data) => {
+    const path = new PathParamBuilder()
+      .add("id", data.id)
+      .build("/api/option-trades/flow-alerts/{id}")
+    return uwFetch(path, {
+      older_than: data.older_than,
+    })
+  },
+
+  multi_leg_trades: async (data) => {
+    return uwFetch("/api/option-trades/multi-leg", {
+      limit: data.limit,
+      offset: data.offset,
+      ticker_symbol: data.ticker_symbol,
+      newer_than: data.newer_than,
+      older_than: data.older_than,
+      "strategy[]": data.strategy,
+      exclude_other: data.exclude_other,
+      "direction[]": data.direction,
+      "net_side[]": data.net_side,
+      min_size: data.min_size,
+      max_size: data.max_size,
+      min_premium: data.min_premium,
+      max_premium: data.max_premium,
+      min_dte: data.min_dte,
+      max_dte: data.max_dte,
+      min_leg_count: data.min_leg_count,
+      max_leg_count: data.max_leg_count,
+      all_otm: data.all_otm,
+      "issue_types[]": data.issue_types,
+      "sectors[]": data.sectors,
+    })
+  },
+
+  multi_leg_legs: async (data) => {
+    const path = new PathParamBuilder()
+      .add("id", data.id)
+      .build("/api/option-trades/multi-leg/{id}/legs")
+    return uwFetch(path)
+  },
+
+  exchange_breakdown: async (data) => {
+    const path = new PathParamBuilder()
+      .add("date", data.date)
+      .build("/api/option-trades/exchange-breakdown/{date}")
+    return uwFetch(path, {
+      "ticker[]": data.ticker,
+      by_trade_code: data.by_trade_code,
+      min_premium: data.min_premium,
+      limit: data.limit,
+      page: data.page,
+      order: data.order,
+    })
+  },
+
+  option_trades: async (data) => {
+    return uwFetch("/api/option-trades", {
+      limit: data.limit,
+      ticker_symbol: data.ticker_symbol,
+      "option_contracts[]": data.option_contracts,
+      strike: data.strike,
+      type: data.type,
+      newer_than: data.newer_than,
+      older_than: data.older_than,
+      canceled: booleanParam(data.canceled),
+      is_multi_leg: booleanParam(data.is_multi_leg),
+      volume_greater_oi: data.volume_greater_oi,
+      exclude_deep_itm: data.exclude_deep_itm,
+      force_15_min_delay: data.force_15_min_delay,
+      hide_expired: data.hide_expired,
+      include_agg_trades: data.include_agg_trades,
+      intraday_only: data.intraday_only,
+      is_otm: booleanParam(data.is_otm),
+      opening: booleanParam(data.opening),
+      opex_only: data.opex_only,
+      size_greater_oi: data.size_greater_oi,
+      "exchanges[]": data.exchanges,
+      "excluded_tags[]": data.excluded_tags,
+      "tags[]": data.tags,
+      "expiry_dates[]": data.expiry_dates,
+      "industries[]": data.industries,
+      "issue_types[]": data.issue_types,
+      "marketcap_size[]": data.marketcap_size,
+      "report_flag[]": data.report_flag,
+      "sectors[]": data.sectors,
+      "trade_codes[]": data.trade_codes,
+      min_ask_perc: data.min_ask_perc,
+      max_ask_perc: data.max_ask_perc,
+      min_bear_perc: data.min_bear_perc,
+      max_bear_perc: data.max_bear_perc,
+      min_bid_perc: data.min_bid_perc,
+      max_bid_perc: data.max_bid_perc,
+      min_bull_perc: data.min_bull_perc,
+      max_bull_perc: data.max_bull_perc,
+      min_skew: data.min_skew,
+      max_skew: data.max_skew,
+      min_days_between_expiry_and_earnings: data.min_days_between_expiry_and_earnings,
+      max_days_between_expiry_and_earnings: data.max_days_between_expiry_and_earnings,
+      min_dte: data.min_dte,
+      max_dte: data.max_dte,
+      min_earnings_dte: data.min_earnings_dte,
+      max_earnings_dte: data.max_earnings_dte,
+      min_open_interest: data.min_open_interest,
+      max_open_interest: data.max_open_interest,
+      min_volume: data.min_volume,
+      max_volume: data.max_volume,
+      min_size: data.min_size,
+      max_size: data.max_size,
+      min_vol_oi_ratio: data.min_vol_oi_ratio,
+      max_vol_oi_ratio: data.max_vol_oi_ratio,
+      min_delta: data.min_delta,
+      max_delta: data.max_delta,
+      min_gamma: data.min_gamma,
+      max_gamma: data.max_gamma,
+      min_iv: data.min_iv,
+      max_iv: data.max_iv,
+      min_theta: data.min_theta,
+      max_theta: data.max_theta,
+      min_diff: data.min_diff,
+      max_diff: data.max_diff,
+      min_marketcap: data.min_marketcap,
+      max_marketcap: data.max_marketcap,
+      min_strike: data.min_strike,
+      max_strike: data.max_strike,
+      min_premium: data.min_premium,
+      max_premium: data.max_premium,
+      min_price: data.min_price,
+      max_price: data.max_price,
+      min_spread: data.min_spread,
+      max_spread: data.max_spread,
+      min_underlying_price: data.min_underlying_price,
+      max_underlying_price: data.max_underlying_price,
+    })
+  },
+
+  optionable_tickers: async (data) => {
+    return uwFetch("/api/option-trades/optionable-tickers", {
+      ticker: data.ticker,
+    })
+  },
 })
@@ -0,0 +1,141 @@
+import { z } from "zod"
+import { uwFetch } from "../client.js"
+import {
+  toJsonSchema,
+  limitSchema,
+  futuresContractSchema,
+  futuresCursorSchema,
+  futuresSideSchema,
+  futuresIntervalSchema,
+  futuresRangeSchema,
+  futuresOutputSchema,
+} from "../schemas/index.js"
+import { createToolHandler } from "./base/tool-factory.js"
+import { PathParamBuilder } from "../utils/path-params.js"
+import { booleanParam } from "../utils/query-params.js"
+
+// Explicit per-action schemas
+const contractsSchema = z.object({
+  action_type: z.literal("contracts"),
+  days: z.number().int().min(1).max(30).default(3).describe("Lookback window in days (default 3, max 30)").optional(),
+})
+
+const flowSchema = z.object({
+  action_type: z.literal("flow"),
+  limit: limitSchema.default(100).optional(),
+  older_than: futuresCursorSchema.describe("Return trades executed before this ISO 8601 timestamp").optional(),
+  newer_than: futuresCursorSchema.describe("Return trades executed after this ISO 8601 timestamp").optional(),
+  products: z.string().describe("Comma-separated CME product codes to include (e.g., ES,NQ)").optional(),
+  side: futuresSideSchema.optional(),
+  min_size: z.number().min(0).describe("Minimum trade size in contracts").optional(),
+  max_size: z.number().min(0).describe("Maximum trade size in contracts").optional(),
+  min_price: z.number().describe("Minimum trade price").optional(),
+  max_price: z.number().describe("Maximum trade price").optional(),
+  include_spreads: z.boolean().describe("Include calendar and spread contracts (default true); set false to exclude them").optional(),
+})
+
+const candlesSchema = z.object({
+  action_type: z.literal("candles"),
+  contract: futuresContractSchema,
+  interval: futuresIntervalSchema.default("1m").optional(),
+  range: futuresRangeSchema.default("1d").optional(),
+})
+
+const statsSchema = z.object({
+  action_type: z.literal("stats"),
+  contract: futuresContractSchema,
+})
+
+const tradesSchema = z.object({
+  action_type: z.literal("trades"),
+  contract: futuresContractSchema,
+  limit: limitSchema.default(100).optional(),
+  older_than: futuresCursorSchema.describe("Return trades executed before this ISO 8601 timestamp").optional(),
+  newer_than: futuresCursorSchema.describe("Return trades executed after this ISO 8601 timestamp").optional(),
+})
+
+// Discriminated union of all action schemas
+const futuresInputSchema = z.discriminatedUnion("action_type", [
+  contractsSchema,
+  flowSchema,
+  candlesSchema,
+  statsSchema,
+  tradesSchema,
+])
+
+export const futuresTool = {
+  name: "uw_futures",
+  description: `Access UnusualWhales CME futures data including active contracts, trade flow, OHLCV candles, and session statistics. Requires the Advanced API tier or the futures add-on.
+
+Available actions:
+- contracts: List active contracts, most active first (optional: days)
+- flow: Get newest-first trade prints across all contracts (optional: limit, older_than, newer_than, products, side, min_size, max_size, min_price, max_price, include_spreads)
+- candles: Get OHLCV candles for a contract (contract required; optional: interval, range)
+- stats: Get the latest settlement, open interest, and session volume for a contract (contract required)
+- trades: Get newest-first time & sales for a contract (contract required; optional: limit, older_than, newer_than)
+
+Contracts are dated CME symbols (e.g., ESU6, NQZ6); use contracts to find active ones.
+Flow and trades are cursor-paginated: pass the executed_at of the last row as older_than to get the next page.`,
+  inputSchema: toJsonSchema(futuresInputSchema),
+  zodInputSchema: futuresInputSchema,
+  outputSchema: toJsonSchema(futuresOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+}
+
+/**
+ * Handle futures tool requests using the tool factory pattern
+ */
+export const handleFutures = createToolHandler(futuresInputSchema, {
+  contracts: async (data) => {
+    return uwFetch("/api/futures/contracts", {
+      days: data.days,
+    })
+  },
+
+  flow: async (data) => {
+    return uwFetch("/api/futures/flow", {
+      limit: data.limit,
+      older_than: data.older_than,
+      newer_than: data.newer_than,
+      products: data.products,
+      side: data.side,
+      min_size: data.min_size,
+      max_size: data.max_size,
+      min_price: data.min_price,
+      max_price: data.max_price,
+      include_spreads: booleanParam(data.include_spreads),
+    })
+  },
+
+  candles: async (data) => {
+    const path = new PathParamBuilder()
+      .add("contract", data.contract)
+      .build("/api/futures/{contract}/candles")
+    return uwFetch(path, {
+      interval: data.interval,
+      range: data.range,
+    })
+  },
+
+  stats: async (data) => {
+    const path = new PathParamBuilder()
+      .add("contract", data.contract)
+      .build("/api/futures/{contract}/stats")
+    return uwFetch(path)
+  },
+
+  trades: async (data) => {
+    const path = new PathParamBuilder()
+      .add("contract", data.contract)
+      .build("/api/futures/{contract}/trades")
+    return uwFetch(path, {
+      limit: data.limit,
+      older_than: data.older_than,
+      newer_than: data.newer_than,
+    })
+  },
+})
@@ -13,7 +13,18 @@ import { shortsTool, handleShorts } from "./shorts.js"
 import { seasonalityTool, handleSeasonality } from "./seasonality.js"
 import { newsTool, handleNews } from "./news.js"
 import { alertsTool, handleAlerts } from "./alerts.js"
+import { alertConfigsTool, handleAlertConfigs } from "./alert-configs.js"
 import { politiciansTool, handlePoliticians } from "./politicians.js"
+import { predictionsTool, handlePredictions } from "./predictions.js"
+import { privateMarketsTool, handlePrivateMarkets } from "./private-markets.js"
+import { cryptoTool, handleCrypto } from "./crypto.js"
+import { futuresTool, handleFutures } from "./futures.js"
+import { macroTool, handleMacro } from "./macro.js"
+import { companyTool, handleCompany } from "./company.js"
+import { eventsTool, handleEvents } from "./events.js"
+import { analyticsTool, handleAnalytics } from "./analytics.js"
+import { cacheTool, handleCache } from "./cache.js"
+import { statusTool, handleStatus } from "./status.js"
 import type { ToolResponse } from "./base/response.js"
 
 export type { ToolResponse }
@@ -65,7 +76,18 @@ const toolRegistrations: ToolRegistration[] = [
   { tool: seasonalityTool, handler: handleSeasonality },
   { tool: newsTool, handler: handleNews },
   { tool: alertsTool, handler: handleAlerts },
+  { tool: alertConfigsTool, handler: handleAlertConfigs },
   { tool: politiciansTool, handler: handlePoliticians },
+  { tool: predictionsTool, handler: handlePredictions },
+  { tool: privateMarketsTool, handler: handlePrivateMarkets },
+  { tool: cryptoTool, handler: handleCrypto },
+  { tool: futuresTool, handler: handleFutures },
+  { tool: macroTool, handler: handleMacro },
+  { tool: companyTool, handler: handleCompany },
+  { tool: eventsTool, handler: handleEvents },
+  { tool: analyticsTool, handler: handleAnalytics },
+  { tool: cacheTool, handler: handleCache },
+  { tool: statusTool, handler: handleStatus },
 ]
 
 export const tools = toolRegistrations.map((reg) => reg.tool)
@@ -0,0 +1,145 @@
+import { z } from "zod"
+import { uwFetch } from "../client.js"
+import {
+  toJsonSchema,
+  historyIntervalSchema,
+  intradayIntervalSchema,
+  currencyCodeSchema,
+  commodityNameSchema,
+  commodityIntervalSchema,
+  economicIndicatorNameSchema,
+  economicIntervalSchema,
+  treasuryMaturitySchema,
+} from "../schemas/index.js"
+import { createToolHandler } from "./base/tool-factory.js"
+import { PathParamBuilder } from "../utils/path-params.js"
+
+// Explicit per-action schemas
+const forexRateSchema = z.object({
+  action_type: z.literal("forex_rate"),
+  from: currencyCodeSchema.describe("Currency to convert from (ISO 4217, e.g., USD)"),
+  to: currencyCodeSchema.describe("Currency to convert to (ISO 4217, e.g., EUR)"),
+})
+
+const forexHistorySchema = z.object({
+  action_type: z.literal("forex_history"),
+  from: currencyCodeSchema.describe("Base currency of the pair (ISO 4217, e.g., EUR)"),
+  to: currencyCodeSchema.describe("Quote currency of the pair (ISO 4217, e.g., USD)"),
+  interval: historyIntervalSchema.default("daily").optional(),
+})
+
+const forexIntradaySchema = z.object({
+  action_type: z.literal("forex_intraday"),
+  from: currencyCodeSchema.describe("Base currency of the pair (ISO 4217, e.g., EUR)"),
+  to: currencyCodeSchema.describe("Quote currency of the pair (ISO 4217, e.g., USD)"),
+  interval: intradayIntervalSchema.default("5min").optional(),
+})
+
+const commoditySchema = z.object({
+  action_type: z.literal("commodity"),
+  name: commodityNameSchema,
+  interval: commodityIntervalSchema.default("monthly").optional(),
+})
+
+const economicIndicatorSchema = z.object({
+  action_type: z.literal("economic_indicator"),
+  indicator: economicIndicatorNameSchema,
+  interval: economicIntervalSchema.optional(),
+})
+
+const treasuryYieldSchema = z.object({
+  action_type: z.literal("treasury_yield"),
+  maturity: treasuryMaturitySchema.optional(),
+  interval: economicIntervalSchema.optional(),
+})
+
+// Discriminated union of all action schemas
+const macroInputSchema = z.discriminatedUnion("action_type", [
+  forexRateSchema,
+  forexHistorySchema,
+  forexIntradaySchema,
+  commoditySchema,
+  economicIndicatorSchema,
+  treasuryYieldSchema,
+])
+
+export const macroTool = {
+  name: "uw_macro",
+  description: `Access UnusualWhales macro data: foreign exchange rates, commodity prices, and US economic indicators. Requires Advanced+ tier.
+
+Available actions:
+- forex_rate: Get the realtime spot exchange rate between two currencies (from, to required)
+- forex_history: Get daily, weekly, or monthly bars for a currency pair (from, to required; optional: interval)
+- forex_intraday: Get intraday bars for a currency pair (from, to required; optional: interval)
+- commodity: Get a long-running commodity price series (name required; optional: interval)
+- economic_indicator: Get a long-running US economic indicator series (indicator required; optional: interval)
+- treasury_yield: Get a long-running US treasury yield series (optional: maturity, interval)
+
+Currencies are ISO 4217 codes (e.g., USD, EUR, JPY).
+Commodities: wti, brent, natural-gas, copper, aluminum, wheat, corn, cotton, sugar, coffee, all-commodities
+Indicators: gdp, gdp-per-capita, fed-funds, cpi, inflation, retail-sales, durables, unemployment, payrolls
+Treasury maturities: 3month, 2year, 5year, 7year, 10year, 30year`,
+  inputSchema: toJsonSchema(macroInputSchema),
+  zodInputSchema: macroInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+}
+
+/**
+ * Handle macro tool requests using the tool factory pattern
+ */
+export const handleMacro = createToolHandler(macroInputSchema, {
+  forex_rate: async (data) => {
+    return uwFetch("/api/forex/rate", {
+      from: data.from,
+      to: data.to,
+    })
+  },
+
+  forex_history: async (data) => {
+    return uwFetch("/api/forex/history", {
+      from: data.from,
+      to: data.to,
+      interval: data.interval,
+    })
+  },
+
+  forex_intraday: async (data) => {
+    return uwFetch("/api/forex/intraday", {
+      from: data.from,
+      to: data.to,
+      interval: data.interval,
+    })
+  },
+
+  commodity: async (data) => {
+    const path = new PathParamBuilder()
+      .add("name", data.name)
+      .build("/api/commodities/{name}")
+    return uwFetch(path, {
+      interval: data.interval,
+    })
+  },
+
+  economic_indicator: async (data) => {
+    const path = new PathParamBuilder()
+      .add("indicator", data.indicator)
+      .build("/api/economy/{indicator}")
+    return uwFetch(path, {
+      interval: data.interval,
+    })
+  },
+
+  treasury_yield: async (data) => {
+    const path = new PathParamBuilder()
+      .add("indicator", "treasury-yield")
+      .build("/api/economy/{indicator}")
+    return uwFetch(path, {
+      maturity: data.maturity,
+      interval: data.interval,
+    })
+  },
+})
@@ -1,8 +1,17 @@
 import { z } from "zod"
 import { uwFetch } from "../client.js"
-import { toJsonSchema, tickerSchema, dateSchema } from "../schemas/index.js"
+import {
+  toJsonSchema,
+  tickerSchema,
+  dateSchema,
+  sectorSchema,
+  issueTypeSchema,
+  optionContractScreenerOrderBySchema,
+  optionsPulseDirectionSchema,
+} from "../schemas/index.js"
 import { createToolHandler } from "./base/tool-factory.js"
 import { PathParamBuilder } from "../utils/path-params.js"
+import { booleanParam } from "../utils/query-params.js"
 
 // Explicit per-action schemas
 const marketTideSchema = z.object({
@@ -80,6 +89,69 @@ const totalOptionsVolumeSchema = z.object({
   limit: z.number().int().min(1).max(500).describe("Maximum number of results").optional(),
 })
 
+const volatilityAnomaliesSchema = z.object({
+  action_type: z.literal("volatility_anomalies"),
+  direction: z.enum(["short_vol", "long_vol"]).describe("Rank anomalies where volatility is rich (short_vol) or cheap (long_vol)"),
+  date: dateSchema.optional(),
+  limit: z.number().int().min(1).max(200).describe("Maximum number of results (default 50, max 200)").optional(),
+})
+
+const volatilityCharacterSchema = z.object({
+  action_type: z.literal("volatility_character"),
+  date: dateSchema.optional(),
+  limit: z.number().int().min(1).max(200).describe("Maximum number of results (default 50, max 200)").optional(),
+  sort: z.enum(["half_life", "hurst", "neg_entropy"]).describe("Field to rank by (default half_life)").optional(),
+  dir: z.enum(["asc", "desc"]).describe("Sort direction (default asc)").optional(),
+})
+
+const vixTermStructureSchema = z.object({
+  action_type: z.literal("vix_term_structure"),
+  history_days: z.number().int().min(1).max(365).describe("Days of history to include (default 90, max 365)").optional(),
+})
+
+const optionsPulseSectorsSchema = z.object({
+  action_type: z.literal("options_pulse_sectors"),
+  date: dateSchema.optional(),
+})
+
+const optionsPulseTopSchema = z.object({
+  action_type: z.literal("options_pulse_top"),
+  direction: optionsPulseDirectionSchema.optional(),
+  date: dateSchema.optional(),
+  ticker: z.string().describe("Restrict to tickers starting with this prefix").optional(),
+  min_score: z.number().describe("Minimum sentiment score").optional(),
+  max_score: z.number().describe("Maximum sentiment score").optional(),
+  min_txn: z.number().int().min(0).describe("Minimum opening-buy transactions (put + call)").optional(),
+  limit: z.number().int().min(1).max(500).describe("Maximum number of results (default 50, max 500)").optional(),
+})
+
+const optionsPulseTotalSchema = z.object({
+  action_type: z.literal("options_pulse_total"),
+  date: dateSchema.optional(),
+})
+
+const moversSchema = z.object({
+  action_type: z.literal("movers"),
+})
+
+const ipoCalendarSchema = z.object({
+  action_type: z.literal("ipo_calendar"),
+})
+
+const unusualActivitySchema = z.object({
+  action_type: z.literal("unusual_activity"),
+  ticker_symbol: z.string().describe("Comma-separated list of tickers. Prefix the first ticker with '-' to exclude the list (e.g., 'AAPL,INTC' or '-TSLA,NVDA')").optional(),
+  sectors: z.array(sectorSchema).describe("Sectors to include").optional(),
+  issue_types: z.array(issueTypeSchema).describe("Issue types to include").optional(),
+  unusual: z.boolean().describe("Apply the unusual preset: volume > OI, OTM, DTE <= 60, ask-side >= 50%, premium >= $10k (default true). Set false for the full screen").optional(),
+  min_premium: z.number().int().nonnegative().describe("Minimum total premium on the contract, overriding the preset").optional(),
+  max_dte: z.number().int().nonnegative().describe("Maximum days to expiry, overriding the preset").optional(),
+  order: optionContractScreenerOrderBySchema.optional(),
+  order_direction: z.enum(["asc", "desc"]).describe("Order direction (default desc)").optional(),
+  limit: z.number().int().min(1).max(200).describe("Maximum number of results (default 100, max 200)").optional(),
+  date: dateSchema.optional(),
+})
+
 // Discriminated union of all action schemas
 const marketInputSchema = z.discriminatedUnion("action_type", [
   marketTideSchema,
@@ -94,6 +166,15 @@ const marketInputSchema = z.discriminatedUnion("action_type", [
   spikeSchema,
   topNetImpactSchema,
   totalOptionsVolumeSchema,
+  volatilityAnomaliesSchema,
+  volatilityCharacterSchema,
+  vixTermStructureSchema,
+  optionsPulseSectorsSchema,
+  optionsPulseTopSchema,
+  optionsPulseTotalSchema,
+  moversSchema,
+  ipoCalendarSchema,
+  unusualActivitySchema,
 ])
 
 export const marketTool = {
@@ -112,7 +193,16 @@ Available actions:
 - oi_change: Get top OI changes (date, limit, order optional)
 - spike: Get SPIKE values (date optional)
 - top_net_impact: Get top tickers by net premium (date, issue_types, limit optional)
-- total_options_volume: Get total market options volume (limit optional)`,
+- total_options_volume: Get total market options volume (limit optional)
+- volatility_anomalies: Get the top volatility anomalies, where options are richest (short_vol) or cheapest (long_vol) (direction required; date, limit optional)
+- volatility_character: Screen tickers by volatility character: mean-reverting, persistent, or moderate (date, limit, sort, dir optional)
+- vix_term_structure: Get the latest VIX futures term structure with history (history_days optional). Requires the volatility API add-on
+- options_pulse_sectors: Get the latest Nasdaq Options Pulse sentiment for each sector and industry (date optional)
+- options_pulse_top: Rank tickers by Options Pulse sentiment (direction, date, ticker, min_score, max_score, min_txn, limit optional)
+- options_pulse_total: Get the market-wide Options Pulse gauge, latest snapshot and intraday series (date optional)
+- movers: Get top gainers, top losers, and most active US tickers for the latest session. Requires Advanced+ tier
+- ipo_calendar: Get upcoming IPOs in the next 3 months. Requires Advanced+ tier
+- unusual_activity: Get option contracts flagged as unusual, the live options flow "unusual" view (ticker_symbol, sectors, issue_types, unusual, min_premium, max_dte, order, order_direction, limit, date optional)`,
   inputSchema: toJsonSchema(marketInputSchema),
   zodInputSchema: marketInputSchema,
   annotations: {
@@ -214,4 +304,74 @@ export const handleMarket = createToolHandler(marketInputSchema, {
       limit: data.limit,
     })
   },
+
+  volatility_anomalies: async (data) => {
+    return uwFetch("/api/volatility/anomaly/top", {
+      direction: data.direction,
+      date: data.date,
+      limit: data.limit,
+    })
+  },
+
+  volatility_character: async (data) => {
+    return uwFetch("/api/volatility/character/top", {
+      date: data.date,
+      limit: data.limit,
+      sort: data.sort,
+      dir: data.dir,
+    })
+  },
+
+  vix_term_structure: async (data) => {
+    return uwFetch("/api/volatility/vix-term-structure", {
+      history_days: data.history_days,
+    })
+  },
+
+  options_pulse_sectors: async (data) => {
+    return uwFetch("/api/options-pulse/sectors", {
+      date: data.date,
+    })
+  },
+
+  options_pulse_top: async (data) => {
+    return uwFetch("/api/options-pulse/top", {
+      direction: data.direction,
+      date: data.date,
+      ticker: data.ticker,
+      min_score: data.min_score,
+      max_score: data.max_score,
+      min_txn: data.min_txn,
+      limit: data.limit,
+    })
+  },
+
+  options_pulse_total: async (data) => {
+    return uwFetch("/api/options-pulse/total", {
+      date: data.date,
+    })
+  },
+
+  movers: async () => {
+    return uwFetch("/api/market/movers")
+  },
+
+  ipo_calendar: async () => {
+    return uwFetch("/api/calendar/ipo")
+  },
+
+  unusual_activity: async (data) => {
+    return uwFetch("/api/option-activity/unusual", {
+      ticker_symbol: data.ticker_symbol,
+      "sectors[]": data.sectors,
+      "issue_types[]": data.issue_types,
+      unusual: booleanParam(data.unusual),
+      min_premium: data.min_premium,
+      max_dte: data.max_dte,
+      order: data.order,
+      order_direction: data.order_direction,
+      limit: data.limit,
+      date: data.date,
+    })
+  },
 })
@@ -0,0 +1,164 @@
+import { z } from "zod"
+import { uwFetch } from "../client.js"
+import {
+  toJsonSchema,
+  limitSchema,
+  offsetSchema,
+  predictionAssetIdSchema,
+  predictionUserIdSchema,
+  predictionCategoriesSchema,
+  predictionPriceSchema,
+  predictionsOutputSchema,
+} from "../schemas/index.js"
+import { createToolHandler } from "./base/tool-factory.js"
+import { PathParamBuilder } from "../utils/path-params.js"
+
+// Explicit per-action schemas
+const insidersSchema = z.object({
+  action_type: z.literal("insiders"),
+})
+
+const marketSchema = z.object({
+  action_type: z.literal("market"),
+  asset_id: predictionAssetIdSchema,
+})
+
+const liquiditySchema = z.object({
+  action_type: z.literal("liquidity"),
+  asset_id: predictionAssetIdSchema,
+})
+
+const positionsSchema = z.object({
+  action_type: z.literal("positions"),
+  asset_id: predictionAssetIdSchema,
+})
+
+const searchUsersSchema = z.object({
+  action_type: z.literal("search_users"),
+  q: z.string().min(1, "Search query is required").describe("User name or wallet address to search for"),
+})
+
+const smartMoneySchema = z.object({
+  action_type: z.literal("smart_money"),
+  categories: predictionCategoriesSchema.optional(),
+  min_price: predictionPriceSchema.describe("Minimum outcome price, quoted 0-1").optional(),
+  max_price: predictionPriceSchema.describe("Maximum outcome price, quoted 0-1").optional(),
+})
+
+const unusualSchema = z.object({
+  action_type: z.literal("unusual"),
+  categories: predictionCategoriesSchema.optional(),
+  limit: limitSchema.default(50).optional(),
+  offset: offsetSchema.default(0).optional(),
+})
+
+const userSchema = z.object({
+  action_type: z.literal("user"),
+  user_id: predictionUserIdSchema,
+})
+
+const whalesSchema = z.object({
+  action_type: z.literal("whales"),
+})
+
+// Discriminated union of all action schemas
+const predictionsInputSchema = z.discriminatedUnion("action_type", [
+  insidersSchema,
+  marketSchema,
+  liquiditySchema,
+  positionsSchema,
+  searchUsersSchema,
+  smartMoneySchema,
+  unusualSchema,
+  userSchema,
+  whalesSchema,
+])
+
+export const predictionsTool = {
+  name: "uw_predictions",
+  description: `Access UnusualWhales prediction market data including market details, order book liquidity, insiders, whales, and smart money traders.
+
+Available actions:
+- insiders: Get potential insider activity across prediction markets
+- market: Get details, recent trades, and tag scores for a market outcome (asset_id required)
+- liquidity: Get order book liquidity for a market outcome (asset_id required)
+- positions: Get trader positions in a market outcome (asset_id required)
+- search_users: Search prediction market users by name or wallet address (q required)
+- smart_money: Get markets where profitable traders are positioned (optional: categories, min_price, max_price)
+- unusual: Get markets with unusual activity (optional: categories, limit, offset)
+- user: Get a user's profile, positions, and trades (user_id required)
+- whales: Get large prediction market positions
+
+Categories: Crypto, Culture, Finance, Politics, Science, Sports, Technology. Prices are quoted 0-1.`,
+  inputSchema: toJsonSchema(predictionsInputSchema),
+  zodInputSchema: predictionsInputSchema,
+  outputSchema: toJsonSchema(predictionsOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+}
+
+/**
+ * Handle predictions tool requests using the tool factory pattern
+ */
+export const handlePredictions = createToolHandler(predictionsInputSchema, {
+  insiders: async () => {
+    return uwFetch("/api/predictions/insiders")
+  },
+
+  market: async (data) => {
+    const path = new PathParamBuilder()
+      .add("asset_id", data.asset_id)
+      .build("/api/predictions/market/{asset_id}")
+    return uwFetch(path)
+  },
+
+  liquidity: async (data) => {
+    const path = new PathParamBuilder()
+      .add("asset_id", data.asset_id)
+      .build("/api/predictions/market/{asset_id}/liquidity")
+    return uwFetch(path)
+  },
+
+  positions: async (data) => {
+    const path = new PathParamBuilder()
+      .add("asset_id", data.asset_id)
+      .build("/api/predictions/market/{asset_id}/positions")
+    return uwFetch(path)
+  },
+
+  search_users: async (data) => {
+    return uwFetch("/api/predictions/search-users", {
+      q: data.q,
+    })
+  },
+
+  smart_money: async (data) => {
+    return uwFetch("/api/predictions/smart-money", {
+      categories: data.categories,
+      min_price: data.min_price,
+      max_price: data.max_price,
+    })
+  },
+
+  unusual: async (data) => {
+    return uwFetch("/api/predictions/unusual", {
+      categories: data.categories,
+      limit: data.limit,
+      offset: data.offset,
+    })
+  },
+
+  user: async (data) => {
+    const path = new PathParamBuilder()
+      .add("user_id", data.user_id)
+      .build("/api/predictions/user/{user_id}")
+    return uwFetch(path)
+  },
+
+  whales: async () => {
+    return uwFetch("/api/predictions/whales")
+  },
+})
@@ -0,0 +1,196 @@
+import { z } from "zod"
+import { uwFetch } from "../client.js"
+import {
+  toJsonSchema,
+  dateSchema,
+  limitSchema,
+  offsetSchema,
+  npmTickerSchema,
+  privateMarketsInvestorSchema,
+} from "../schemas/index.js"
+import { createToolHandler } from "./base/tool-factory.js"
+import { PathParamBuilder } from "../utils/path-params.js"
+
+// Explicit per-action schemas
+const searchSchema = z.object({
+  action_type: z.literal("search"),
+  query: z.string().min(1, "Search query is required").describe("Company or investor name to search for (case-insensitive substring match)"),
+  limit: z.number().int().min(1).max(50).default(10).describe("Maximum number of results (default 10, max 50)").optional(),
+})
+
+const companiesSchema = z.object({
+  action_type: z.literal("companies"),
+  sector: z.string().describe("Exact-match sector filter (e.g., Technology)").optional(),
+  name: z.string().describe("Case-insensitive substring match against company name").optional(),
+  limit: limitSchema.default(100).optional(),
+  offset: offsetSchema.default(0).optional(),
+})
+
+const companySchema = z.object({
+  action_type: z.literal("company"),
+  npm_ticker: npmTickerSchema,
+})
+
+const fundingSchema = z.object({
+  action_type: z.literal("funding"),
+  npm_ticker: npmTickerSchema,
+  limit: limitSchema.optional(),
+  offset: offsetSchema.optional(),
+})
+
+const companyInvestorsSchema = z.object({
+  action_type: z.literal("company_investors"),
+  npm_ticker: npmTickerSchema,
+  limit: limitSchema.optional(),
+  offset: offsetSchema.optional(),
+})
+
+const managementSchema = z.object({
+  action_type: z.literal("management"),
+  npm_ticker: npmTickerSchema,
+  limit: limitSchema.optional(),
+  offset: offsetSchema.optional(),
+})
+
+const pricingSchema = z.object({
+  action_type: z.literal("pricing"),
+  npm_ticker: npmTickerSchema,
+  start_date: dateSchema.describe("Inclusive lower bound on pricing date in YYYY-MM-DD format").optional(),
+  end_date: dateSchema.describe("Inclusive upper bound on pricing date in YYYY-MM-DD format").optional(),
+  limit: limitSchema.optional(),
+  offset: offsetSchema.optional(),
+})
+
+const investorsSchema = z.object({
+  action_type: z.literal("investors"),
+  limit: limitSchema.optional(),
+  offset: offsetSchema.optional(),
+})
+
+const investorSchema = z.object({
+  action_type: z.literal("investor"),
+  name: privateMarketsInvestorSchema,
+})
+
+// Discriminated union of all action schemas
+const privateMarketsInputSchema = z.discriminatedUnion("action_type", [
+  searchSchema,
+  companiesSchema,
+  companySchema,
+  fundingSchema,
+  companyInvestorsSchema,
+  managementSchema,
+  pricingSchema,
+  investorsSchema,
+  investorSchema,
+])
+
+export const privateMarketsTool = {
+  name: "uw_private_markets",
+  description: `Access UnusualWhales Nasdaq Private Markets data for pre-IPO companies: profiles, funding rounds, investors, management, and implied share pricing. Premium endpoints.
+
+Start with search to find a company's npm_ticker or an investor's name, then drill down with the other actions.
+
+Available actions:
+- search: Search companies and investors by name (query required; optional: limit)
+- companies: List companies alphabetically (optional: sector, name, limit, offset)
+- company: Get a company profile with latest price, total funding, and investor count (npm_ticker required)
+- funding: Get a company's funding rounds, most recent first (npm_ticker required; optional: limit, offset)
+- company_investors: Get a company's disclosed investors (npm_ticker required; optional: limit, offset)
+- management: Get a company's disclosed leadership (npm_ticker required; optional: limit, offset)
+- pricing: Get a company's implied per-share pricing history (npm_ticker required; optional: start_date, end_date, limit, offset)
+- investors: Get the most active investors by number of companies (optional: limit, offset)
+- investor: Get an investor's portfolio of companies (name required)`,
+  inputSchema: toJsonSchema(privateMarketsInputSchema),
+  zodInputSchema: privateMarketsInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+}
+
+/**
+ * Handle private markets tool requests using the tool factory pattern
+ */
+export const handlePrivateMarkets = createToolHandler(privateMarketsInputSchema, {
+  search: async (data) => {
+    return uwFetch("/api/private-markets/search", {
+      query: data.query,
+      limit: data.limit,
+    })
+  },
+
+  companies: async (data) => {
+    return uwFetch("/api/private-markets/companies", {
+      sector: data.sector,
+      name: data.name,
+      limit: data.limit,
+      offset: data.offset,
+    })
+  },
+
+  company: async (data) => {
+    const path = new PathParamBuilder()
+      .add("npm_ticker", data.npm_ticker)
+      .build("/api/private-markets/companies/{npm_ticker}")
+    return uwFetch(path)
+  },
+
+  funding: async (data) => {
+    const path = new PathParamBuilder()
+      .add("npm_ticker", data.npm_ticker)
+      .build("/api/private-markets/companies/{npm_ticker}/funding")
+    return uwFetch(path, {
+      limit: data.limit,
+      offset: data.offset,
+    })
+  },
+
+  company_investors: async (data) => {
+    const path = new PathParamBuilder()
+      .add("npm_ticker", data.npm_ticker)
+      .build("/api/private-markets/companies/{npm_ticker}/investors")
+    return uwFetch(path, {
+      limit: data.limit,
+      offset: data.offset,
+    })
+  },
+
+  management: async (data) => {
+    const path = new PathParamBuilder()
+      .add("npm_ticker", data.npm_ticker)
+      .build("/api/private-markets/companies/{npm_ticker}/management")
+    return uwFetch(path, {
+      limit: data.limit,
+      offset: data.offset,
+    })
+  },
+
+  pricing: async (data) => {
+    const path = new PathParamBuilder()
+      .add("npm_ticker", data.npm_ticker)
+      .build("/api/private-markets/companies/{npm_ticker}/pricing")
+    return uwFetch(path, {
+      start_date: data.start_date,
+      end_date: data.end_date,
+      limit: data.limit,
+      offset: data.offset,
+    })
+  },
+
+  investors: async (data) => {
+    return uwFetch("/api/private-markets/investors", {
+      limit: data.limit,
+      offset: data.offset,
+    })
+  },
+
+  investor: async (data) => {
+    const path = new PathParamBuilder()
+      // Investor names can contain "/" (e.g., "A/B Partners"), which is sent percent-encoded
+      .add("name", data.name, true, { allowPathChars: true })
+      .build("/api/private-markets/investors/{name}")
+    return uwFetch(path)
+  },
+})
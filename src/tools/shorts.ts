@@ -1,6 +1,6 @@
 import { z } from "zod"
 import { uwFetch } from "../client.js"
-import { toJsonSchema, tickerSchema } from "../schemas/index.js"
+import { toJsonSchema, tickerSchema, dateSchema, limitSchema, offsetSchema } from "../schemas/index.js"
 import { createToolHandler } from "./base/tool-factory.js"
 import { PathParamBuilder } from "../utils/path-params.js"
 
@@ -30,6 +30,33 @@ const volumesByExchangeSchema = z.object({
   ticker: tickerSchema,
 })
 
+const screenerSchema = z.object({
+  action_type: z.literal("screener"),
+  tickers: z.string().describe("Comma-separated list of tickers. Prefix the first ticker with '-' to exclude the list").optional(),
+  limit: limitSchema.default(100).optional(),
+  offset: offsetSchema.optional(),
+  min_short_interest: z.number().int().nonnegative().describe("Minimum short interest in shares").optional(),
+  max_short_interest: z.number().int().nonnegative().describe("Maximum short interest in shares").optional(),
+  min_days_to_cover: z.number().nonnegative().describe("Minimum days to cover").optional(),
+  max_days_to_cover: z.number().nonnegative().describe("Maximum days to cover").optional(),
+  min_si_float: z.number().nonnegative().describe("Minimum short interest as percent of float").optional(),
+  max_si_float: z.number().nonnegative().describe("Maximum short interest as percent of float").optional(),
+  min_si_float_with_synth_long_pct_of_total_shares: z.number().nonnegative().describe("Minimum short interest including synthetic longs, as percent of total shares").optional(),
+  max_si_float_with_synth_long_pct_of_total_shares: z.number().nonnegative().describe("Maximum short interest including synthetic longs, as percent of total shares").optional(),
+  min_total_float: z.number().int().nonnegative().describe("Minimum total float in shares").optional(),
+  max_total_float: z.number().int().nonnegative().describe("Maximum total float in shares").optional(),
+  min_fee_rate: z.number().describe("Minimum borrow fee rate").optional(),
+  max_fee_rate: z.number().describe("Maximum borrow fee rate").optional(),
+  min_rebate_rate: z.number().describe("Minimum rebate rate").optional(),
+  max_rebate_rate: z.number().describe("Maximum rebate rate").optional(),
+  min_short_shares_available: z.number().int().nonnegative().describe("Minimum shares available to borrow").optional(),
+  max_short_shares_available: z.number().int().nonnegative().describe("Maximum shares available to borrow").optional(),
+  min_market_date: dateSchema.describe("Earliest market date to include (YYYY-MM-DD)").optional(),
+  max_market_date: dateSchema.describe("Latest market date to include (YYYY-MM-DD)").optional(),
+  order_by: z.string().describe("Field to order by (e.g., market_date, si_float, days_to_cover)").optional(),
+  order_direction: z.enum(["asc", "desc"]).default("desc").optional(),
+})
+
 // Discriminated union of all action schemas
 const shortsInputSchema = z.discriminatedUnion("action_type", [
   dataSchema,
@@ -37,6 +64,7 @@ const shortsInputSchema = z.discriminatedUnion("action_type", [
   interestFloatSchema,
   volumeRatioSchema,
   volumesByExchangeSchema,
+  screenerSchema,
 ])
 
 export const shortsTool = {
@@ -48,7 +76,8 @@ Available actions:
 - ftds: Get failure to deliver data (ticker required)
 - interest_float: Get short interest as percent of float (ticker required)
 - volume_ratio: Get short volume and ratio (ticker required)
-- volumes_by_exchange: Get short volumes by exchange (ticker required)`,
+- volumes_by_exchange: Get short volumes by exchange (ticker required)
+- screener: Screen tickers by short interest, percent of float, days to cover, borrow fee, and shares available (all filters optional)`,
   inputSchema: toJsonSchema(shortsInputSchema),
   zodInputSchema: shortsInputSchema,
   annotations: {
@@ -96,4 +125,32 @@ export const handleShorts = createToolHandler(shortsInputSchema, {
       .build("/api/shorts/{ticker}/volumes-by-exchange")
     return uwFetch(path)
   },
+
+  screener: async (data) => {
+    return uwFetch("/api/short_screener", {
+      tickers: data.tickers,
+      limit: data.limit,
+      offset: data.offset,
+      min_short_interest: data.min_short_interest,
+      max_short_interest: data.max_short_interest,
+      min_days_to_cover: data.min_days_to_cover,
+      max_days_to_cover: data.max_days_to_cover,
+      min_si_float: data.min_si_float,
+      max_si_float: data.max_si_float,
+      min_si_float_with_synth_long_pct_of_total_shares: data.min_si_float_with_synth_long_pct_of_total_shares,
+      max_si_float_with_synth_long_pct_of_total_shares: data.max_si_float_with_synth_long_pct_of_total_shares,
+      min_total_float: data.min_total_float,
+      max_total_float: data.max_total_float,
+      min_fee_rate: data.min_fee_rate,
+      max_fee_rate: data.max_fee_rate,
+      min_rebate_rate: data.min_rebate_rate,
+      max_rebate_rate: data.max_rebate_rate,
+      min_short_shares_available: data.min_short_shares_available,
+      max_short_shares_available: data.max_short_shares_available,
+      min_market_date: data.min_market_date,
+      max_market_date: data.max_market_date,
+      order_by: data.order_by,
+      order_direction: data.order_direction,
+    })
+  },
 })
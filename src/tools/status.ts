@@ -0,0 +1,76 @@
+import { z } from "zod"
+import { toJsonSchema } from "../schemas/index.js"
+import { getCircuitBreakerStatuses, resetCircuitBreaker } from "../client.js"
+import { getCurrentQuotaUsage } from "../quota.js"
+import { getCurrentApiKey } from "../request-context.js"
+import { createToolHandler } from "./base/tool-factory.js"
+
+const NO_API_KEY_ERROR = "UW_API_KEY environment variable is not set"
+
+// Explicit per-action schemas
+const quotaSchema = z.object({
+  action_type: z.literal("quota"),
+})
+
+const circuitBreakersSchema = z.object({
+  action_type: z.literal("circuit_breakers"),
+})
+
+const resetCircuitBreakerSchema = z.object({
+  action_type: z.literal("reset_circuit_breaker"),
+  group: z.string().min(1).describe("Endpoint group of the breaker to reset (e.g., institution for /api/institution/...)"),
+})
+
+// Discriminated union of all action schemas
+const statusInputSchema = z.discriminatedUnion("action_type", [
+  quotaSchema,
+  circuitBreakersSchema,
+  resetCircuitBreakerSchema,
+])
+
+export const statusTool = {
+  name: "uw_status",
+  description: `Inspect the server's use of the Unusual Whales API.
+
+Available actions:
+- quota: Get today's API usage for your API key: requests sent, the daily count and limit reported by the API, remaining quota, and the reserve below which low-priority requests (screeners, news, full tape, seasonality) are refused
+- circuit_breakers: Get the state of the circuit breaker for each endpoint group (e.g., stock, option-trades, institution). An OPEN breaker fails requests to its group fast until the API recovers
+- reset_circuit_breaker: Close the circuit breaker for an endpoint group so requests are sent again (group required)`,
+  inputSchema: toJsonSchema(statusInputSchema),
+  zodInputSchema: statusInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+}
+
+/**
+ * Handle status tool requests using the tool factory pattern
+ */
+export const handleStatus = createToolHandler(statusInputSchema, {
+  quota: async () => {
+    const usage = getCurrentQuotaUsage()
+    return usage ? { data: usage } : { error: NO_API_KEY_ERROR }
+  },
+
+  circuit_breakers: async () => {
+    const apiKey = getCurrentApiKey()
+    if (!apiKey) {
+      return { error: NO_API_KEY_ERROR }
+    }
+    return { data: { breakers: getCircuitBreakerStatuses(apiKey) } }
+  },
+
+  reset_circuit_breaker: async (data) => {
+    const apiKey = getCurrentApiKey()
+    if (!apiKey) {
+      return { error: NO_API_KEY_ERROR }
+    }
+    if (!resetCircuitBreaker(apiKey, data.group)) {
+      return { error: `No circuit breaker for endpoint group "${data.group}"` }
+    }
+    return { data: { reset: data.group } }
+  },
+})
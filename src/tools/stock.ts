@@ -15,25 +15,21 @@ import {
   pageSchema,
   timespanSchema,
   filterSchema,
+  sectorSchema,
+  intradayIntervalSchema,
+  priceSeriesIndicatorSchema,
+  seriesIndicatorSchema,
+  periodIndicatorSchema,
+  intervalIndicatorSchema,
+  indicatorIntervalSchema,
+  seriesTypeSchema,
+  indicatorMonthSchema,
+  tradeStanceSchema,
+  optionStanceTypeSchema,
 } from "../schemas/index.js"
 import { createToolHandler } from "./base/tool-factory.js"
 import { PathParamBuilder } from "../utils/path-params.js"
 
-// Sector enum reused across actions
-const sectorEnum = z.enum([
-  "Basic Materials",
-  "Communication Services",
-  "Consumer Cyclical",
-  "Consumer Defensive",
-  "Energy",
-  "Financial Services",
-  "Healthcare",
-  "Industrials",
-  "Real Estate",
-  "Technology",
-  "Utilities",
-])
-
 // Explicit per-action schemas
 const infoSchema = z.object({
   action_type: z.literal("info"),
@@ -300,11 +296,56 @@ const volatilityTermStructureSchema = z.object({
   date: dateSchema.optional(),
 })
 
+const volatilityAnomalySchema = z.object({
+  action_type: z.literal("volatility_anomaly"),
+  ticker: tickerSchema,
+  date: dateSchema.optional(),
+})
+
+const volatilityCharacterSchema = z.object({
+  action_type: z.literal("volatility_character"),
+  ticker: tickerSchema,
+  date: dateSchema.optional(),
+})
+
+const varianceRiskPremiumSchema = z.object({
+  action_type: z.literal("variance_risk_premium"),
+  ticker: tickerSchema,
+  date: dateSchema.optional(),
+})
+
 const stockStateSchema = z.object({
   action_type: z.literal("stock_state"),
   ticker: tickerSchema,
 })
 
+const quoteSchema = z.object({
+  action_type: z.literal("quote"),
+  ticker: tickerSchema,
+})
+
+const optionsPulseSchema = z.object({
+  action_type: z.literal("options_pulse"),
+  ticker: tickerSchema,
+  date: dateSchema.optional(),
+})
+
+const optionStanceSchema = z.object({
+  action_type: z.literal("option_stance"),
+  ticker: tickerSchema,
+  stance: tradeStanceSchema,
+  limit: z.number().int().min(1).max(100).describe("Maximum number of contracts to return (default 25, max 100)").optional(),
+  type: optionStanceTypeSchema.optional(),
+  option_symbol: z.string().describe("Score this single contract (e.g., NVDA270115P00275000) instead of ranking the chain").optional(),
+  date: dateSchema.optional(),
+})
+
+const gexLevelsSchema = z.object({
+  action_type: z.literal("gex_levels"),
+  ticker: tickerSchema,
+  date: dateSchema.optional(),
+})
+
 const insiderBuySellsSchema = z.object({
   action_type: z.literal("insider_buy_sells"),
   ticker: tickerSchema,
@@ -318,13 +359,81 @@ const ownershipSchema = z.object({
 
 const tickersBySectorSchema = z.object({
   action_type: z.literal("tickers_by_sector"),
-  sector: sectorEnum,
+  sector: sectorSchema,
 })
 
 const tickerExchangesSchema = z.object({
   action_type: z.literal("ticker_exchanges"),
 })
 
+// Technical indicator schemas, one per function family. Each is strict so parameters
+// the function does not take are rejected instead of surfacing as an API 422.
+const indicatorTimePeriodSchema = z.number().int().min(1).default(14)
+  .describe("Number of data points used to calculate each value (default 14)")
+
+const indicatorIntervalFields = {
+  action_type: z.literal("technical_indicator"),
+  ticker: tickerSchema,
+  interval: indicatorIntervalSchema.default("daily").optional(),
+  month: indicatorMonthSchema.optional(),
+}
+
+const monthMatchesInterval = (data: { interval?: string, month?: string }): boolean =>
+  data.month === undefined || intradayIntervalSchema.safeParse(data.interval).success
+
+const monthRequiresIntraday = {
+  message: "month is only supported with intraday intervals (1min, 5min, 15min, 30min, 60min)",
+  path: ["month"],
+}
+
+const priceSeriesIndicatorActionSchema = z.object({
+  ...indicatorIntervalFields,
+  function: priceSeriesIndicatorSchema,
+  time_period: indicatorTimePeriodSchema.optional(),
+  series_type: seriesTypeSchema.default("close").optional(),
+}).strict().refine(monthMatchesInterval, monthRequiresIntraday)
+
+const seriesIndicatorActionSchema = z.object({
+  ...indicatorIntervalFields,
+  function: seriesIndicatorSchema,
+  series_type: seriesTypeSchema.default("close").optional(),
+}).strict().refine(monthMatchesInterval, monthRequiresIntraday)
+
+const periodIndicatorActionSchema = z.object({
+  ...indicatorIntervalFields,
+  function: periodIndicatorSchema,
+  time_period: indicatorTimePeriodSchema.optional(),
+}).strict().refine(monthMatchesInterval, monthRequiresIntraday)
+
+const intervalIndicatorActionSchema = z.object({
+  ...indicatorIntervalFields,
+  function: intervalIndicatorSchema,
+}).strict().refine(monthMatchesInterval, monthRequiresIntraday)
+
+const vwapIndicatorActionSchema = z.object({
+  ...indicatorIntervalFields,
+  function: z.literal("VWAP").describe("Volume weighted average price (intraday intervals only)"),
+  interval: intradayIntervalSchema,
+}).strict()
+
+const technicalIndicatorSchema = z.discriminatedUnion("function", [
+  priceSeriesIndicatorActionSchema,
+  seriesIndicatorActionSchema,
+  periodIndicatorActionSchema,
+  intervalIndicatorActionSchema,
+  vwapIndicatorActionSchema,
+], {
+  error: (issue) => issue.code === "invalid_union"
+    ? `Unsupported technical indicator function. Supported: ${[
+      ...priceSeriesIndicatorSchema.options,
+      ...seriesIndicatorSchema.options,
+      ...periodIndicatorSchema.options,
+      ...intervalIndicatorSchema.options,
+      "VWAP",
+    ].join(", ")}`
+    : undefined,
+})
+
 // Discriminated union of all action schemas
 const stockInputSchema = z.discriminatedUnion("action_type", [
   infoSchema,
@@ -364,11 +473,19 @@ const stockInputSchema = z.discriminatedUnion("action_type", [
   volatilityRealizedSchema,
   volatilityStatsSchema,
   volatilityTermStructureSchema,
+  volatilityAnomalySchema,
+  volatilityCharacterSchema,
+  varianceRiskPremiumSchema,
   stockStateSchema,
+  quoteSchema,
+  optionsPulseSchema,
+  optionStanceSchema,
+  gexLevelsSchema,
   insiderBuySellsSchema,
   ownershipSchema,
   tickersBySectorSchema,
   tickerExchangesSchema,
+  technicalIndicatorSchema,
 ])
 
 export const stockTool = {
@@ -413,11 +530,26 @@ Available actions:
 - volatility_realized: Get realized volatility (ticker required; date, timeframe optional)
 - volatility_stats: Get volatility stats (ticker required; date optional)
 - volatility_term_structure: Get term structure (ticker required; date optional)
+- volatility_anomaly: Get the volatility anomaly score flagging unusually rich or cheap volatility, with history (ticker required; date optional)
+- volatility_character: Get volatility character (Hurst exponent, mean-reversion half-life, entropy) with history (ticker required; date optional)
+- variance_risk_premium: Get variance risk premium (implied vs realized variance) history (ticker required; date optional)
 - stock_state: Get stock state (ticker required)
+- quote: Get the latest trade, national best bid and ask, and quote statistics by session (ticker required)
+- options_pulse: Get Nasdaq Options Pulse sentiment, latest snapshot and intraday series (ticker required; date optional)
+- option_stance: Rank option contracts by how well they fit a trade stance, with a 0-5 fit score and explanation (ticker, stance required; limit, type, option_symbol, date optional)
+- gex_levels: Get key gamma exposure levels: call wall, put wall, gamma magnet, and gamma flip (ticker required; date optional)
 - insider_buy_sells: Get insider buy/sells for stock (ticker required; limit optional)
 - ownership: Get ownership data (ticker required; limit optional)
 - tickers_by_sector: Get tickers in sector (sector required)
-- ticker_exchanges: Get mapping of all tickers to their exchanges (no params required)`,
+- ticker_exchanges: Get mapping of all tickers to their exchanges (no params required)
+- technical_indicator: Get a technical indicator series (ticker, function required; interval, month, and time_period/series_type where the function takes them)
+
+Technical indicator functions and the parameters they take (all take interval and, for intraday intervals, month):
+- time_period, series_type: ${priceSeriesIndicatorSchema.options.join(", ")}
+- series_type: ${seriesIndicatorSchema.options.join(", ")}
+- time_period: ${periodIndicatorSchema.options.join(", ")}
+- interval only: ${intervalIndicatorSchema.options.join(", ")}
+- VWAP: intraday intervals only (interval required)`,
   inputSchema: toJsonSchema(stockInputSchema),
   zodInputSchema: stockInputSchema,
   annotations: {
@@ -763,6 +895,27 @@ export const handleStock = createToolHandler(stockInputSchema, {
     return uwFetch(path, { date: data.date })
   },
 
+  volatility_anomaly: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/volatility/anomaly")
+    return uwFetch(path, { date: data.date })
+  },
+
+  volatility_character: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/volatility/character")
+    return uwFetch(path, { date: data.date })
+  },
+
+  variance_risk_premium: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/volatility/variance-risk-premium")
+    return uwFetch(path, { date: data.date })
+  },
+
   stock_state: async (data) => {
     const path = new PathParamBuilder()
       .add("ticker", data.ticker)
@@ -770,6 +923,40 @@ export const handleStock = createToolHandler(stockInputSchema, {
     return uwFetch(path)
   },
 
+  quote: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/quote")
+    return uwFetch(path)
+  },
+
+  options_pulse: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/options-pulse")
+    return uwFetch(path, { date: data.date })
+  },
+
+  option_stance: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/option-stance")
+    return uwFetch(path, {
+      stance: data.stance,
+      limit: data.limit,
+      type: data.type,
+      option_symbol: data.option_symbol,
+      date: data.date,
+    })
+  },
+
+  gex_levels: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .build("/api/stock/{ticker}/gex-levels")
+    return uwFetch(path, { date: data.date })
+  },
+
   insider_buy_sells: async (data) => {
     const path = new PathParamBuilder()
       .add("ticker", data.ticker)
@@ -794,4 +981,17 @@ export const handleStock = createToolHandler(stockInputSchema, {
   ticker_exchanges: async () => {
     return uwFetch("/api/stock-directory/ticker-exchanges")
   },
+
+  technical_indicator: async (data) => {
+    const path = new PathParamBuilder()
+      .add("ticker", data.ticker)
+      .add("function", data.function)
+      .build("/api/stock/{ticker}/technical-indicator/{function}")
+    return uwFetch(path, {
+      interval: data.interval,
+      month: data.month,
+      time_period: "time_period" in data ? data.time_period : undefined,
+      series_type: "series_type" in data ? data.series_type : undefined,
+    })
+  },
 })
@@ -1,3 +1,15 @@
+/**
+ * Options for a single path parameter
+ */
+export interface PathParamOptions {
+  /**
+   * Accept "/", "\" and ".." inside free-text values such as investor names.
+   * They are percent-encoded and stay within one path segment; only "." and ".."
+   * on their own, which URL parsing would resolve as dot segments, are rejected.
+   */
+  allowPathChars?: boolean
+}
+
 /**
  * Path parameter builder with validation and encoding
  *
@@ -21,10 +33,11 @@ export class PathParamBuilder {
    * @param name - Parameter name (must match placeholder in template)
    * @param value - Parameter value (will be validated and encoded)
    * @param required - Whether this parameter is required (default: true)
+   * @param options - Validation options for the value
    * @returns This builder for chaining
    * @throws {Error} If required parameter is missing or value is invalid
    */
-  add(name: string, value: unknown, required: boolean = true): this {
+  add(name: string, value: unknown, required: boolean = true, options: PathParamOptions = {}): this {
     // Check if parameter is provided
     if (value === undefined || value === null) {
       if (required) {
@@ -37,7 +50,9 @@ export class PathParamBuilder {
     const str = String(value)
 
     // Validate: no path traversal attempts
-    if (str.includes("/") || str.includes("\\") || str.includes("..")) {
+    if (options.allowPathChars
+      ? str === "." || str === ".."
+      : str.includes("/") || str.includes("\\") || str.includes("..")) {
       throw new Error(`Invalid ${name}: contains path characters`)
     }
 
@@ -0,0 +1,13 @@
+/**
+ * Serialize a boolean query parameter so that false reaches the API.
+ *
+ * uwFetch drops false booleans, since for most flags false and absent mean the
+ * same thing. Use this for parameters where false selects something different
+ * from leaving the parameter out (e.g. include_spreads, whose API default is true).
+ *
+ * @param value - Boolean value, or undefined to leave the parameter out
+ * @returns "true" or "false", or undefined
+ */
+export function booleanParam(value: boolean | undefined): string | undefined {
+  return value === undefined ? undefined : String(value)
+}
@@ -0,0 +1,330 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js"
+import { startHttpServer, type HttpServerHandle } from "../../src/http-server.js"
+import { createServer } from "../../src/server.js"
+import { tools } from "../../src/tools/index.js"
+import { parseTokensFile } from "../../src/auth.js"
+import { responseCache } from "../../src/cache.js"
+
+describe("HTTP server", () => {
+  let httpServer: HttpServerHandle
+
+  beforeEach(async () => {
+    httpServer = await startHttpServer(
+      { host: "127.0.0.1", port: 0, sessionTimeoutMs: 60_000 },
+      createServer,
+    )
+  })
+
+  afterEach(async () => {
+    await httpServer.close()
+  })
+
+  it("reports health", async () => {
+    const response = await fetch(`${httpServer.url}/health`)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ status: "ok", sessions: 0 })
+  })
+
+  it("returns 404 for unknown paths", async () => {
+    const response = await fetch(`${httpServer.url}/unknown`)
+    expect(response.status).toBe(404)
+  })
+
+  it("rejects streamable requests without a session", async () => {
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    })
+    expect(response.status).toBe(400)
+    const body = await response.json()
+    expect(body.error.message).toContain("No valid session ID")
+  })
+
+  it("rejects unknown session IDs", async () => {
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "mcp-session-id": "does-not-exist",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    })
+    expect(response.status).toBe(404)
+  })
+
+  it("rejects invalid JSON bodies", async () => {
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{not json",
+    })
+    expect(response.status).toBe(400)
+    const body = await response.json()
+    expect(body.error.code).toBe(-32700)
+  })
+
+  it("closes the server when a streamable initialize is rejected", async () => {
+    const servers: ReturnType<typeof createServer>[] = []
+    const rejecting = await startHttpServer(
+      { host: "127.0.0.1", port: 0, sessionTimeoutMs: 60_000 },
+      () => {
+        const server = createServer()
+        vi.spyOn(server, "close")
+        servers.push(server)
+        return server
+      },
+    )
+
+    try {
+      // Streamable HTTP requires accepting both JSON and SSE responses
+      const response = await fetch(`${rejecting.url}/mcp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+        }),
+      })
+
+      expect(response.status).toBe(406)
+      expect(servers).toHaveLength(1)
+      expect(servers[0].close).toHaveBeenCalled()
+      expect(rejecting.sessionCount()).toBe(0)
+    } finally {
+      await rejecting.close()
+    }
+  })
+
+  it("serves MCP over streamable HTTP with session management", async () => {
+    const client = new Client({ name: "test-client", version: "1.0.0" })
+    const transport = new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`))
+    await client.connect(transport)
+
+    expect(transport.sessionId).toBeDefined()
+    expect(httpServer.sessionCount()).toBe(1)
+
+    const result = await client.listTools()
+    expect(result.tools).toHaveLength(tools.length)
+
+    await transport.terminateSession()
+    await client.close()
+    expect(httpServer.sessionCount()).toBe(0)
+  })
+
+  it("gives each client its own session", async () => {
+    const clientA = new Client({ name: "a", version: "1.0.0" })
+    const clientB = new Client({ name: "b", version: "1.0.0" })
+    const transportA = new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`))
+    const transportB = new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`))
+    await clientA.connect(transportA)
+    await clientB.connect(transportB)
+
+    expect(transportA.sessionId).not.toBe(transportB.sessionId)
+    expect(httpServer.sessionCount()).toBe(2)
+
+    await clientA.close()
+    await clientB.close()
+  })
+
+  it("serves MCP over the legacy SSE transport", async () => {
+    const client = new Client({ name: "sse-client", version: "1.0.0" })
+    const transport = new SSEClientTransport(new URL(`${httpServer.url}/sse`))
+    await client.connect(transport)
+
+    expect(httpServer.sessionCount()).toBe(1)
+
+    const result = await client.listPrompts()
+    expect(result.prompts.length).toBeGreaterThan(0)
+
+    await client.close()
+  })
+
+  it("closes open sessions on shutdown", async () => {
+    const client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`)))
+    expect(httpServer.sessionCount()).toBe(1)
+
+    await httpServer.close()
+    expect(httpServer.sessionCount()).toBe(0)
+
+    // Restart so afterEach can close cleanly
+    httpServer = await startHttpServer(
+      { host: "127.0.0.1", port: 0, sessionTimeoutMs: 60_000 },
+      createServer,
+    )
+    await client.close()
+  })
+})
+
+describe("HTTP session idle timeout", () => {
+  let httpServer: HttpServerHandle
+
+  beforeEach(async () => {
+    httpServer = await startHttpServer(
+      { host: "127.0.0.1", port: 0, sessionTimeoutMs: 50 },
+      createServer,
+    )
+  })
+
+  afterEach(async () => {
+    await httpServer.close()
+  })
+
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+  it("sweeps sessions with no open responses", async () => {
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "raw", version: "1.0.0" } },
+      }),
+    })
+    expect(response.status).toBe(200)
+    await response.text()
+    expect(httpServer.sessionCount()).toBe(1)
+
+    await wait(200)
+    expect(httpServer.sessionCount()).toBe(0)
+  })
+
+  it("keeps sessions with an open event stream", async () => {
+    const client = new Client({ name: "sse-client", version: "1.0.0" })
+    await client.connect(new SSEClientTransport(new URL(`${httpServer.url}/sse`)))
+
+    await wait(200)
+    expect(httpServer.sessionCount()).toBe(1)
+    const result = await client.listPrompts()
+    expect(result.prompts.length).toBeGreaterThan(0)
+
+    await client.close()
+  })
+})
+
+describe("HTTP server authentication", () => {
+  let httpServer: HttpServerHandle
+  const originalFetch = globalThis.fetch
+  const apiCalls: { url: string; authorization: string }[] = []
+
+  beforeEach(async () => {
+    apiCalls.length = 0
+    // Intercept Unusual Whales API calls while letting the MCP client reach the test server
+    vi.stubGlobal("fetch", (input: string | URL | Request, init?: RequestInit) => {
+      const url = String(input instanceof Request ? input.url : input)
+      if (url.startsWith("https://api.unusualwhales.com")) {
+        const headers = init?.headers as Record<string, string>
+        apiCalls.push({ url, authorization: headers.Authorization })
+        return Promise.resolve(new Response(JSON.stringify({ data: [] })))
+      }
+      return originalFetch(input, init)
+    })
+
+    httpServer = await startHttpServer(
+      { host: "127.0.0.1", port: 0, sessionTimeoutMs: 60_000 },
+      createServer,
+      {
+        mode: "tokens",
+        tokens: parseTokensFile(JSON.stringify({
+          "token-alice": { name: "alice", apiKey: "uw-key-alice" },
+          "token-bob": { name: "bob", apiKey: "uw-key-bob" },
+        })),
+      },
+    )
+  })
+
+  afterEach(async () => {
+    await httpServer.close()
+    vi.unstubAllGlobals()
+  })
+
+  function connect(token: string): { client: Client; transport: StreamableHTTPClientTransport } {
+    const client = new Client({ name: "test-client", version: "1.0.0" })
+    const transport = new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    })
+    return { client, transport }
+  }
+
+  it("leaves the health endpoint unauthenticated", async () => {
+    const response = await fetch(`${httpServer.url}/health`)
+    expect(response.status).toBe(200)
+  })
+
+  it("rejects requests without a bearer token", async () => {
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    })
+    expect(response.status).toBe(401)
+    expect(response.headers.get("www-authenticate")).toBe("Bearer")
+  })
+
+  it("rejects unknown bearer tokens", async () => {
+    const { client, transport } = connect("token-mallory")
+    await expect(client.connect(transport)).rejects.toThrow()
+    expect(httpServer.sessionCount()).toBe(0)
+  })
+
+  it("uses each client's mapped API key for tool calls", async () => {
+    const alice = connect("token-alice")
+    const bob = connect("token-bob")
+    await alice.client.connect(alice.transport)
+    await bob.client.connect(bob.transport)
+
+    await alice.client.callTool({ name: "uw_alerts", arguments: { action_type: "configurations" } })
+    await bob.client.callTool({ name: "uw_alerts", arguments: { action_type: "configurations" } })
+
+    expect(apiCalls.map((call) => call.authorization)).toEqual([
+      "Bearer uw-key-alice",
+      "Bearer uw-key-bob",
+    ])
+
+    await alice.client.close()
+    await bob.client.close()
+  })
+
+  it("returns cache status in tool result metadata", async () => {
+    responseCache.clear()
+    const alice = connect("token-alice")
+    await alice.client.connect(alice.transport)
+
+    const first = await alice.client.callTool({ name: "uw_stock", arguments: { action_type: "info", ticker: "AAPL" } })
+    const second = await alice.client.callTool({ name: "uw_stock", arguments: { action_type: "info", ticker: "AAPL" } })
+
+    expect(first._meta?.cache).toMatchObject({ hit: false, policy: "stock-info" })
+    expect(second._meta?.cache).toMatchObject({ hit: true, policy: "stock-info" })
+    expect(apiCalls).toHaveLength(1)
+
+    await alice.client.close()
+  })
+
+  it("rejects a session used with another client's token", async () => {
+    const alice = connect("token-alice")
+    await alice.client.connect(alice.transport)
+
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: "Bearer token-bob",
+        "mcp-session-id": alice.transport.sessionId as string,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    })
+    expect(response.status).toBe(403)
+
+    await alice.client.close()
+  })
+})
@@ -37,8 +37,8 @@ vi.mock("../../src/client.js", () => ({
 import { uwFetch } from "../../src/client.js"
 
 describe("Tool Registry", () => {
-  it("exports all 16 tools", () => {
-    expect(tools).toHaveLength(16)
+  it("exports all 27 tools", () => {
+    expect(tools).toHaveLength(27)
   })
 
   it("all tools have required properties", () => {
@@ -99,7 +99,18 @@ describe("Tool Names", () => {
     "uw_seasonality",
     "uw_news",
     "uw_alerts",
+    "uw_alert_configs",
     "uw_politicians",
+    "uw_predictions",
+    "uw_private_markets",
+    "uw_crypto",
+    "uw_futures",
+    "uw_macro",
+    "uw_company",
+    "uw_events",
+    "uw_analytics",
+    "uw_cache",
+    "uw_status",
   ]
 
   it("contains all expected tools", () => {
@@ -111,14 +122,33 @@ describe("Tool Names", () => {
 })
 
 describe("Tool Annotations", () => {
-  it("all tools have readOnlyHint annotation", () => {
-    for (const tool of tools) {
+  // Admin tools manage server state rather than reading market data
+  const adminTools = ["uw_cache", "uw_status"]
+  // Write tools change the user's account on Unusual Whales
+  const writeTools = ["uw_alert_configs"]
+
+  it("all data tools have readOnlyHint annotation", () => {
+    for (const tool of tools.filter((t) => !adminTools.includes(t.name) && !writeTools.includes(t.name))) {
       expect(tool.annotations?.readOnlyHint).toBe(true)
     }
   })
 
-  it("all tools have idempotentHint annotation", () => {
-    for (const tool of tools) {
+  it("admin tools are not read-only", () => {
+    for (const tool of tools.filter((t) => adminTools.includes(t.name))) {
+      expect(tool.annotations?.readOnlyHint).toBe(false)
+    }
+  })
+
+  it("write tools are destructive and not idempotent", () => {
+    for (const tool of tools.filter((t) => writeTools.includes(t.name))) {
+      expect(tool.annotations?.readOnlyHint).toBe(false)
+      expect(tool.annotations?.destructiveHint).toBe(true)
+      expect(tool.annotations?.idempotentHint).toBe(false)
+    }
+  })
+
+  it("all other tools have idempotentHint annotation", () => {
+    for (const tool of tools.filter((t) => !writeTools.includes(t.name))) {
       expect(tool.annotations?.idempotentHint).toBe(true)
     }
   })
@@ -0,0 +1,298 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import {
+  parseAlertQuery,
+  validateAlertQuery,
+  formatAlertQueryErrors,
+  normalizeAlertQueryGrammar,
+  getAlertQueryGrammar,
+  clearAlertQueryGrammarCache,
+  AlertQuerySyntaxError,
+} from "../../src/alert-query.js"
+
+vi.mock("../../src/client.js", () => ({
+  uwFetch: vi.fn(),
+}))
+
+import { uwFetch } from "../../src/client.js"
+
+// A grammar in the shape returned for a target, covering the fields in the spec examples
+const grammar = normalizeAlertQueryGrammar({
+  data: {
+    fields: [
+      { name: "strike", type: "number" },
+      { name: "spot", type: "number" },
+      { name: "iv", type: "number" },
+      { name: "dte", type: "integer" },
+      { name: "volume", type: "integer" },
+      { name: "premium", type: "number" },
+      { name: "ticker", type: "string" },
+    ],
+    flags: ["calls", "puts"],
+    functions: [
+      { name: "ln", args: ["x"] },
+      { name: "sqrt", args: ["x"] },
+      { name: "abs", args: ["x"] },
+    ],
+    operators: {
+      comparison: ["=", "!=", ">", ">=", "<", "<="],
+      arithmetic: ["+", "-", "*", "/"],
+      logical: ["and", "or", "not"],
+    },
+    scopes: ["@energy", "@technology"],
+  },
+})!
+
+describe("parseAlertQuery", () => {
+  it("parses a comparison of two fields", () => {
+    const query = parseAlertQuery("strike > spot")
+    expect(query.scopes).toEqual([])
+    expect(query.condition).toMatchObject({
+      kind: "binary",
+      operator: ">",
+      left: { kind: "field", name: "strike" },
+      right: { kind: "field", name: "spot" },
+    })
+  })
+
+  it("gives arithmetic precedence over comparison", () => {
+    const query = parseAlertQuery("ln(strike / spot) / (iv * sqrt(dte / 365)) > 2")
+    expect(query.condition).toMatchObject({
+      kind: "binary",
+      operator: ">",
+      left: {
+        kind: "binary",
+        operator: "/",
+        left: { kind: "call", name: "ln" },
+        right: { kind: "binary", operator: "*" },
+      },
+      right: { kind: "number", value: 2 },
+    })
+  })
+
+  it("parses add targets and a where condition", () => {
+    const query = parseAlertQuery("add @energy where calls and volume > 100")
+    expect(query.scopes).toEqual([{ name: "energy", position: 4 }])
+    expect(query.condition).toMatchObject({ kind: "binary", operator: "and" })
+  })
+
+  it("binds and tighter than or", () => {
+    const query = parseAlertQuery("calls or puts and volume > 100")
+    expect(query.condition).toMatchObject({
+      operator: "or",
+      right: { operator: "and" },
+    })
+  })
+
+  it("parses tickers, string literals, and in lists", () => {
+    const query = parseAlertQuery("add AAPL, TSLA where ticker not in ('XOM', 'O''Reilly')")
+    expect(query.tickers.map((t) => t.name)).toEqual(["AAPL", "TSLA"])
+    expect(query.condition).toMatchObject({
+      kind: "in",
+      negated: true,
+      values: [{ value: "XOM" }, { value: "O'Reilly" }],
+    })
+  })
+
+  it("reports the position of syntax errors", () => {
+    expect(() => parseAlertQuery("volume > ")).toThrow(AlertQuerySyntaxError)
+    try {
+      parseAlertQuery("volume > 100 premium")
+    } catch (error) {
+      expect(error).toBeInstanceOf(AlertQuerySyntaxError)
+      expect((error as AlertQuerySyntaxError).position).toBe(13)
+      expect((error as Error).message).toBe("Expected end of expression but found 'premium'")
+    }
+  })
+
+  it("rejects unterminated strings and unknown characters", () => {
+    expect(() => parseAlertQuery("ticker = 'XOM")).toThrow("Unterminated string")
+    expect(() => parseAlertQuery("volume > 100 & calls")).toThrow("Unexpected character '&'")
+  })
+
+  it("requires a target after add", () => {
+    expect(() => parseAlertQuery("add where calls")).toThrow("Expected a scope (e.g., @energy) or ticker after 'add'")
+  })
+})
+
+describe("validateAlertQuery", () => {
+  it.each([
+    "strike > spot",
+    "ln(strike / spot) / (iv * sqrt(dte / 365)) > 2",
+    "add @energy where calls and volume > 100",
+    "add @energy where calls and volume > 100 and (dte > 10 or (dte = 0 and ticker = 'XOM'))",
+    "where calls and volume > 100 and premium > 10000",
+    "@Energy where calls and volume > 100",
+  ])("accepts the spec example %s", (input) => {
+    expect(validateAlertQuery(input, grammar)).toEqual([])
+  })
+
+  it("reports unknown fields with a suggestion", () => {
+    expect(validateAlertQuery("where calls and volumee > 100", grammar)).toEqual([
+      { message: "Unknown field 'volumee' (did you mean 'volume'?)", position: 16 },
+    ])
+  })
+
+  it("reports unknown functions and wrong argument counts", () => {
+    expect(validateAlertQuery("log(strike) > 1 and sqrt(dte, 365) > 1", grammar)).toEqual([
+      { message: "Unknown function 'log' (did you mean 'ln'?)", position: 0 },
+      { message: "sqrt takes 1 argument but was given 2", position: 20 },
+    ])
+  })
+
+  it("reports unknown scopes", () => {
+    expect(validateAlertQuery("add @enrgy where calls", grammar)).toEqual([
+      { message: "Unknown scope '@enrgy' (did you mean '@energy'?)", position: 4 },
+    ])
+  })
+
+  it("reports operators the grammar does not list", () => {
+    expect(validateAlertQuery("volume % 2 = 0", grammar)).toEqual([
+      { message: "Operator '%' is not supported", position: 7 },
+    ])
+  })
+
+  it("type checks comparisons, arithmetic, and conditions", () => {
+    expect(validateAlertQuery("ticker > 5", grammar)).toEqual([
+      { message: "'>' needs a number, but field 'ticker' is a string", position: 0 },
+    ])
+    expect(validateAlertQuery("ticker = 5", grammar)).toEqual([
+      { message: "'=' compares field 'ticker' (string) with 5 (number)", position: 9 },
+    ])
+    expect(validateAlertQuery("calls and volume", grammar)).toEqual([
+      { message: "'and' needs a boolean, but field 'volume' is a number", position: 10 },
+    ])
+    expect(validateAlertQuery("strike / spot", grammar)).toEqual([
+      { message: "a where condition needs a boolean, but this expression is a number", position: 7 },
+    ])
+  })
+
+  it("collects every error in order of position", () => {
+    const errors = validateAlertQuery("stryke > 1 and ticker > 'A' and voume > 2", grammar)
+    expect(errors.map((e) => e.position)).toEqual([0, 15, 24, 32])
+  })
+
+  it("returns only the syntax error when the expression does not parse", () => {
+    expect(validateAlertQuery("volume > > 1", grammar)).toEqual([
+      { message: "Expected a value but found '>'", position: 9 },
+    ])
+  })
+
+  it("checks only syntax against a grammar without fields", () => {
+    const syntaxOnly = { fields: new Map(), functions: new Map(), operators: new Set<string>(), scopes: new Set<string>() }
+    expect(validateAlertQuery("anything > 1 and whatever", syntaxOnly)).toEqual([])
+  })
+})
+
+describe("formatAlertQueryErrors", () => {
+  it("formats errors with a 1-based column and the text at it", () => {
+    const input = "where calls and volumee > 100"
+    expect(formatAlertQueryErrors(input, validateAlertQuery(input, grammar)))
+      .toBe("column 17 near 'volumee': Unknown field 'volumee' (did you mean 'volume'?)")
+  })
+})
+
+describe("normalizeAlertQueryGrammar", () => {
+  it("reads sections keyed by name", () => {
+    const result = normalizeAlertQueryGrammar({
+      fields: { Volume: { type: "integer" }, sector: "string", note: "Free text" },
+      functions: { sqrt: "sqrt(x)", max: { arity: 2 }, now: {} },
+      operators: [{ name: "equals", symbol: "==" }, { symbol: "<>" }, "in"],
+      scopes: { "@Energy": "Energy sector" },
+    })!
+
+    expect(result.fields).toEqual(new Map([["volume", "number"], ["sector", "string"], ["note", "unknown"]]))
+    expect(result.functions).toEqual(new Map([["sqrt", 1], ["max", 2], ["now", undefined]]))
+    expect(result.operators).toEqual(new Set(["=", "!="]))
+    expect(result.scopes).toEqual(new Set(["energy"]))
+  })
+
+  it("returns undefined for unrecognized responses", () => {
+    expect(normalizeAlertQueryGrammar("not a grammar")).toBeUndefined()
+  })
+
+  it("returns undefined without fields, as for the overview", () => {
+    expect(normalizeAlertQueryGrammar({ targets: ["flow_alert"] })).toBeUndefined()
+    expect(normalizeAlertQueryGrammar({ fields: [] })).toBeUndefined()
+  })
+
+  it("returns undefined when a field is in an unrecognized form", () => {
+    expect(normalizeAlertQueryGrammar({
+      fields: [{ name: "volume", type: "integer" }, { column: "premium", type: "number" }],
+    })).toBeUndefined()
+  })
+
+  it("returns undefined when flags are in an unrecognized form", () => {
+    expect(normalizeAlertQueryGrammar({ fields: ["volume"], flags: [{ key: "calls" }] })).toBeUndefined()
+  })
+
+  it("leaves optional sections in an unrecognized form unchecked", () => {
+    const result = normalizeAlertQueryGrammar({
+      fields: ["volume"],
+      functions: [{ fn: "sqrt" }],
+      operators: { comparison: [">", { label: "at least" }] },
+      scopes: "energy",
+    })!
+
+    expect(result.functions.size).toBe(0)
+    expect(result.operators.size).toBe(0)
+    expect(result.scopes.size).toBe(0)
+    expect(validateAlertQuery("add @energy where sqrt(volume) >= 1", result)).toEqual([])
+  })
+})
+
+describe("getAlertQueryGrammar", () => {
+  const mockUwFetch = uwFetch as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearAlertQueryGrammarCache()
+    mockUwFetch.mockResolvedValue({ data: { data: { fields: { volume: "integer" } } } })
+  })
+
+  it("fetches the grammar for a target once", async () => {
+    const first = await getAlertQueryGrammar("option_trade")
+    const second = await getAlertQueryGrammar("option_trade")
+
+    expect(mockUwFetch).toHaveBeenCalledTimes(1)
+    expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/query/grammar", { target: "option_trade" })
+    expect(second).toBe(first)
+    expect(first?.fields.get("volume")).toBe("number")
+  })
+
+  it("caches each target separately", async () => {
+    await getAlertQueryGrammar("option_trade")
+    await getAlertQueryGrammar("flow_alert")
+    await getAlertQueryGrammar()
+
+    expect(mockUwFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it("fetches again after an hour", async () => {
+    vi.useFakeTimers()
+    try {
+      await getAlertQueryGrammar("news")
+      vi.advanceTimersByTime(60 * 60 * 1000 + 1)
+      await getAlertQueryGrammar("news")
+    } finally {
+      vi.useRealTimers()
+    }
+
+    expect(mockUwFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("returns undefined for a grammar it cannot read, and caches that", async () => {
+    mockUwFetch.mockResolvedValue({ data: { data: { rules: [{ kind: "field", id: "volume" }] } } })
+
+    expect(await getAlertQueryGrammar("news")).toBeUndefined()
+    expect(await getAlertQueryGrammar("news")).toBeUndefined()
+    expect(mockUwFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("returns undefined and does not cache errors", async () => {
+    mockUwFetch.mockResolvedValueOnce({ error: "API error (500): boom" })
+
+    expect(await getAlertQueryGrammar("news")).toBeUndefined()
+    expect(await getAlertQueryGrammar("news")).toBeDefined()
+    expect(mockUwFetch).toHaveBeenCalledTimes(2)
+  })
+})
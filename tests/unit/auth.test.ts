@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import type { IncomingMessage } from "node:http"
+import {
+  parseTokensFile,
+  loadAuthConfig,
+  authenticateRequest,
+  AuthenticationError,
+} from "../../src/auth.js"
+
+function request(authorization?: string): IncomingMessage {
+  return { headers: authorization ? { authorization } : {} } as IncomingMessage
+}
+
+describe("parseTokensFile", () => {
+  it("accepts string and object entries", () => {
+    const tokens = parseTokensFile(JSON.stringify({
+      "token-a": { name: "alice", apiKey: "uw-a" },
+      "token-b": "uw-b",
+    }))
+    const entries = [...tokens.values()]
+    expect(entries).toEqual([
+      { clientId: "alice", apiKey: "uw-a" },
+      { clientId: "client-2", apiKey: "uw-b" },
+    ])
+  })
+
+  it("does not store raw tokens", () => {
+    const tokens = parseTokensFile(JSON.stringify({ "secret-token": "uw-a" }))
+    expect(tokens.has("secret-token")).toBe(false)
+  })
+
+  it("throws on invalid JSON", () => {
+    expect(() => parseTokensFile("{")).toThrow("not valid JSON")
+  })
+
+  it("throws on non-object JSON", () => {
+    expect(() => parseTokensFile("[]")).toThrow("must be a JSON object")
+  })
+
+  it("throws on entries without an API key", () => {
+    expect(() => parseTokensFile(JSON.stringify({ "token-a": { name: "alice" } }))).toThrow(
+      "entry 1 is missing an apiKey",
+    )
+  })
+
+  it("throws when no tokens are defined", () => {
+    expect(() => parseTokensFile("{}")).toThrow("does not define any tokens")
+  })
+})
+
+describe("loadAuthConfig", () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "uw-auth-"))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("defaults to no authentication", () => {
+    expect(loadAuthConfig({}).mode).toBe("none")
+  })
+
+  it("supports passthrough mode", () => {
+    expect(loadAuthConfig({ UW_HTTP_AUTH: "passthrough" }).mode).toBe("passthrough")
+  })
+
+  it("loads tokens from file", () => {
+    const file = join(dir, "tokens.json")
+    writeFileSync(file, JSON.stringify({ "token-a": "uw-a" }))
+    const config = loadAuthConfig({ UW_HTTP_AUTH: "tokens", UW_HTTP_AUTH_TOKENS_FILE: file })
+    expect(config.mode).toBe("tokens")
+    expect(config.tokens.size).toBe(1)
+  })
+
+  it("requires a tokens file in tokens mode", () => {
+    expect(() => loadAuthConfig({ UW_HTTP_AUTH: "tokens" })).toThrow("UW_HTTP_AUTH_TOKENS_FILE")
+  })
+
+  it("throws on unknown mode", () => {
+    expect(() => loadAuthConfig({ UW_HTTP_AUTH: "oauth" })).toThrow("Invalid UW_HTTP_AUTH")
+  })
+})
+
+describe("authenticateRequest", () => {
+  const tokensConfig = {
+    mode: "tokens" as const,
+    tokens: parseTokensFile(JSON.stringify({ "token-a": { name: "alice", apiKey: "uw-a" } })),
+  }
+
+  it("returns undefined when auth is disabled", () => {
+    expect(authenticateRequest(request(), { mode: "none", tokens: new Map() })).toBeUndefined()
+  })
+
+  it("maps a known token to its API key", () => {
+    const auth = authenticateRequest(request("Bearer token-a"), tokensConfig)
+    expect(auth?.clientId).toBe("alice")
+    expect(auth?.extra?.apiKey).toBe("uw-a")
+  })
+
+  it("accepts a case-insensitive Bearer scheme", () => {
+    expect(authenticateRequest(request("bearer token-a"), tokensConfig)?.clientId).toBe("alice")
+  })
+
+  it("rejects missing tokens", () => {
+    expect(() => authenticateRequest(request(), tokensConfig)).toThrow(AuthenticationError)
+    expect(() => authenticateRequest(request("Basic abc"), tokensConfig)).toThrow("Missing bearer token")
+  })
+
+  it("rejects unknown tokens", () => {
+    expect(() => authenticateRequest(request("Bearer nope"), tokensConfig)).toThrow("Invalid bearer token")
+  })
+
+  it("uses the bearer token as the API key in passthrough mode", () => {
+    const auth = authenticateRequest(request("Bearer my-uw-key"), { mode: "passthrough", tokens: new Map() })
+    expect(auth?.extra?.apiKey).toBe("my-uw-key")
+    expect(auth?.clientId).toMatch(/^key-[0-9a-f]{8}$/)
+    expect(auth?.clientId).not.toContain("my-uw-key")
+  })
+})
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import {
+  ResponseCache,
+  buildCacheKey,
+  getCachePolicy,
+  getCacheScope,
+  toCacheInfo,
+  type CachePolicy,
+} from "../../src/cache.js"
+
+const policy: CachePolicy = { name: "test", pattern: /^/, ttlMs: 10_000 }
+
+describe("getCachePolicy", () => {
+  it("caches stock info for hours", () => {
+    expect(getCachePolicy("/api/stock/AAPL/info").ttlMs).toBe(6 * 60 * 60 * 1000)
+  })
+
+  it("caches flow alerts for seconds", () => {
+    expect(getCachePolicy("/api/option-trades/flow-alerts").ttlMs).toBe(15_000)
+  })
+
+  it("caches institutions for a day", () => {
+    expect(getCachePolicy("/api/institutions").name).toBe("institutions")
+    expect(getCachePolicy("/api/institution/VANGUARD/holdings").name).toBe("institutions")
+    expect(getCachePolicy("/api/institutions").ttlMs).toBe(24 * 60 * 60 * 1000)
+  })
+
+  it("does not cache alerts", () => {
+    expect(getCachePolicy("/api/alerts").ttlMs).toBe(0)
+    expect(getCachePolicy("/api/alerts/configuration").ttlMs).toBe(0)
+  })
+
+  it("distinguishes earnings schedules from earnings history", () => {
+    expect(getCachePolicy("/api/earnings/premarket").name).toBe("earnings-schedule")
+    expect(getCachePolicy("/api/earnings/AAPL").name).toBe("earnings-history")
+  })
+
+  it("falls back to the default policy", () => {
+    expect(getCachePolicy("/api/market/market-tide").name).toBe("default")
+  })
+
+  it("ignores query strings", () => {
+    expect(getCachePolicy("/api/stock/AAPL/info?foo=bar").name).toBe("stock-info")
+  })
+})
+
+describe("buildCacheKey", () => {
+  it("returns the endpoint when there are no params", () => {
+    expect(buildCacheKey("/api/test")).toBe("/api/test")
+    expect(buildCacheKey("/api/test", {})).toBe("/api/test")
+  })
+
+  it("sorts params by name", () => {
+    expect(buildCacheKey("/api/test", { b: 2, a: 1 })).toBe("/api/test?a=1&b=2")
+  })
+
+  it("drops empty values the same way uwFetch does", () => {
+    expect(buildCacheKey("/api/test", { a: undefined, b: null, c: "", d: false, e: true })).toBe(
+      "/api/test?e=true",
+    )
+  })
+
+  it("normalizes array order", () => {
+    expect(buildCacheKey("/api/test", { "issue_types[]": ["b", "a"] })).toBe(
+      buildCacheKey("/api/test", { "issue_types[]": ["a", "b"] }),
+    )
+  })
+
+  it("encodes special characters", () => {
+    expect(buildCacheKey("/api/test", { q: "a&b=c" })).toBe("/api/test?q=a%26b%3Dc")
+  })
+})
+
+describe("getCacheScope", () => {
+  it("is a full SHA-256 digest of the API key", () => {
+    expect(getCacheScope("key-a")).toMatch(/^[0-9a-f]{64}$/)
+    expect(getCacheScope("key-a")).toBe(getCacheScope("key-a"))
+    expect(getCacheScope("key-a")).not.toBe(getCacheScope("key-b"))
+  })
+})
+
+describe("ResponseCache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("returns stored entries until they expire", () => {
+    const cache = new ResponseCache()
+    cache.set("key", { value: 1 }, policy)
+
+    expect(cache.get("key")?.data).toEqual({ value: 1 })
+    vi.advanceTimersByTime(10_000)
+    expect(cache.get("key")).toBeUndefined()
+  })
+
+  it("tracks hits and misses", () => {
+    const cache = new ResponseCache()
+    cache.get("key")
+    cache.set("key", 1, policy)
+    cache.get("key")
+    cache.get("key")
+
+    expect(cache.getStats()).toMatchObject({ hits: 2, misses: 1, hitRate: 0.667, entries: 1 })
+
+    cache.resetStats()
+    expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0, hitRate: 0 })
+  })
+
+  it("does not store entries with a zero TTL", () => {
+    const cache = new ResponseCache()
+    expect(cache.set("key", 1, { ...policy, ttlMs: 0 })).toBeUndefined()
+    expect(cache.get("key")).toBeUndefined()
+  })
+
+  it("does nothing when disabled", () => {
+    const cache = new ResponseCache(10, false)
+    cache.set("key", 1, policy)
+    expect(cache.get("key")).toBeUndefined()
+    expect(cache.getStats().enabled).toBe(false)
+  })
+
+  it("evicts the least recently used entry when full", () => {
+    const cache = new ResponseCache(2)
+    cache.set("a", 1, policy)
+    cache.set("b", 2, policy)
+    cache.get("a")
+    cache.set("c", 3, policy)
+
+    expect(cache.get("a")).toBeDefined()
+    expect(cache.get("b")).toBeUndefined()
+    expect(cache.get("c")).toBeDefined()
+  })
+
+  it("keeps entries from different scopes apart", () => {
+    const cache = new ResponseCache()
+    cache.set("/api/stock/AAPL/info", "a", policy, "scope-a")
+
+    expect(cache.get("/api/stock/AAPL/info", "scope-a")?.data).toBe("a")
+    expect(cache.get("/api/stock/AAPL/info", "scope-b")).toBeUndefined()
+    expect(cache.get("/api/stock/AAPL/info")).toBeUndefined()
+
+    cache.set("/api/stock/AAPL/info", "b", policy, "scope-b")
+    expect(cache.get("/api/stock/AAPL/info", "scope-a")?.data).toBe("a")
+    expect(cache.list().map((e) => e.scope).sort()).toEqual(["scope-a", "scope-b"])
+  })
+
+  it("lists, counts, and clears entries of one scope", () => {
+    const cache = new ResponseCache()
+    cache.set("/api/stock/AAPL/info", "a", policy, "scope-a")
+    cache.set("/api/stock/MSFT/info", "a", policy, "scope-a")
+    cache.set("/api/stock/AAPL/info", "b", policy, "scope-b")
+
+    expect(cache.list("scope-b").map((e) => e.key)).toEqual(["/api/stock/AAPL/info"])
+    expect(cache.getStats("scope-a").entries).toBe(2)
+    expect(cache.clear("/api/stock/AAPL", "scope-a")).toBe(1)
+    expect(cache.clear(undefined, "scope-b")).toBe(1)
+    expect(cache.list().map((e) => e.key)).toEqual(["/api/stock/MSFT/info"])
+  })
+
+  it("clears all entries or those matching a prefix", () => {
+    const cache = new ResponseCache()
+    cache.set("/api/stock/AAPL/info", 1, policy)
+    cache.set("/api/stock/MSFT/info", 2, policy)
+    cache.set("/api/market/market-tide", 3, policy)
+
+    cache.set("/api/stock/AAPL/info", 4, policy, "scope-a")
+
+    expect(cache.clear("/api/stock/")).toBe(3)
+    expect(cache.list().map((e) => e.key)).toEqual(["/api/market/market-tide"])
+    expect(cache.clear()).toBe(1)
+    expect(cache.list()).toEqual([])
+  })
+
+  it("prunes expired entries when listing", () => {
+    const cache = new ResponseCache()
+    cache.set("short", 1, { ...policy, ttlMs: 1000 })
+    cache.set("long", 2, policy)
+    vi.advanceTimersByTime(1000)
+
+    expect(cache.list().map((e) => e.key)).toEqual(["long"])
+  })
+})
+
+describe("toCacheInfo", () => {
+  it("reports age and TTL in seconds", () => {
+    vi.useFakeTimers()
+    const cache = new ResponseCache()
+    const entry = cache.set("key", 1, policy)!
+    vi.advanceTimersByTime(3500)
+
+    expect(toCacheInfo(entry, true)).toEqual({ hit: true, policy: "test", age_seconds: 3, ttl_seconds: 10 })
+    vi.useRealTimers()
+  })
+})
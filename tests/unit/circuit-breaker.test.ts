@@ -286,4 +286,25 @@ describe("CircuitBreaker", () => {
       expect(status.nextAttemptTime).toBeNull()
     })
   })
+  describe("reset", () => {
+    it("should close an open circuit", async () => {
+      const failFn = vi.fn().mockRejectedValue(new Error("failure"))
+      const successFn = vi.fn().mockResolvedValue("success")
+
+      // Open circuit
+      for (let i = 0; i < 3; i++) {
+        await expect(circuitBreaker.execute(failFn)).rejects.toThrow("failure")
+      }
+
+      circuitBreaker.reset()
+
+      expect(circuitBreaker.getStatus()).toEqual({
+        state: CircuitState.CLOSED,
+        failures: 0,
+        successes: 0,
+        nextAttemptTime: null,
+      })
+      await expect(circuitBreaker.execute(successFn)).resolves.toBe("success")
+    })
+  })
 })
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
-import { encodePath, formatResponse, formatError, uwFetch } from "../../src/client.js"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { encodePath, formatResponse, formatError, parseRetryAfter, uwFetch } from "../../src/client.js"
+import { runWithRequestContext } from "../../src/request-context.js"
+import { responseCache } from "../../src/cache.js"
 
 describe("encodePath", () => {
   it("returns the same value for simple tickers", () => {
@@ -52,6 +57,30 @@ describe("encodePath", () => {
   })
 })
 
+describe("parseRetryAfter", () => {
+  it("parses delays in seconds", () => {
+    expect(parseRetryAfter("5")).toBe(5000)
+    expect(parseRetryAfter("0")).toBe(0)
+  })
+
+  it("parses HTTP dates", () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date("2024-03-14T15:00:00Z"))
+    try {
+      expect(parseRetryAfter("Thu, 14 Mar 2024 15:00:30 GMT")).toBe(30_000)
+      expect(parseRetryAfter("Thu, 14 Mar 2024 14:00:00 GMT")).toBe(0)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it("returns undefined for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter("")).toBeUndefined()
+    expect(parseRetryAfter("soon")).toBeUndefined()
+  })
+})
+
 describe("formatResponse", () => {
   it("returns formatted error JSON when error exists", () => {
     const result = { error: "Something went wrong" }
@@ -115,6 +144,7 @@ describe("uwFetch", () => {
   beforeEach(() => {
     process.env = { ...originalEnv }
     vi.stubGlobal("fetch", vi.fn())
+    responseCache.clear()
   })
 
   afterEach(() => {
@@ -151,6 +181,35 @@ describe("uwFetch", () => {
     )
   })
 
+  it("sends POST requests with a JSON body", async () => {
+    process.env.UW_API_KEY = "test-api-key"
+
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      text: () => Promise.resolve('{"data": {"id": "abc"}}'),
+    })
+    vi.stubGlobal("fetch", mockFetch)
+
+    const result = await uwFetch("/api/alerts/configuration", undefined, {
+      method: "POST",
+      body: { name: "FED news", noti_type: "news" },
+    })
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining("/api/alerts/configuration"),
+      expect.objectContaining({
+        method: "POST",
+        headers: {
+          Authorization: "Bearer test-api-key",
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+        body: '{"name":"FED news","noti_type":"news"}',
+      }),
+    )
+    expect(result).toEqual({ data: { data: { id: "abc" } } })
+  })
+
   it("returns parsed JSON data on successful response", async () => {
     process.env.UW_API_KEY = "test-api-key"
 
@@ -161,7 +220,7 @@ describe("uwFetch", () => {
     }))
 
     const result = await uwFetch("/api/test")
-    expect(result).toEqual({ data: mockResponse })
+    expect(result).toEqual({ data: mockResponse, cache: expect.objectContaining({ hit: false }) })
   })
 
   it("returns empty object for empty response", async () => {
@@ -173,7 +232,7 @@ describe("uwFetch", () => {
     }))
 
     const result = await uwFetch("/api/test")
-    expect(result).toEqual({ data: {} })
+    expect(result).toEqual({ data: {}, cache: expect.objectContaining({ hit: false }) })
   })
 
   it("returns error for invalid JSON response", async () => {
@@ -292,7 +351,7 @@ describe("uwFetch", () => {
     vi.stubGlobal("fetch", mockFetch)
 
     const result = await uwFetch("/api/test")
-    expect(result).toEqual({ data: { success: true } })
+    expect(result).toEqual({ data: { success: true }, cache: expect.objectContaining({ hit: false }) })
     expect(mockFetch).toHaveBeenCalledTimes(2)
   })
 
@@ -325,7 +384,7 @@ describe("uwFetch", () => {
     vi.stubGlobal("fetch", mockFetch)
 
     const result = await uwFetch("/api/test")
-    expect(result).toEqual({ data: { recovered: true } })
+    expect(result).toEqual({ data: { recovered: true }, cache: expect.objectContaining({ hit: false }) })
     expect(mockFetch).toHaveBeenCalledTimes(2)
   })
 
@@ -404,3 +463,699 @@ describe("uwFetch", () => {
     expect(calledUrl).not.toContain("invalid")
   })
 })
+
+describe("uwFetch with per-client API keys", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    responseCache.clear()
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    vi.unstubAllGlobals()
+    vi.resetModules()
+  })
+
+  it("uses the API key from the request context", async () => {
+    process.env.UW_API_KEY = "env-api-key"
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve("{}") })
+    vi.stubGlobal("fetch", mockFetch)
+
+    await runWithRequestContext({ apiKey: "client-api-key" }, () => uwFetch("/api/test"))
+
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe("Bearer client-api-key")
+  })
+
+  it("falls back to UW_API_KEY outside a request context", async () => {
+    process.env.UW_API_KEY = "env-api-key"
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve("{}") })
+    vi.stubGlobal("fetch", mockFetch)
+
+    await runWithRequestContext({}, () => uwFetch("/api/test"))
+
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe("Bearer env-api-key")
+  })
+
+  it("works without UW_API_KEY when the request context has a key", async () => {
+    delete process.env.UW_API_KEY
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve("{}") }))
+
+    const result = await runWithRequestContext({ apiKey: "client-api-key" }, () => uwFetch("/api/test"))
+
+    expect(result).toEqual({ data: {}, cache: expect.objectContaining({ hit: false }) })
+  })
+
+  it("rate limits each API key independently", async () => {
+    process.env.UW_RATE_LIMIT_PER_MINUTE = "1"
+    process.env.UW_RATE_LIMIT_QUEUE_SIZE = "0"
+    vi.resetModules()
+    const client = await import("../../src/client.js")
+    const context = await import("../../src/request-context.js")
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve("{}") }))
+
+    // Alerts are never cached, so every call reaches the rate limiter
+    const first = await context.runWithRequestContext({ apiKey: "key-a" }, () => client.uwFetch("/api/alerts"))
+    const second = await context.runWithRequestContext({ apiKey: "key-a" }, () => client.uwFetch("/api/alerts"))
+    const other = await context.runWithRequestContext({ apiKey: "key-b" }, () => client.uwFetch("/api/alerts"))
+
+    expect(first.error).toBeUndefined()
+    expect(second.error).toContain("Rate limit exceeded")
+    expect(other.error).toBeUndefined()
+  })
+
+  it("drops the guards of API keys that have gone idle", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    try {
+      vi.resetModules()
+      const client = await import("../../src/client.js")
+      const context = await import("../../src/request-context.js")
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve("{}") }))
+
+      await context.runWithRequestContext({ apiKey: "key-a" }, () => client.uwFetch("/api/alerts"))
+      await context.runWithRequestContext({ apiKey: "key-b" }, () => client.uwFetch("/api/alerts"))
+      expect(client.getCircuitBreakerStatuses("key-a")).toHaveLength(1)
+
+      vi.advanceTimersByTime(10 * 60_000)
+      await context.runWithRequestContext({ apiKey: "key-b" }, () => client.uwFetch("/api/alerts"))
+      expect(client.getCircuitBreakerStatuses("key-a")).toHaveLength(1)
+
+      vi.advanceTimersByTime(10 * 60_000)
+      await context.runWithRequestContext({ apiKey: "key-b" }, () => client.uwFetch("/api/alerts"))
+      expect(client.getCircuitBreakerStatuses("key-a")).toEqual([])
+      expect(client.getCircuitBreakerStatuses("key-b")).toHaveLength(1)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
+
+describe("uwFetch response cache", () => {
+  const originalEnv = process.env
+  let mockFetch: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, UW_API_KEY: "test-api-key" }
+    responseCache.clear()
+    mockFetch = vi.fn().mockImplementation(() =>
+      Promise.resolve({ ok: true, text: () => Promise.resolve('{"data": [1, 2, 3]}') }),
+    )
+    vi.stubGlobal("fetch", mockFetch)
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    vi.unstubAllGlobals()
+  })
+
+  it("serves repeated requests from the cache", async () => {
+    const first = await uwFetch("/api/stock/AAPL/info")
+    const second = await uwFetch("/api/stock/AAPL/info")
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(second.data).toEqual(first.data)
+    expect(first.cache).toMatchObject({ hit: false, policy: "stock-info", ttl_seconds: 21600 })
+    expect(second.cache).toMatchObject({ hit: true, policy: "stock-info", age_seconds: 0 })
+  })
+
+  it("treats equivalent parameters as the same request", async () => {
+    await uwFetch("/api/screener/stocks", { ticker: "AAPL", limit: 10, page: undefined })
+    await uwFetch("/api/screener/stocks", { limit: 10, ticker: "AAPL", is_s_p_500: false })
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("fetches again when parameters differ", async () => {
+    await uwFetch("/api/screener/stocks", { limit: 10 })
+    await uwFetch("/api/screener/stocks", { limit: 20 })
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("expires entries after the policy TTL", async () => {
+    vi.useFakeTimers()
+    try {
+      await uwFetch("/api/option-trades/flow-alerts")
+      vi.advanceTimersByTime(16_000)
+      await uwFetch("/api/option-trades/flow-alerts")
+    } finally {
+      vi.useRealTimers()
+    }
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not share cached responses between API keys", async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve('{"data": "for key-a"}') })
+      .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve('{"data": "for key-b"}') })
+
+    const first = await runWithRequestContext({ apiKey: "key-a" }, () => uwFetch("/api/stock/AAPL/info"))
+    const other = await runWithRequestContext({ apiKey: "key-b" }, () => uwFetch("/api/stock/AAPL/info"))
+    const repeat = await runWithRequestContext({ apiKey: "key-a" }, () => uwFetch("/api/stock/AAPL/info"))
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(mockFetch.mock.calls[1][1].headers.Authorization).toBe("Bearer key-b")
+    expect(other.data).toEqual({ data: "for key-b" })
+    expect(other.cache).toMatchObject({ hit: false })
+    expect(repeat.data).toEqual({ data: "for key-a" })
+    expect(repeat.cache).toMatchObject({ hit: true })
+    expect(first.data).toEqual(repeat.data)
+  })
+
+  it("does not cache account-specific endpoints", async () => {
+    const result = await uwFetch("/api/alerts")
+    await uwFetch("/api/alerts")
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(result.cache).toBeUndefined()
+  })
+
+  it("does not cache POST requests", async () => {
+    const post = { method: "POST", body: { ticker: "AAPL" } } as const
+    const result = await uwFetch("/api/stock/AAPL/info", undefined, post)
+    await uwFetch("/api/stock/AAPL/info", undefined, post)
+    await uwFetch("/api/stock/AAPL/info")
+
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+    expect(result.cache).toBeUndefined()
+  })
+
+  it("does not cache errors", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404, text: () => Promise.resolve("Not found") })
+
+    const failed = await uwFetch("/api/stock/AAPL/info")
+    const succeeded = await uwFetch("/api/stock/AAPL/info")
+
+    expect(failed.error).toContain("404")
+    expect(succeeded.error).toBeUndefined()
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe("uwFetch disk cache", () => {
+  const originalEnv = process.env
+  let directory: string
+  let mockFetch: ReturnType<typeof vi.fn>
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "uw-client-disk-cache-"))
+    process.env = { ...originalEnv, UW_API_KEY: "test-api-key", UW_DISK_CACHE_DIR: directory }
+    vi.resetModules()
+    mockFetch = vi.fn().mockImplementation(() =>
+      Promise.resolve({ ok: true, text: () => Promise.resolve('{"data": [1, 2, 3]}') }),
+    )
+    vi.stubGlobal("fetch", mockFetch)
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    vi.unstubAllGlobals()
+    vi.resetModules()
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("serves past dates from disk across restarts", async () => {
+    const first = await (await import("../../src/client.js")).uwFetch("/api/stock/AAPL/flow-per-strike", { date: "2024-03-14" })
+
+    // A fresh module graph simulates a server restart with an empty memory cache
+    vi.resetModules()
+    const second = await (await import("../../src/client.js")).uwFetch("/api/stock/AAPL/flow-per-strike", { date: "2024-03-14" })
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(second.data).toEqual(first.data)
+    expect(first.cache).toMatchObject({ hit: false, policy: "historical", ttl_seconds: null })
+    expect(second.cache).toMatchObject({ hit: true, policy: "historical" })
+  })
+
+  it("serves full tape for a past date from disk", async () => {
+    const client = await import("../../src/client.js")
+    await client.uwFetch("/api/option-trades/full-tape/2024-03-14")
+    const second = await client.uwFetch("/api/option-trades/full-tape/2024-03-14")
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(second.cache).toMatchObject({ hit: true, policy: "historical" })
+  })
+
+  it("does not persist requests for today", async () => {
+    const client = await import("../../src/client.js")
+    const { currentMarketDate } = await import("../../src/disk-cache.js")
+
+    const result = await client.uwFetch("/api/stock/AAPL/flow-per-strike", { date: currentMarketDate() })
+
+    expect(result.cache?.policy).not.toBe("historical")
+  })
+
+  it("does not share persisted responses between API keys", async () => {
+    const client = await import("../../src/client.js")
+    const context = await import("../../src/request-context.js")
+    const fetchAs = (apiKey: string) => context.runWithRequestContext(
+      { apiKey },
+      () => client.uwFetch("/api/stock/AAPL/flow-per-strike", { date: "2024-03-14" }),
+    )
+
+    await fetchAs("key-a")
+    const other = await fetchAs("key-b")
+    const repeat = await fetchAs("key-a")
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(other.cache).toMatchObject({ hit: false, policy: "historical" })
+    expect(repeat.cache).toMatchObject({ hit: true, policy: "historical" })
+  })
+
+  it("does not persist errors", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404, text: () => Promise.resolve("Not found") })
+    const client = await import("../../src/client.js")
+
+    await client.uwFetch("/api/stock/AAPL/flow-per-strike", { date: "2024-03-14" })
+    const second = await client.uwFetch("/api/stock/AAPL/flow-per-strike", { date: "2024-03-14" })
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(second.error).toBeUndefined()
+  })
+})
+
+describe("uwFetch request coalescing", () => {
+  const originalEnv = process.env
+  let mockFetch: ReturnType<typeof vi.fn>
+  let respond: () => void
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, UW_API_KEY: "test-api-key" }
+    responseCache.clear()
+    // Hold each response until the test releases it, so requests overlap
+    mockFetch = vi.fn().mockImplementation(() =>
+      new Promise((resolve) => {
+        respond = () => resolve({ ok: true, text: () => Promise.resolve('{"data": [1, 2, 3]}') })
+      }),
+    )
+    vi.stubGlobal("fetch", mockFetch)
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    vi.unstubAllGlobals()
+    vi.resetModules()
+  })
+
+  async function settle<T>(requests: Promise<T>[]): Promise<T[]> {
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalled())
+    respond()
+    return Promise.all(requests)
+  }
+
+  it("shares one fetch between identical concurrent requests", async () => {
+    const results = await settle([
+      uwFetch("/api/market/market-tide"),
+      uwFetch("/api/market/market-tide"),
+      uwFetch("/api/market/market-tide"),
+    ])
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    for (const result of results) {
+      expect(result.data).toEqual({ data: [1, 2, 3] })
+    }
+  })
+
+  it("shares one fetch for uncached endpoints", async () => {
+    await settle([uwFetch("/api/alerts"), uwFetch("/api/alerts")])
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("treats equivalent parameters as the same request", async () => {
+    await settle([
+      uwFetch("/api/screener/stocks", { ticker: "AAPL", limit: 10 }),
+      uwFetch("/api/screener/stocks", { limit: 10, ticker: "AAPL", page: undefined }),
+    ])
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("does not share requests with different parameters", async () => {
+    const first = uwFetch("/api/screener/stocks", { limit: 10 })
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1))
+    const releaseFirst = respond
+    const second = uwFetch("/api/screener/stocks", { limit: 20 })
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2))
+    releaseFirst()
+    respond()
+    await Promise.all([first, second])
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not share requests between API keys", async () => {
+    const first = runWithRequestContext({ apiKey: "key-a" }, () => uwFetch("/api/alerts"))
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1))
+    const releaseFirst = respond
+    const second = runWithRequestContext({ apiKey: "key-b" }, () => uwFetch("/api/alerts"))
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2))
+    releaseFirst()
+    respond()
+    await Promise.all([first, second])
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not share POST requests", async () => {
+    const post = { method: "POST", body: { name: "alert" } } as const
+    const first = uwFetch("/api/alerts/configuration", undefined, post)
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1))
+    const releaseFirst = respond
+    const second = uwFetch("/api/alerts/configuration", undefined, post)
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2))
+    releaseFirst()
+    respond()
+    await Promise.all([first, second])
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("fetches again once the shared request has completed", async () => {
+    await settle([uwFetch("/api/alerts")])
+    await settle([uwFetch("/api/alerts")])
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("uses one rate limit token for coalesced requests", async () => {
+    process.env.UW_RATE_LIMIT_PER_MINUTE = "1"
+    vi.resetModules()
+    const client = await import("../../src/client.js")
+
+    const results = await settle([client.uwFetch("/api/alerts"), client.uwFetch("/api/alerts")])
+
+    for (const result of results) {
+      expect(result.error).toBeUndefined()
+    }
+  })
+})
+
+describe("uwFetch rate limit queue", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, UW_API_KEY: "test-api-key", UW_RATE_LIMIT_PER_MINUTE: "1" }
+    vi.resetModules()
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve("{}") }))
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.resetModules()
+  })
+
+  it("waits for a slot instead of failing", async () => {
+    process.env.UW_RATE_LIMIT_MAX_WAIT_MS = "120000"
+    vi.useFakeTimers()
+    const client = await import("../../src/client.js")
+
+    await client.uwFetch("/api/alerts")
+    const queued = client.uwFetch("/api/alerts", { limit: 1 })
+    await vi.advanceTimersByTimeAsync(60_000)
+
+    expect((await queued).error).toBeUndefined()
+  })
+
+  it("fails when no slot frees up within the maximum wait", async () => {
+    process.env.UW_RATE_LIMIT_MAX_WAIT_MS = "10"
+    const client = await import("../../src/client.js")
+
+    await client.uwFetch("/api/alerts")
+    const result = await client.uwFetch("/api/alerts", { limit: 1 })
+
+    expect(result.error).toContain("Rate limit exceeded")
+    expect(result.error).toContain("No slot freed up")
+  })
+})
+
+describe("uwFetch quota tracking", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, UW_API_KEY: "quota-test-key", UW_QUOTA_RESERVE: "100" }
+    vi.resetModules()
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({
+      ok: true,
+      headers: new Headers({ "x-uw-daily-req-count": "19950", "x-uw-token-req-limit": "20000" }),
+      text: () => Promise.resolve("{}"),
+    }))
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    vi.unstubAllGlobals()
+    vi.resetModules()
+  })
+
+  it("records usage from response headers", async () => {
+    const client = await import("../../src/client.js")
+    const { quotaTracker } = await import("../../src/quota.js")
+
+    await client.uwFetch("/api/alerts")
+
+    expect(quotaTracker.getUsage("quota-test-key")).toMatchObject({ requests: 1, remaining: 50 })
+  })
+
+  it("refuses low-priority requests once quota drops below the reserve", async () => {
+    const client = await import("../../src/client.js")
+
+    await client.uwFetch("/api/alerts")
+    const screener = await client.uwFetch("/api/screener/stocks")
+    const alerts = await client.uwFetch("/api/alerts")
+
+    expect(screener.error).toContain("Daily API quota is running low (50 requests remaining)")
+    expect(alerts.error).toBeUndefined()
+  })
+
+  it("reports quota usage on 429 responses", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({
+      ok: false,
+      status: 429,
+      headers: new Headers({ "x-uw-daily-req-count": "20000", "x-uw-token-req-limit": "20000" }),
+      text: () => Promise.resolve("rate limited"),
+    }))
+    const client = await import("../../src/client.js")
+
+    const result = await client.uwFetch("/api/alerts")
+
+    expect(result.error).toContain("20000 of 20000 daily requests used")
+  })
+})
+
+describe("uwFetch retries", () => {
+  const originalEnv = process.env
+
+  function rateLimited(retryAfter: string | null) {
+    return {
+      ok: false,
+      status: 429,
+      headers: new Headers(retryAfter === null ? {} : { "retry-after": retryAfter }),
+      text: () => Promise.resolve("rate limited"),
+    }
+  }
+
+  const serverError = { ok: false, status: 503, text: () => Promise.resolve("Service Unavailable") }
+  const success = { ok: true, text: () => Promise.resolve('{"data": "ok"}') }
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, UW_API_KEY: "retry-test-key" }
+    vi.resetModules()
+    // No jitter, so backoff delays are zero
+    vi.spyOn(Math, "random").mockReturnValue(0)
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+    vi.resetModules()
+  })
+
+  it("retries 429 responses with a short Retry-After", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(rateLimited("0"))
+      .mockResolvedValueOnce(success)
+    vi.stubGlobal("fetch", mockFetch)
+    const client = await import("../../src/client.js")
+
+    const result = await client.uwFetch("/api/alerts")
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(result).toEqual({ data: { data: "ok" } })
+  })
+
+  it("does not retry 429 responses with a Retry-After above the ceiling", async () => {
+    process.env.UW_RETRY_AFTER_MAX_MS = "5000"
+    const mockFetch = vi.fn().mockResolvedValue(rateLimited("6"))
+    vi.stubGlobal("fetch", mockFetch)
+    const client = await import("../../src/client.js")
+
+    const result = await client.uwFetch("/api/alerts")
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(result.error).toContain("Retry after 6 seconds")
+  })
+
+  it("does not retry 429 responses once the daily quota is used up", async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ...rateLimited("0"),
+      headers: new Headers({ "retry-after": "0", "x-uw-daily-req-count": "100", "x-uw-token-req-limit": "100" }),
+    })
+    vi.stubGlobal("fetch", mockFetch)
+    const client = await import("../../src/client.js")
+
+    const result = await client.uwFetch("/api/alerts")
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(result.error).toContain("100 of 100 daily requests used")
+  })
+
+  it("does not retry POST requests after a server error", async () => {
+    const mockFetch = vi.fn().mockResolvedValue(serverError)
+    vi.stubGlobal("fetch", mockFetch)
+    const client = await import("../../src/client.js")
+
+    const result = await client.uwFetch("/api/alerts/configuration", undefined, { method: "POST", body: {} })
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(result.error).toContain("API error (503)")
+  })
+
+  it("does not retry POST requests after a network error", async () => {
+    const mockFetch = vi.fn().mockRejectedValue(new Error("socket hang up"))
+    vi.stubGlobal("fetch", mockFetch)
+    const client = await import("../../src/client.js")
+
+    const result = await client.uwFetch("/api/alerts/configuration", undefined, { method: "POST", body: {} })
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(result.error).toContain("socket hang up")
+  })
+
+  it("retries POST requests after a 429", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(rateLimited("0"))
+      .mockResolvedValueOnce(success)
+    vi.stubGlobal("fetch", mockFetch)
+    const client = await import("../../src/client.js")
+
+    const result = await client.uwFetch("/api/alerts/configuration", undefined, { method: "POST", body: {} })
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(result).toEqual({ data: { data: "ok" } })
+  })
+
+  it("stops retrying when the retry budget is exhausted", async () => {
+    process.env.UW_RETRY_BUDGET_RATIO = "0"
+    process.env.UW_RETRY_BUDGET_MIN = "1"
+    const mockFetch = vi.fn().mockResolvedValue(serverError)
+    vi.stubGlobal("fetch", mockFetch)
+    const client = await import("../../src/client.js")
+
+    await client.uwFetch("/api/alerts")
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+
+    const result = await client.uwFetch("/api/alerts")
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+    expect(result.error).toContain("API error (503)")
+  })
+
+  it("opens the circuit breaker after repeated server errors", async () => {
+    process.env.UW_MAX_RETRIES = "1"
+    process.env.UW_CIRCUIT_BREAKER_THRESHOLD = "2"
+    const mockFetch = vi.fn().mockResolvedValue(serverError)
+    vi.stubGlobal("fetch", mockFetch)
+    const client = await import("../../src/client.js")
+
+    await client.uwFetch("/api/alerts")
+    await client.uwFetch("/api/alerts")
+    const result = await client.uwFetch("/api/alerts")
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(result.error).toContain("Circuit breaker is open")
+  })
+
+  it("does not count client errors towards the circuit breaker", async () => {
+    process.env.UW_CIRCUIT_BREAKER_THRESHOLD = "1"
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce({ ok: false, status: 404, text: () => Promise.resolve("Not found") })
+      .mockResolvedValueOnce(success)
+    vi.stubGlobal("fetch", mockFetch)
+    const client = await import("../../src/client.js")
+
+    await client.uwFetch("/api/alerts")
+    const result = await client.uwFetch("/api/alerts")
+
+    expect(result.error).toBeUndefined()
+  })
+})
+
+describe("getEndpointGroup", () => {
+  it("uses the first path segment after /api", async () => {
+    const { getEndpointGroup } = await import("../../src/client.js")
+    expect(getEndpointGroup("/api/stock/AAPL/info")).toBe("stock")
+    expect(getEndpointGroup("/api/institution/VANGUARD/holdings")).toBe("institution")
+    expect(getEndpointGroup("/api/option-trades/flow-alerts?limit=10")).toBe("option-trades")
+    expect(getEndpointGroup("/api/alerts")).toBe("alerts")
+  })
+})
+
+describe("uwFetch circuit breakers by endpoint group", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      UW_API_KEY: "group-test-key",
+      UW_MAX_RETRIES: "1",
+      UW_CIRCUIT_BREAKER_THRESHOLD: "1",
+    }
+    vi.resetModules()
+    vi.stubGlobal("fetch", vi.fn().mockImplementation((url: string) =>
+      Promise.resolve(url.includes("/api/institution/")
+        ? { ok: false, status: 503, text: () => Promise.resolve("Service Unavailable") }
+        : { ok: true, text: () => Promise.resolve("{}") }),
+    ))
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    vi.unstubAllGlobals()
+    vi.resetModules()
+  })
+
+  it("only fails fast for the failing group", async () => {
+    const client = await import("../../src/client.js")
+
+    await client.uwFetch("/api/institution/VANGUARD/holdings")
+    const institution = await client.uwFetch("/api/institution/VANGUARD/activity")
+    const stock = await client.uwFetch("/api/stock/AAPL/info")
+
+    expect(institution.error).toContain("Circuit breaker is open")
+    expect(stock.error).toBeUndefined()
+    expect(client.getCircuitBreakerStatuses("group-test-key")).toEqual([
+      expect.objectContaining({ group: "institution", state: "OPEN" }),
+      expect.objectContaining({ group: "stock", state: "CLOSED" }),
+    ])
+  })
+
+  it("sends requests again after a manual reset", async () => {
+    const client = await import("../../src/client.js")
+
+    await client.uwFetch("/api/institution/VANGUARD/holdings")
+    expect(client.resetCircuitBreaker("group-test-key", "institution")).toBe(true)
+    const result = await client.uwFetch("/api/institution/VANGUARD/holdings")
+
+    expect(result.error).toContain("API error (503)")
+  })
+
+  it("does not reset unknown groups", async () => {
+    const client = await import("../../src/client.js")
+    expect(client.resetCircuitBreaker("group-test-key", "unknown")).toBe(false)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest"
+import { loadServerConfig } from "../../src/config.js"
+
+describe("loadServerConfig", () => {
+  it("defaults to stdio transport", () => {
+    const config = loadServerConfig([], {})
+    expect(config).toEqual({
+      transport: "stdio",
+      host: "127.0.0.1",
+      port: 3000,
+      sessionTimeoutMs: 1_800_000,
+    })
+  })
+
+  it("reads transport from --transport flag", () => {
+    expect(loadServerConfig(["--transport", "http"], {}).transport).toBe("http")
+    expect(loadServerConfig(["--transport=http"], {}).transport).toBe("http")
+  })
+
+  it("accepts --http as a shortcut", () => {
+    expect(loadServerConfig(["--http"], {}).transport).toBe("http")
+  })
+
+  it("reads settings from environment variables", () => {
+    const config = loadServerConfig([], {
+      UW_TRANSPORT: "HTTP",
+      UW_HTTP_HOST: "0.0.0.0",
+      UW_HTTP_PORT: "8080",
+      UW_HTTP_SESSION_TIMEOUT: "60000",
+    })
+    expect(config).toEqual({
+      transport: "http",
+      host: "0.0.0.0",
+      port: 8080,
+      sessionTimeoutMs: 60000,
+    })
+  })
+
+  it("prefers CLI flags over environment variables", () => {
+    const config = loadServerConfig(
+      ["--transport", "stdio", "--host", "localhost", "--port=9000"],
+      { UW_TRANSPORT: "http", UW_HTTP_HOST: "0.0.0.0", UW_HTTP_PORT: "8080" },
+    )
+    expect(config.transport).toBe("stdio")
+    expect(config.host).toBe("localhost")
+    expect(config.port).toBe(9000)
+  })
+
+  it("ignores positional arguments", () => {
+    expect(loadServerConfig(["serve", "--port", "4000"], {}).port).toBe(4000)
+  })
+
+  it("throws on unknown transport", () => {
+    expect(() => loadServerConfig(["--transport", "websocket"], {})).toThrow("Invalid transport")
+  })
+
+  it("throws on invalid port", () => {
+    expect(() => loadServerConfig(["--port", "abc"], {})).toThrow("Invalid port")
+    expect(() => loadServerConfig(["--port", "70000"], {})).toThrow("Invalid port")
+    expect(() => loadServerConfig([], { UW_HTTP_PORT: "0" })).toThrow("Invalid port")
+  })
+
+  it("throws on invalid session timeout", () => {
+    expect(() => loadServerConfig([], { UW_HTTP_SESSION_TIMEOUT: "-1" })).toThrow(
+      "Invalid UW_HTTP_SESSION_TIMEOUT",
+    )
+  })
+})
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+  DiskCache,
+  DISK_CACHE_VERSION,
+  currentMarketDate,
+  isHistoricalRequest,
+  toDiskCacheInfo,
+} from "../../src/disk-cache.js"
+
+describe("currentMarketDate", () => {
+  it("uses US Eastern time", () => {
+    // 02:00 UTC is still the previous evening in New York
+    expect(currentMarketDate(new Date("2024-03-15T02:00:00Z"))).toBe("2024-03-14")
+    expect(currentMarketDate(new Date("2024-03-15T16:00:00Z"))).toBe("2024-03-15")
+  })
+})
+
+describe("isHistoricalRequest", () => {
+  const today = "2024-03-15"
+
+  it("matches a past date query parameter", () => {
+    expect(isHistoricalRequest("/api/stock/AAPL/flow-per-strike", { date: "2024-03-14" }, today)).toBe(true)
+  })
+
+  it("does not match today or future dates", () => {
+    expect(isHistoricalRequest("/api/stock/AAPL/flow-per-strike", { date: today }, today)).toBe(false)
+    expect(isHistoricalRequest("/api/stock/AAPL/flow-per-strike", { date: "2024-03-16" }, today)).toBe(false)
+  })
+
+  it("does not match requests without a date", () => {
+    expect(isHistoricalRequest("/api/stock/AAPL/flow-per-strike", {}, today)).toBe(false)
+    expect(isHistoricalRequest("/api/stock/AAPL/flow-per-strike", undefined, today)).toBe(false)
+  })
+
+  it("does not match malformed dates", () => {
+    expect(isHistoricalRequest("/api/stock/AAPL/flow-per-strike", { date: "yesterday" }, today)).toBe(false)
+  })
+
+  it("matches a past date path segment", () => {
+    expect(isHistoricalRequest("/api/option-trades/full-tape/2024-03-14", undefined, today)).toBe(true)
+    expect(isHistoricalRequest("/api/option-trades/full-tape/2024-03-15", undefined, today)).toBe(false)
+  })
+
+  it("prefers the date query parameter over the path", () => {
+    expect(isHistoricalRequest("/api/stock/AAPL/greek-flow/2024-01-19", { date: today }, today)).toBe(false)
+  })
+
+  it("matches only historical endpoint families", () => {
+    expect(isHistoricalRequest("/api/stock/AAPL/ohlc/1d", { date: "2024-03-14" }, today)).toBe(true)
+    expect(isHistoricalRequest("/api/stock/AAPL/greek-exposure/strike", { date: "2024-03-14" }, today)).toBe(true)
+    expect(isHistoricalRequest("/api/screener/stocks", { date: "2024-03-14" }, today)).toBe(false)
+    expect(isHistoricalRequest("/api/news/headlines", { date: "2024-03-14" }, today)).toBe(false)
+    expect(isHistoricalRequest("/api/alerts", { date: "2024-03-14" }, today)).toBe(false)
+    expect(isHistoricalRequest("/api/darkpool/recent", { date: "2024-03-14" }, today)).toBe(false)
+  })
+})
+
+describe("DiskCache", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "uw-disk-cache-"))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("returns undefined for missing entries", async () => {
+    const cache = new DiskCache(directory)
+    expect(await cache.get("/api/missing")).toBeUndefined()
+  })
+
+  it("stores and retrieves entries", async () => {
+    const cache = new DiskCache(directory)
+    await cache.set("/api/stock/AAPL/ohlc/1d?date=2024-03-14", [{ close: 172.6 }])
+
+    const entry = await cache.get("/api/stock/AAPL/ohlc/1d?date=2024-03-14")
+    expect(entry?.data).toEqual([{ close: 172.6 }])
+  })
+
+  it("persists entries across instances", async () => {
+    await new DiskCache(directory).set("/api/a", { value: 1 })
+
+    const entry = await new DiskCache(directory).get("/api/a")
+    expect(entry?.data).toEqual({ value: 1 })
+  })
+
+  it("writes versioned entries into a version directory", async () => {
+    await new DiskCache(directory).set("/api/a", { value: 1 })
+
+    const versionDir = join(directory, `v${DISK_CACHE_VERSION}`)
+    const [name] = await readdir(versionDir)
+    const file = JSON.parse(await readFile(join(versionDir, name), "utf8"))
+    expect(file).toMatchObject({ version: DISK_CACHE_VERSION, key: "/api/a", data: { value: 1 } })
+  })
+
+  it("ignores and removes entries with another format version", async () => {
+    const cache = new DiskCache(directory)
+    await cache.set("/api/a", { value: 1 })
+    const versionDir = join(directory, `v${DISK_CACHE_VERSION}`)
+    const [name] = await readdir(versionDir)
+    await writeFile(join(versionDir, name), JSON.stringify({ version: 0, key: "/api/a", storedAt: 0, data: 1 }))
+
+    expect(await cache.get("/api/a")).toBeUndefined()
+    expect(await readdir(versionDir)).toHaveLength(0)
+  })
+
+  it("treats corrupt entries as misses", async () => {
+    const cache = new DiskCache(directory)
+    await cache.set("/api/a", { value: 1 })
+    const versionDir = join(directory, `v${DISK_CACHE_VERSION}`)
+    const [name] = await readdir(versionDir)
+    await writeFile(join(versionDir, name), "{not json")
+
+    expect(await cache.get("/api/a")).toBeUndefined()
+  })
+
+  it("evicts least recently used entries over the size cap", async () => {
+    const payload = "x".repeat(400)
+    const cache = new DiskCache(directory, 1000)
+    await cache.set("/api/a", payload)
+    await cache.set("/api/b", payload)
+    await cache.get("/api/a")
+    await cache.set("/api/c", payload)
+
+    expect(await cache.get("/api/a")).toBeDefined()
+    expect(await cache.get("/api/b")).toBeUndefined()
+    expect(await cache.get("/api/c")).toBeDefined()
+  })
+
+  it("does not store entries larger than the cap", async () => {
+    const cache = new DiskCache(directory, 100)
+    expect(await cache.set("/api/a", "x".repeat(200))).toBeUndefined()
+    expect((await cache.getStats()).entries).toBe(0)
+  })
+
+  it("keeps entries from different scopes apart", async () => {
+    const cache = new DiskCache(directory)
+    await cache.set("/api/a", "a", "scope-a")
+
+    expect((await cache.get("/api/a", "scope-a"))?.data).toBe("a")
+    expect(await cache.get("/api/a", "scope-b")).toBeUndefined()
+    expect(await cache.get("/api/a")).toBeUndefined()
+
+    await cache.set("/api/a", "b", "scope-b")
+    expect((await cache.get("/api/a", "scope-a"))?.data).toBe("a")
+    expect((await new DiskCache(directory).get("/api/a", "scope-b"))?.data).toBe("b")
+  })
+
+  it("counts and clears entries of one scope", async () => {
+    await new DiskCache(directory).set("/api/a", "a", "scope-a")
+    await new DiskCache(directory).set("/api/b", "a", "scope-a")
+    await new DiskCache(directory).set("/api/a", "b", "scope-b")
+
+    // A fresh instance has to read each entry's scope from its file
+    const cache = new DiskCache(directory)
+    expect((await cache.getStats("scope-a")).entries).toBe(2)
+    expect(await cache.clear("/api/a", "scope-a")).toBe(1)
+    expect(await cache.clear(undefined, "scope-b")).toBe(1)
+    expect(await cache.get("/api/b", "scope-a")).toBeDefined()
+    expect((await cache.getStats()).entries).toBe(1)
+  })
+
+  it("clears entries by prefix", async () => {
+    const cache = new DiskCache(directory)
+    await cache.set("/api/stock/AAPL/ohlc/1d?date=2024-03-14", 1)
+    await cache.set("/api/stock/MSFT/ohlc/1d?date=2024-03-14", 2)
+
+    expect(await cache.clear("/api/stock/AAPL")).toBe(1)
+    expect(await cache.get("/api/stock/MSFT/ohlc/1d?date=2024-03-14")).toBeDefined()
+    expect(await cache.clear()).toBe(1)
+    expect((await cache.getStats()).entries).toBe(0)
+  })
+
+  it("reports statistics", async () => {
+    const cache = new DiskCache(directory, 5000)
+    await cache.set("/api/a", { value: 1 })
+    await cache.get("/api/a")
+    await cache.get("/api/b")
+
+    const stats = await cache.getStats()
+    expect(stats).toMatchObject({ directory, entries: 1, maxSizeBytes: 5000, hits: 1, misses: 1 })
+    expect(stats.sizeBytes).toBeGreaterThan(0)
+  })
+})
+
+describe("toDiskCacheInfo", () => {
+  it("describes entries as never expiring", () => {
+    const info = toDiskCacheInfo({ key: "/api/a", data: 1, storedAt: Date.now() - 5000 }, true)
+    expect(info).toEqual({ hit: true, policy: "historical", age_seconds: 5, ttl_seconds: null })
+  })
+})
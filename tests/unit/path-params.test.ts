@@ -74,6 +74,22 @@ describe("PathParamBuilder", () => {
       expect(() => builder.add("ticker", "foo..bar")).toThrow("Invalid ticker: contains path characters")
     })
 
+    it("encodes path characters when allowed", () => {
+      const path = new PathParamBuilder()
+        .add("name", "A/B Partners", true, { allowPathChars: true })
+        .add("other", "C\\D..E", true, { allowPathChars: true })
+        .build("/api/{name}/{other}")
+
+      expect(path).toBe("/api/A%2FB%20Partners/C%5CD..E")
+    })
+
+    it("throws on dot segments even when path characters are allowed", () => {
+      const builder = new PathParamBuilder()
+
+      expect(() => builder.add("name", "..", true, { allowPathChars: true })).toThrow("Invalid name: contains path characters")
+      expect(() => builder.add("name", ".", true, { allowPathChars: true })).toThrow("Invalid name: contains path characters")
+    })
+
     it("throws when value is empty string", () => {
       const builder = new PathParamBuilder()
 
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest"
-import { prompts, handlers } from "../../../src/prompts/index.js"
+import { z } from "zod"
+import { prompts, handlers, argsSchemas } from "../../../src/prompts/index.js"
 
 describe("prompts", () => {
   it("exports array of prompt definitions", () => {
@@ -210,6 +211,15 @@ describe("handlers", () => {
       expect(content).toContain("Sector preferences")
       expect(content).toContain("red flags")
     })
+
+    it("asks for trades flagged as unusual", async () => {
+      const result = await handlers["congress-tracker"]({})
+      const content = result[0].content.text
+
+      expect(content).toContain("statistically unusual")
+      expect(content).toContain("unusual-trade stats")
+      expect(content).toContain("Trades flagged as unusual")
+    })
   })
 })
 
@@ -264,6 +274,27 @@ describe("new prompts", () => {
       expect(content).toContain("IV rank")
       expect(content).toContain("volatility term structure")
       expect(content).toContain("max pain")
+      expect(content).toContain("variance risk premium")
+      expect(content).toContain("volatility anomaly score")
+    })
+  })
+
+  describe("morning-briefing handler", () => {
+    it("asks for top movers and upcoming IPOs", async () => {
+      const result = await handlers["morning-briefing"]({})
+      const content = result[0].content.text
+      expect(content).toContain("market tide")
+      expect(content).toContain("top market movers")
+      expect(content).toContain("IPOs")
+    })
+  })
+
+  describe("dark-pool-scanner handler", () => {
+    it("asks for dark pool price levels", async () => {
+      const result = await handlers["dark-pool-scanner"]({ min_size: "500000" })
+      const content = result[0].content.text
+      expect(content).toContain("$500000")
+      expect(content).toContain("dark pool price levels")
     })
   })
 
@@ -497,3 +528,67 @@ describe("prompt handler integration", () => {
     expect(congressContent).toContain("congressional")
   })
 })
+
+describe("argsSchemas", () => {
+  const parseArgs = (name: string, args: Record<string, string>) =>
+    z.object(argsSchemas[name]).safeParse(args)
+
+  it("has a schema for every prompt that declares arguments", () => {
+    prompts.forEach((prompt) => {
+      if (prompt.arguments && prompt.arguments.length > 0) {
+        expect(argsSchemas[prompt.name]).toBeDefined()
+        expect(Object.keys(argsSchemas[prompt.name])).toEqual(prompt.arguments.map((a) => a.name))
+      } else {
+        expect(argsSchemas[prompt.name]).toBeUndefined()
+      }
+    })
+  })
+
+  it("derives argument descriptions from the schema", () => {
+    prompts.forEach((prompt) => {
+      prompt.arguments?.forEach((arg) => {
+        expect(arg.description).toBeTruthy()
+      })
+    })
+  })
+
+  it("rejects missing required arguments", () => {
+    const result = parseArgs("ticker-analysis", {})
+    expect(result.success).toBe(false)
+  })
+
+  it("accepts valid required arguments", () => {
+    const result = parseArgs("ticker-analysis", { ticker: "AAPL" })
+    expect(result.success).toBe(true)
+  })
+
+  it("applies defaults for omitted optional arguments", () => {
+    const result = parseArgs("congress-tracker", {})
+    expect(result.success).toBe(true)
+    expect(result.data).toEqual({ days: "7", min_amount: "15000" })
+  })
+
+  it("rejects non-numeric values for numeric arguments", () => {
+    expect(parseArgs("congress-tracker", { days: "a week" }).success).toBe(false)
+    expect(parseArgs("top-movers", { limit: "-5" }).success).toBe(false)
+  })
+
+  it("validates date format", () => {
+    expect(parseArgs("daily-summary", { date: "2024-01-15" }).success).toBe(true)
+    expect(parseArgs("daily-summary", { date: "01/15/2024" }).success).toBe(false)
+  })
+
+  it("validates enumerated arguments", () => {
+    expect(parseArgs("iv-screener", { mode: "high" }).success).toBe(true)
+    expect(parseArgs("iv-screener", { mode: "extreme" }).success).toBe(false)
+    expect(parseArgs("sector-flow", { group: "semi" }).success).toBe(true)
+    expect(parseArgs("sector-flow", { group: "not-a-group" }).success).toBe(false)
+  })
+
+  it("validates ticker lists and option symbols", () => {
+    expect(parseArgs("correlation-analysis", { tickers: "NVDA,AMD,INTC" }).success).toBe(true)
+    expect(parseArgs("correlation-analysis", { tickers: "NVDA;AMD" }).success).toBe(false)
+    expect(parseArgs("option-contract", { contract: "AAPL240119C00150000" }).success).toBe(true)
+    expect(parseArgs("option-contract", { contract: "AAPL" }).success).toBe(false)
+  })
+})
@@ -0,0 +1,13 @@
+import { describe, it, expect } from "vitest"
+import { booleanParam } from "../../src/utils/query-params.js"
+
+describe("booleanParam", () => {
+  it("serializes true and false", () => {
+    expect(booleanParam(true)).toBe("true")
+    expect(booleanParam(false)).toBe("false")
+  })
+
+  it("leaves undefined out", () => {
+    expect(booleanParam(undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+  QuotaTracker,
+  QUOTA_HEADERS,
+  getKeyFingerprint,
+  getRequestPriority,
+} from "../../src/quota.js"
+
+function usageHeaders(dailyCount: number, dailyLimit: number, minuteRemaining?: number): Headers {
+  const headers = new Headers({
+    [QUOTA_HEADERS.dailyCount]: String(dailyCount),
+    [QUOTA_HEADERS.dailyLimit]: String(dailyLimit),
+  })
+  if (minuteRemaining !== undefined) {
+    headers.set(QUOTA_HEADERS.minuteRemaining, String(minuteRemaining))
+  }
+  return headers
+}
+
+describe("getRequestPriority", () => {
+  it("treats bulk and discovery endpoints as low priority", () => {
+    expect(getRequestPriority("/api/screener/stocks")).toBe("low")
+    expect(getRequestPriority("/api/news/headlines")).toBe("low")
+    expect(getRequestPriority("/api/option-trades/full-tape/2024-03-14")).toBe("low")
+    expect(getRequestPriority("/api/seasonality/AAPL/monthly")).toBe("low")
+  })
+
+  it("treats other endpoints as normal priority", () => {
+    expect(getRequestPriority("/api/stock/AAPL/info")).toBe("normal")
+    expect(getRequestPriority("/api/option-trades/flow-alerts")).toBe("normal")
+  })
+})
+
+describe("getKeyFingerprint", () => {
+  it("identifies keys without revealing them", () => {
+    const fingerprint = getKeyFingerprint("secret-key")
+    expect(fingerprint).toMatch(/^key-[0-9a-f]{8}$/)
+    expect(fingerprint).not.toContain("secret")
+    expect(getKeyFingerprint("secret-key")).toBe(fingerprint)
+  })
+})
+
+describe("QuotaTracker", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("counts requests without usage headers", () => {
+    const tracker = new QuotaTracker({ reserve: 0 })
+    tracker.record("key", undefined)
+    tracker.record("key", new Headers())
+
+    expect(tracker.getUsage("key")).toMatchObject({
+      requests: 2,
+      daily_count: null,
+      daily_limit: null,
+      remaining: null,
+    })
+  })
+
+  it("reads usage from response headers", () => {
+    const tracker = new QuotaTracker({ reserve: 0 })
+    tracker.record("key", usageHeaders(1200, 20000, 95))
+
+    expect(tracker.getUsage("key")).toMatchObject({
+      requests: 1,
+      daily_count: 1200,
+      daily_limit: 20000,
+      remaining: 18800,
+      minute_remaining: 95,
+    })
+  })
+
+  it("keeps the last reported values when headers are missing", () => {
+    const tracker = new QuotaTracker({ reserve: 0 })
+    tracker.record("key", usageHeaders(1200, 20000))
+    tracker.record("key", undefined)
+
+    expect(tracker.getUsage("key")).toMatchObject({ requests: 2, daily_count: 1200, daily_limit: 20000 })
+  })
+
+  it("uses the configured daily limit until the API reports one", () => {
+    const tracker = new QuotaTracker({ reserve: 0, dailyLimit: 100 })
+    tracker.record("key", undefined)
+
+    expect(tracker.getRemaining("key")).toBe(99)
+  })
+
+  it("tracks each API key separately", () => {
+    const tracker = new QuotaTracker({ reserve: 0 })
+    tracker.record("key-a", usageHeaders(10, 100))
+
+    expect(tracker.getUsage("key-b").requests).toBe(0)
+  })
+
+  it("starts a new ledger each trading day", () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date("2024-03-14T15:00:00Z"))
+    const tracker = new QuotaTracker({ reserve: 0 })
+    tracker.record("key", usageHeaders(500, 1000))
+
+    vi.setSystemTime(new Date("2024-03-15T15:00:00Z"))
+    expect(tracker.getUsage("key")).toMatchObject({ date: "2024-03-15", requests: 0, daily_count: null })
+  })
+
+  describe("shouldRefuse", () => {
+    it("refuses low-priority requests below the reserve", () => {
+      const tracker = new QuotaTracker({ reserve: 100 })
+      tracker.record("key", usageHeaders(950, 1000))
+
+      expect(tracker.shouldRefuse("key", "low")).toBe(true)
+      expect(tracker.shouldRefuse("key", "normal")).toBe(false)
+    })
+
+    it("allows low-priority requests above the reserve", () => {
+      const tracker = new QuotaTracker({ reserve: 100 })
+      tracker.record("key", usageHeaders(800, 1000))
+
+      expect(tracker.shouldRefuse("key", "low")).toBe(false)
+    })
+
+    it("allows requests when the limit is unknown", () => {
+      const tracker = new QuotaTracker({ reserve: 100 })
+      tracker.record("key", undefined)
+
+      expect(tracker.shouldRefuse("key", "low")).toBe(false)
+    })
+
+    it("never refuses when the reserve is disabled", () => {
+      const tracker = new QuotaTracker({ reserve: 0 })
+      tracker.record("key", usageHeaders(1000, 1000))
+
+      expect(tracker.shouldRefuse("key", "low")).toBe(false)
+    })
+  })
+
+  describe("persistence", () => {
+    let directory: string
+    let file: string
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "uw-quota-"))
+      file = join(directory, "quota.json")
+    })
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true })
+    })
+
+    it("restores the ledger across restarts", async () => {
+      const tracker = new QuotaTracker({ file, reserve: 0 })
+      tracker.record("key", usageHeaders(1200, 20000))
+      await tracker.save()
+
+      const restored = new QuotaTracker({ file, reserve: 0 })
+      expect(restored.getUsage("key")).toMatchObject({ requests: 1, daily_count: 1200, daily_limit: 20000 })
+    })
+
+    it("does not store API keys in the ledger", async () => {
+      const tracker = new QuotaTracker({ file, reserve: 0 })
+      tracker.record("secret-key", undefined)
+      await tracker.save()
+
+      const content = await readFile(file, "utf8")
+      expect(content).not.toContain("secret-key")
+      expect(content).toContain(getKeyFingerprint("secret-key"))
+    })
+
+    it("saves shortly after requests are recorded", async () => {
+      vi.useFakeTimers()
+      const tracker = new QuotaTracker({ file, reserve: 0 })
+      tracker.record("key", undefined)
+      tracker.record("key", undefined)
+
+      await vi.advanceTimersByTimeAsync(1000)
+      vi.useRealTimers()
+      await vi.waitFor(async () => {
+        const ledger = JSON.parse(await readFile(file, "utf8"))
+        expect(ledger.keys[getKeyFingerprint("key")].requests).toBe(2)
+      })
+    })
+
+    it("drops earlier trading days when recording", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      vi.setSystemTime(new Date("2024-03-14T15:00:00Z"))
+      const tracker = new QuotaTracker({ file, reserve: 0 })
+      tracker.record("key-a", undefined)
+
+      vi.setSystemTime(new Date("2024-03-15T15:00:00Z"))
+      tracker.record("key-b", undefined)
+      await tracker.save()
+
+      const ledger = JSON.parse(await readFile(file, "utf8"))
+      expect(Object.keys(ledger.keys)).toEqual([getKeyFingerprint("key-b")])
+    })
+
+    it("drops earlier trading days when loading", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      vi.setSystemTime(new Date("2024-03-15T15:00:00Z"))
+      await writeFile(file, JSON.stringify({
+        version: 1,
+        keys: {
+          [getKeyFingerprint("old")]: { date: "2024-03-14", requests: 5 },
+          [getKeyFingerprint("today")]: { date: "2024-03-15", requests: 3 },
+        },
+      }))
+
+      const tracker = new QuotaTracker({ file, reserve: 0 })
+      await tracker.save()
+
+      const ledger = JSON.parse(await readFile(file, "utf8"))
+      expect(ledger.keys).toEqual({ [getKeyFingerprint("today")]: { date: "2024-03-15", requests: 3 } })
+    })
+
+    it("ignores ledgers with another format version", async () => {
+      await writeFile(file, JSON.stringify({ version: 0, keys: { [getKeyFingerprint("key")]: { requests: 5 } } }))
+
+      const tracker = new QuotaTracker({ file, reserve: 0 })
+      expect(tracker.getUsage("key").requests).toBe(0)
+    })
+
+    it("ignores corrupt ledgers", async () => {
+      await writeFile(file, "{not json")
+
+      const tracker = new QuotaTracker({ file, reserve: 0 })
+      expect(tracker.getUsage("key").requests).toBe(0)
+    })
+  })
+})
@@ -110,3 +110,94 @@ describe("SlidingWindowRateLimiter", () => {
     expect(limiter.tryAcquire()).toEqual({ allowed: true })
   })
 })
+
+describe("SlidingWindowRateLimiter.acquire", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("resolves immediately when under the limit", async () => {
+    const limiter = new SlidingWindowRateLimiter(2, { maxQueueLength: 10, maxWaitMs: 60_000 })
+
+    await expect(limiter.acquire()).resolves.toEqual({ allowed: true })
+    expect(limiter.getQueueLength()).toBe(0)
+  })
+
+  it("rejects immediately when queueing is disabled", async () => {
+    const limiter = new SlidingWindowRateLimiter(1)
+    limiter.tryAcquire()
+
+    const result = await limiter.acquire()
+    expect(result).toEqual({ allowed: false, waitMs: 60_000, reason: "queue_full" })
+  })
+
+  it("waits for a slot to free up", async () => {
+    const limiter = new SlidingWindowRateLimiter(1, { maxQueueLength: 10, maxWaitMs: 120_000 })
+    limiter.tryAcquire()
+
+    let settled = false
+    const pending = limiter.acquire().then((result) => {
+      settled = true
+      return result
+    })
+
+    await vi.advanceTimersByTimeAsync(59_999)
+    expect(settled).toBe(false)
+    await vi.advanceTimersByTimeAsync(1)
+    await expect(pending).resolves.toEqual({ allowed: true })
+  })
+
+  it("grants waiting requests in FIFO order", async () => {
+    const limiter = new SlidingWindowRateLimiter(1, { maxQueueLength: 10, maxWaitMs: 300_000 })
+    limiter.tryAcquire()
+
+    const order: number[] = []
+    const first = limiter.acquire().then(() => order.push(1))
+    const second = limiter.acquire().then(() => order.push(2))
+
+    await vi.advanceTimersByTimeAsync(60_000)
+    expect(order).toEqual([1])
+    await vi.advanceTimersByTimeAsync(60_000)
+    await Promise.all([first, second])
+    expect(order).toEqual([1, 2])
+  })
+
+  it("does not let tryAcquire jump the queue", async () => {
+    const limiter = new SlidingWindowRateLimiter(1, { maxQueueLength: 10, maxWaitMs: 120_000 })
+    limiter.tryAcquire()
+    const pending = limiter.acquire()
+
+    vi.setSystemTime(60_000)
+    expect(limiter.tryAcquire().allowed).toBe(false)
+
+    await vi.runOnlyPendingTimersAsync()
+    await expect(pending).resolves.toEqual({ allowed: true })
+  })
+
+  it("rejects when the queue is full", async () => {
+    const limiter = new SlidingWindowRateLimiter(1, { maxQueueLength: 1, maxWaitMs: 120_000 })
+    limiter.tryAcquire()
+    void limiter.acquire()
+
+    const result = await limiter.acquire()
+    expect(result.allowed).toBe(false)
+    expect(result.reason).toBe("queue_full")
+    expect(limiter.getQueueLength()).toBe(1)
+  })
+
+  it("gives up after the maximum wait", async () => {
+    const limiter = new SlidingWindowRateLimiter(1, { maxQueueLength: 10, maxWaitMs: 5_000 })
+    limiter.tryAcquire()
+
+    const pending = limiter.acquire()
+    await vi.advanceTimersByTimeAsync(5_000)
+
+    await expect(pending).resolves.toEqual({ allowed: false, waitMs: 55_000, reason: "timeout" })
+    expect(limiter.getQueueLength()).toBe(0)
+  })
+})
@@ -5,6 +5,7 @@ import {
   initializeResources,
 } from "../../../src/resources/index.js"
 import type { ToolDefinition } from "../../../src/tools/index.js"
+import { runWithRequestContext } from "../../../src/request-context.js"
 
 describe("generateApiReference", () => {
   it("generates markdown documentation for tools", () => {
@@ -184,8 +185,30 @@ describe("initializeResources", () => {
 
     const { resources, handlers } = initializeResources(tools)
 
-    expect(resources).toHaveLength(2)
-    expect(Object.keys(handlers)).toHaveLength(2)
+    expect(resources).toHaveLength(4)
+    expect(Object.keys(handlers)).toHaveLength(4)
+  })
+
+  it("creates quota resource", async () => {
+    const { resources, handlers } = initializeResources([])
+
+    const quotaResource = resources.find((r) => r.uri === "usage://quota")
+    expect(quotaResource).toBeDefined()
+    expect(quotaResource?.mimeType).toBe("application/json")
+
+    const usage = JSON.parse(await runWithRequestContext({ apiKey: "test-key" }, () => handlers["usage://quota"]()))
+    expect(usage).toMatchObject({ client: expect.stringMatching(/^key-/), reserve: 0 })
+  })
+
+  it("creates circuit breakers resource", async () => {
+    const { resources, handlers } = initializeResources([])
+
+    const breakersResource = resources.find((r) => r.uri === "health://circuit-breakers")
+    expect(breakersResource).toBeDefined()
+    expect(breakersResource?.mimeType).toBe("application/json")
+
+    const status = JSON.parse(await runWithRequestContext({ apiKey: "unused-key" }, () => handlers["health://circuit-breakers"]()))
+    expect(status).toEqual({ breakers: [] })
   })
 
   it("creates API reference resource", () => {
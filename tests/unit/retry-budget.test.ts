@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { RetryBudget } from "../../src/retry-budget.js"
+
+describe("RetryBudget", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("allows the minimum number of retries without traffic", () => {
+    const budget = new RetryBudget({ ratio: 0, minRetries: 2 })
+
+    expect(budget.tryRetry()).toBe(true)
+    expect(budget.tryRetry()).toBe(true)
+    expect(budget.tryRetry()).toBe(false)
+  })
+
+  it("grows with the number of requests", () => {
+    const budget = new RetryBudget({ ratio: 0.5, minRetries: 0 })
+    for (let i = 0; i < 4; i++) {
+      budget.recordRequest()
+    }
+
+    expect(budget.tryRetry()).toBe(true)
+    expect(budget.tryRetry()).toBe(true)
+    expect(budget.tryRetry()).toBe(false)
+  })
+
+  it("recovers after the window slides", () => {
+    const budget = new RetryBudget({ ratio: 0, minRetries: 1 })
+
+    expect(budget.tryRetry()).toBe(true)
+    expect(budget.tryRetry()).toBe(false)
+
+    vi.advanceTimersByTime(60_000)
+    expect(budget.tryRetry()).toBe(true)
+  })
+
+  it("reports requests and retries in the window", () => {
+    const budget = new RetryBudget({ ratio: 0.2, minRetries: 10 })
+    budget.recordRequest()
+    budget.recordRequest()
+    budget.tryRetry()
+
+    expect(budget.getStatus()).toEqual({ requests: 2, retries: 1 })
+  })
+})
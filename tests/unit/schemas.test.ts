@@ -50,6 +50,24 @@ describe("toJsonSchema", () => {
     expect(result.required).toBeDefined()
     expect(result.required).toContain("required_field")
   })
+
+  it("lifts nested discriminated union variants into the top-level oneOf", () => {
+    const schema = z.discriminatedUnion("action_type", [
+      z.object({ action_type: z.literal("a") }),
+      z.discriminatedUnion("kind", [
+        z.object({ action_type: z.literal("b"), kind: z.literal("x") }),
+        z.object({ action_type: z.literal("b"), kind: z.literal("y") }),
+      ]),
+    ])
+
+    const result = toJsonSchema(schema) as { oneOf: Array<{ oneOf?: unknown, required: string[] }> }
+
+    expect(result.oneOf).toHaveLength(3)
+    for (const variant of result.oneOf) {
+      expect(variant.oneOf).toBeUndefined()
+      expect(variant.required).toContain("action_type")
+    }
+  })
 })
 
 describe("formatZodError", () => {
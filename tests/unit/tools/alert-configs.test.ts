@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handleAlertConfigs, alertConfigsTool } from "../../../src/tools/alert-configs.js"
+
+// Mock the client module
+vi.mock("../../../src/client.js", () => ({
+  uwFetch: vi.fn(),
+  formatResponse: vi.fn((result) => {
+    if (result.error) {
+      return JSON.stringify({ error: result.error }, null, 2)
+    }
+    return JSON.stringify(result.data, null, 2)
+  }),
+  formatError: vi.fn((message) => JSON.stringify({ error: message })),
+  encodePath: vi.fn((value) => {
+    if (value === undefined || value === null) {
+      throw new Error("Path parameter is required")
+    }
+    const str = String(value)
+    if (str.includes("/") || str.includes("\\") || str.includes("..")) {
+      throw new Error("Invalid path parameter")
+    }
+    return encodeURIComponent(str)
+  }),
+}))
+
+import { uwFetch } from "../../../src/client.js"
+import { clearAlertQueryGrammarCache } from "../../../src/alert-query.js"
+
+describe("alertConfigsTool", () => {
+  it("has correct name", () => {
+    expect(alertConfigsTool.name).toBe("uw_alert_configs")
+  })
+
+  it("has a description", () => {
+    expect(alertConfigsTool.description).toBeDefined()
+    expect(alertConfigsTool.description).toContain("alert configurations")
+  })
+
+  it("has inputSchema", () => {
+    expect(alertConfigsTool.inputSchema).toBeDefined()
+    // For discriminated unions, the schema has oneOf instead of type: "object"
+    expect(alertConfigsTool.inputSchema.oneOf || alertConfigsTool.inputSchema.type).toBeDefined()
+  })
+
+  it("has correct annotations", () => {
+    expect(alertConfigsTool.annotations).toEqual({
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    })
+  })
+})
+
+describe("handleAlertConfigs", () => {
+  const mockUwFetch = uwFetch as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearAlertQueryGrammarCache()
+    mockUwFetch.mockResolvedValue({ data: { test: "data" } })
+  })
+
+  describe("input validation", () => {
+    it("returns error for read actions", async () => {
+      const result = await handleAlertConfigs({ action_type: "alerts" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("create_configuration action", () => {
+    it("posts a structured config", async () => {
+      await handleAlertConfigs({
+        action_type: "create_configuration",
+        name: "FED news",
+        noti_type: "news",
+        config: { symbols: "all", contains: ["FED"] },
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/configuration", undefined, {
+        method: "POST",
+        body: {
+          name: "FED news",
+          noti_type: "news",
+          config: { symbols: "all", contains: ["FED"] },
+          input: undefined,
+          status: undefined,
+        },
+      })
+    })
+
+    it("posts a Query language input", async () => {
+      await handleAlertConfigs({
+        action_type: "create_configuration",
+        name: "Energy sector calls",
+        noti_type: "flow_alerts",
+        input: "add @energy where calls and volume > 100",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/configuration", undefined, expect.objectContaining({
+        method: "POST",
+        body: expect.objectContaining({ input: "add @energy where calls and volume > 100", config: undefined }),
+      }))
+    })
+
+    it("requires config or input", async () => {
+      const result = await handleAlertConfigs({ action_type: "create_configuration", name: "FED news", noti_type: "news" })
+      expect(result.text).toContain("Provide exactly one of config or input")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
+    it("rejects both config and input", async () => {
+      const result = await handleAlertConfigs({
+        action_type: "create_configuration",
+        name: "FED news",
+        noti_type: "news",
+        config: { symbols: "all" },
+        input: "where calls",
+      })
+      expect(result.text).toContain("Provide exactly one of config or input")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
+    it("checks input against the grammar for the noti_type before posting", async () => {
+      mockUwFetch.mockImplementation(async (endpoint: string) => endpoint === "/api/alerts/query/grammar"
+        ? { data: { data: { fields: { volume: "integer", premium: "number" }, flags: ["calls", "puts"] } } }
+        : { data: { test: "data" } })
+
+      const result = await handleAlertConfigs({
+        action_type: "create_configuration",
+        name: "Big calls",
+        noti_type: "flow_alerts",
+        input: "where calls and volumee > 100",
+      })
+
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/query/grammar", { target: "flow_alert" })
+      expect(mockUwFetch).not.toHaveBeenCalledWith("/api/alerts/configuration", undefined, expect.anything())
+      expect(result.text).toContain("column 17")
+      expect(result.text).toContain("Unknown field 'volumee' (did you mean 'volume'?)")
+    })
+
+    it("uses the target parameter for the grammar", async () => {
+      await handleAlertConfigs({
+        action_type: "create_configuration",
+        name: "Big trades",
+        noti_type: "custom",
+        input: "premium > 1000000",
+        target: "option_trade",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/query/grammar", { target: "option_trade" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/configuration", undefined, expect.objectContaining({
+        body: expect.not.objectContaining({ target: expect.anything() }),
+      }))
+    })
+
+    it("rejects input that does not parse", async () => {
+      mockUwFetch.mockImplementation(async (endpoint: string) => endpoint === "/api/alerts/query/grammar"
+        ? { data: { data: { fields: { volume: "integer" } } } }
+        : { data: { test: "data" } })
+
+      const result = await handleAlertConfigs({
+        action_type: "create_configuration",
+        name: "Big calls",
+        noti_type: "flow_alerts",
+        input: "where volume >",
+      })
+      expect(result.text).toContain("Expected a value but found end of expression")
+      expect(mockUwFetch).not.toHaveBeenCalledWith("/api/alerts/configuration", undefined, expect.anything())
+    })
+
+    it("leaves the input to the API when the grammar is not recognized", async () => {
+      mockUwFetch.mockImplementation(async (endpoint: string) => endpoint === "/api/alerts/query/grammar"
+        ? { data: { data: { columns: [{ id: "volume", kind: "integer" }] } } }
+        : { data: { test: "data" } })
+
+      await handleAlertConfigs({
+        action_type: "create_configuration",
+        name: "Big calls",
+        noti_type: "flow_alerts",
+        input: "where calls and volume > 100",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/query/grammar", { target: "flow_alert" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/configuration", undefined, expect.objectContaining({
+        body: expect.objectContaining({ input: "where calls and volume > 100" }),
+      }))
+    })
+
+    it("posts the input when the grammar cannot be fetched", async () => {
+      mockUwFetch.mockImplementation(async (endpoint: string) => endpoint === "/api/alerts/query/grammar"
+        ? { error: "API error (500): boom" }
+        : { data: { test: "data" } })
+
+      await handleAlertConfigs({
+        action_type: "create_configuration",
+        name: "Big calls",
+        noti_type: "flow_alerts",
+        input: "where calls",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/configuration", undefined, expect.anything())
+    })
+
+    it("returns error when name is missing", async () => {
+      const result = await handleAlertConfigs({ action_type: "create_configuration", noti_type: "news", input: "where calls" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("update_configuration action", () => {
+    const id = "ebe24953-a0bf-4b4d-98be-14f721a1199a"
+
+    it("posts the config with its id", async () => {
+      await handleAlertConfigs({
+        action_type: "update_configuration",
+        id,
+        name: "Energy call sweeps",
+        noti_type: "flow_alerts",
+        input: "where calls",
+        status: "paused",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/configuration", undefined, {
+        method: "POST",
+        body: {
+          id,
+          name: "Energy call sweeps",
+          noti_type: "flow_alerts",
+          config: undefined,
+          input: "where calls",
+          status: "paused",
+        },
+      })
+    })
+
+    it("rejects an id that is not a UUID", async () => {
+      const result = await handleAlertConfigs({
+        action_type: "update_configuration",
+        id: "not-a-uuid",
+        name: "Energy call sweeps",
+        noti_type: "flow_alerts",
+        input: "where calls",
+      })
+      expect(result.text).toContain("Alert configuration ID must be a UUID")
+    })
+  })
+})
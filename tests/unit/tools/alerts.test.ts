@@ -48,6 +48,7 @@ describe("alertsTool", () => {
       openWorldHint: true,
     })
   })
+
 })
 
 describe("handleAlerts", () => {
@@ -64,6 +65,17 @@ describe("handleAlerts", () => {
       expect(result.text).toContain("Invalid input")
     })
 
+    it("does not offer write actions", async () => {
+      const result = await handleAlerts({
+        action_type: "create_configuration",
+        name: "FED news",
+        noti_type: "news",
+        config: { symbols: "all" },
+      })
+      expect(result.text).toContain("Invalid input")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
     it("returns error for missing action", async () => {
       const result = await handleAlerts({})
       expect(result.text).toContain("Invalid input")
@@ -113,4 +125,28 @@ describe("handleAlerts", () => {
       expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/configuration")
     })
   })
+
+  describe("grammar action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleAlerts({ action_type: "grammar" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/query/grammar", { target: undefined })
+    })
+
+    it("passes target parameter", async () => {
+      await handleAlerts({ action_type: "grammar", target: "option_trade" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/query/grammar", { target: "option_trade" })
+    })
+
+    it("rejects unknown targets", async () => {
+      const result = await handleAlerts({ action_type: "grammar", target: "stock" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("filters action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleAlerts({ action_type: "filters" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/alerts/filters")
+    })
+  })
 })
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handleAnalytics, analyticsTool } from "../../../src/tools/analytics.js"
+
+// Mock the client module
+vi.mock("../../../src/client.js", () => ({
+  uwFetch: vi.fn(),
+  formatResponse: vi.fn((result) => {
+    if (result.error) {
+      return JSON.stringify({ error: result.error }, null, 2)
+    }
+    return JSON.stringify(result.data, null, 2)
+  }),
+  formatError: vi.fn((message) => JSON.stringify({ error: message })),
+  encodePath: vi.fn((value) => {
+    if (value === undefined || value === null) {
+      throw new Error("Path parameter is required")
+    }
+    const str = String(value)
+    if (str.includes("/") || str.includes("\\") || str.includes("..")) {
+      throw new Error("Invalid path parameter")
+    }
+    return encodeURIComponent(str)
+  }),
+}))
+
+import { uwFetch } from "../../../src/client.js"
+
+describe("analyticsTool", () => {
+  it("has correct name", () => {
+    expect(analyticsTool.name).toBe("uw_analytics")
+  })
+
+  it("has a description", () => {
+    expect(analyticsTool.description).toBeDefined()
+    expect(analyticsTool.description).toContain("analytics")
+  })
+
+  it("has inputSchema", () => {
+    expect(analyticsTool.inputSchema).toBeDefined()
+    // For discriminated unions, the schema has oneOf instead of type: "object"
+    expect(analyticsTool.inputSchema.oneOf || analyticsTool.inputSchema.type).toBeDefined()
+  })
+
+  it("has correct annotations", () => {
+    expect(analyticsTool.annotations).toEqual({
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    })
+  })
+})
+
+describe("handleAnalytics", () => {
+  const mockUwFetch = uwFetch as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUwFetch.mockResolvedValue({ data: { test: "data" } })
+  })
+
+  describe("input validation", () => {
+    it("returns error for invalid action", async () => {
+      const result = await handleAnalytics({ action_type: "invalid_action" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error when calculations are missing", async () => {
+      const result = await handleAnalytics({ action_type: "window", symbols: "AAPL", range: "2month" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("rejects an unsupported calculation", async () => {
+      const result = await handleAnalytics({
+        action_type: "window",
+        symbols: "AAPL",
+        range: "2month",
+        calculations: "MEAN,SHARPE",
+      })
+      expect(result.text).toContain("Calculations must be a comma-separated list of")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
+    it("rejects a malformed range", async () => {
+      const result = await handleAnalytics({
+        action_type: "window",
+        symbols: "AAPL",
+        range: "last month",
+        calculations: "MEAN",
+      })
+      expect(result.text).toContain("Range must be a YYYY-MM-DD date, a relative period like 2month, or full")
+    })
+
+    it("rejects range_end with a relative range", async () => {
+      const result = await handleAnalytics({
+        action_type: "sliding",
+        symbols: "AAPL",
+        range: "2month",
+        range_end: "2024-08-31",
+        calculations: "MEAN",
+      })
+      expect(result.text).toContain("range_end can only be used when range is a YYYY-MM-DD date")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
+    it("rejects range_end before the start date", async () => {
+      const result = await handleAnalytics({
+        action_type: "window",
+        symbols: "AAPL",
+        range: "2024-08-31",
+        range_end: "2024-06-01",
+        calculations: "MEAN",
+      })
+      expect(result.text).toContain("range_end must not be before range")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("window action", () => {
+    it("passes all parameters", async () => {
+      await handleAnalytics({
+        action_type: "window",
+        symbols: "AAPL,IBM,MSFT",
+        range: "2024-06-01",
+        range_end: "2024-08-31",
+        interval: "WEEKLY",
+        ohlc: "high",
+        calculations: "MEAN,STDDEV,CORRELATION",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/analytics/window", {
+        symbols: "AAPL,IBM,MSFT",
+        range: "2024-06-01",
+        range_end: "2024-08-31",
+        interval: "WEEKLY",
+        ohlc: "high",
+        calculations: "MEAN,STDDEV,CORRELATION",
+      })
+    })
+
+    it("accepts a single-day date range", async () => {
+      await handleAnalytics({
+        action_type: "window",
+        symbols: "SPY",
+        range: "2024-08-30",
+        range_end: "2024-08-30",
+        interval: "5min",
+        calculations: "MAX_DRAWDOWN",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/analytics/window", expect.objectContaining({
+        range: "2024-08-30",
+        range_end: "2024-08-30",
+      }))
+    })
+  })
+
+  describe("sliding action", () => {
+    it("calls uwFetch with correct endpoint and window size", async () => {
+      await handleAnalytics({
+        action_type: "sliding",
+        symbols: "NVDA,AMD",
+        range: "full",
+        window_size: 50,
+        calculations: "CORRELATION",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/analytics/sliding", expect.objectContaining({
+        symbols: "NVDA,AMD",
+        range: "full",
+        window_size: 50,
+        calculations: "CORRELATION",
+      }))
+    })
+
+    it("rejects a window size of zero", async () => {
+      const result = await handleAnalytics({
+        action_type: "sliding",
+        symbols: "NVDA",
+        range: "full",
+        window_size: 0,
+        calculations: "MEAN",
+      })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+})
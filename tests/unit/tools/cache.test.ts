@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { handleCache, cacheTool } from "../../../src/tools/cache.js"
+import { responseCache, getCachePolicy, getCacheScope } from "../../../src/cache.js"
+import { runWithRequestContext } from "../../../src/request-context.js"
+
+describe("cacheTool", () => {
+  it("has correct name", () => {
+    expect(cacheTool.name).toBe("uw_cache")
+  })
+
+  it("has a description", () => {
+    expect(cacheTool.description).toBeDefined()
+    expect(cacheTool.description).toContain("cache")
+  })
+
+  it("has inputSchema", () => {
+    expect(cacheTool.inputSchema).toBeDefined()
+    expect(cacheTool.inputSchema.oneOf || cacheTool.inputSchema.type).toBeDefined()
+  })
+
+  it("has correct annotations", () => {
+    expect(cacheTool.annotations).toEqual({
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    })
+  })
+})
+
+describe("handleCache", () => {
+  const scope = getCacheScope("test-api-key")
+
+  beforeEach(() => {
+    vi.stubEnv("UW_API_KEY", "test-api-key")
+    responseCache.clear()
+    responseCache.resetStats()
+    responseCache.set("/api/stock/AAPL/info", { ticker: "AAPL" }, getCachePolicy("/api/stock/AAPL/info"), scope)
+    responseCache.set("/api/market/market-tide", [], getCachePolicy("/api/market/market-tide"), scope)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  describe("scoping by API key", () => {
+    beforeEach(() => {
+      responseCache.set("/api/stock/MSFT/info", { ticker: "MSFT" }, getCachePolicy("/api/stock/MSFT/info"), getCacheScope("key-b"))
+    })
+
+    it("only reports and lists the caller's entries", async () => {
+      const stats = await runWithRequestContext({ apiKey: "key-b" }, () => handleCache({ action_type: "stats" }))
+      const list = await runWithRequestContext({ apiKey: "key-b" }, () => handleCache({ action_type: "list" }))
+
+      expect((stats.structuredContent as { entries: number }).entries).toBe(1)
+      expect((list.structuredContent as { entries: { key: string }[] }).entries.map((e) => e.key))
+        .toEqual(["/api/stock/MSFT/info"])
+    })
+
+    it("only flushes the caller's entries", async () => {
+      const result = await runWithRequestContext({ apiKey: "key-b" }, () => handleCache({ action_type: "flush" }))
+
+      expect(result.structuredContent).toEqual({ removed: 1, prefix: null })
+      expect(responseCache.list(scope)).toHaveLength(2)
+      expect(responseCache.list(getCacheScope("key-b"))).toHaveLength(0)
+    })
+  })
+
+  describe("input validation", () => {
+    it("returns error for invalid action", async () => {
+      const result = await handleCache({ action_type: "invalid_action" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for prefix outside the API", async () => {
+      const result = await handleCache({ action_type: "flush", prefix: "stock" })
+      expect(result.text).toContain("Prefix must be an endpoint path")
+    })
+  })
+
+  describe("stats action", () => {
+    it("returns statistics and policies", async () => {
+      const result = await handleCache({ action_type: "stats" })
+      const data = result.structuredContent as Record<string, unknown>
+
+      expect(data.entries).toBe(2)
+      expect(data.enabled).toBe(true)
+      expect(data.disk).toBeNull()
+      expect(data.policies).toContainEqual(
+        expect.objectContaining({ name: "stock-info", ttl_seconds: 21600 }),
+      )
+    })
+  })
+
+  describe("list action", () => {
+    it("lists entries, most recent first", async () => {
+      const result = await handleCache({ action_type: "list" })
+      const data = result.structuredContent as { count: number; entries: { key: string; policy: string }[] }
+
+      expect(data.count).toBe(2)
+      expect(data.entries[0].key).toBe("/api/market/market-tide")
+      expect(data.entries[1]).toMatchObject({ key: "/api/stock/AAPL/info", policy: "stock-info" })
+    })
+
+    it("filters by prefix", async () => {
+      const result = await handleCache({ action_type: "list", prefix: "/api/stock/" })
+      const data = result.structuredContent as { count: number }
+      expect(data.count).toBe(1)
+    })
+
+    it("respects limit", async () => {
+      const result = await handleCache({ action_type: "list", limit: 1 })
+      const data = result.structuredContent as { count: number }
+      expect(data.count).toBe(1)
+    })
+  })
+
+  describe("flush action", () => {
+    it("flushes all entries", async () => {
+      const result = await handleCache({ action_type: "flush" })
+      expect(result.structuredContent).toEqual({ removed: 2, prefix: null })
+      expect(responseCache.list()).toHaveLength(0)
+    })
+
+    it("flushes entries matching a prefix", async () => {
+      const result = await handleCache({ action_type: "flush", prefix: "/api/stock/AAPL" })
+      expect(result.structuredContent).toEqual({ removed: 1, prefix: "/api/stock/AAPL" })
+      expect(responseCache.list()).toHaveLength(1)
+    })
+  })
+})
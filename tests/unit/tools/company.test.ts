@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handleCompany, companyTool } from "../../../src/tools/company.js"
+
+// Mock the client module
+vi.mock("../../../src/client.js", () => ({
+  uwFetch: vi.fn(),
+  formatResponse: vi.fn((result) => {
+    if (result.error) {
+      return JSON.stringify({ error: result.error }, null, 2)
+    }
+    return JSON.stringify(result.data, null, 2)
+  }),
+  formatError: vi.fn((message) => JSON.stringify({ error: message })),
+  encodePath: vi.fn((value) => {
+    if (value === undefined || value === null) {
+      throw new Error("Path parameter is required")
+    }
+    const str = String(value)
+    if (str.includes("/") || str.includes("\\") || str.includes("..")) {
+      throw new Error("Invalid path parameter")
+    }
+    return encodeURIComponent(str)
+  }),
+}))
+
+import { uwFetch } from "../../../src/client.js"
+
+
+function transcriptResponse(contents: string[]) {
+  return {
+    data: {
+      data: {
+        ticker: "AAPL",
+        quarter: "2024Q1",
+        statements: contents.map((content, i) => ({ speaker: `Speaker ${i}`, title: null, sentiment: 0.5, content })),
+      },
+    },
+  }
+}
+
+describe("companyTool", () => {
+  it("has correct name", () => {
+    expect(companyTool.name).toBe("uw_company")
+  })
+
+  it("has a description", () => {
+    expect(companyTool.description).toBeDefined()
+    expect(companyTool.description).toContain("transcript")
+  })
+
+  it("has inputSchema", () => {
+    expect(companyTool.inputSchema).toBeDefined()
+    // For discriminated unions, the schema has oneOf instead of type: "object"
+    expect(companyTool.inputSchema.oneOf || companyTool.inputSchema.type).toBeDefined()
+  })
+
+  it("has correct annotations", () => {
+    expect(companyTool.annotations).toEqual({
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    })
+  })
+})
+
+describe("handleCompany", () => {
+  const mockUwFetch = uwFetch as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUwFetch.mockResolvedValue({ data: { test: "data" } })
+  })
+
+  describe("input validation", () => {
+    it("returns error for invalid action", async () => {
+      const result = await handleCompany({ action_type: "invalid_action" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for missing action", async () => {
+      const result = await handleCompany({})
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error when ticker is missing", async () => {
+      const result = await handleCompany({ action_type: "profile" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("ticker actions", () => {
+    const cases: Array<[string, string]> = [
+      ["profile", "/api/companies/AAPL/profile"],
+      ["dividends", "/api/companies/AAPL/dividends"],
+      ["splits", "/api/companies/AAPL/splits"],
+      ["earnings_estimates", "/api/companies/AAPL/earnings-estimates"],
+      ["balance_sheets", "/api/stock/AAPL/balance-sheets"],
+      ["cash_flows", "/api/stock/AAPL/cash-flows"],
+      ["income_statements", "/api/stock/AAPL/income-statements"],
+      ["financials", "/api/stock/AAPL/financials"],
+      ["fundamental_breakdown", "/api/stock/AAPL/fundamental-breakdown"],
+    ]
+
+    it.each(cases)("%s calls uwFetch with correct endpoint", async (action, endpoint) => {
+      await handleCompany({ action_type: action, ticker: "AAPL" })
+      expect(mockUwFetch).toHaveBeenCalledWith(endpoint)
+    })
+  })
+
+  describe("listings action", () => {
+    it("passes status and date", async () => {
+      await handleCompany({ action_type: "listings", status: "delisted", date: "2024-01-15" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/companies/listings", {
+        status: "delisted",
+        date: "2024-01-15",
+      })
+    })
+
+    it("returns error for an invalid status", async () => {
+      const result = await handleCompany({ action_type: "listings", status: "halted" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("transcript action", () => {
+    it("returns error when quarter is missing", async () => {
+      const result = await handleCompany({ action_type: "transcript", ticker: "AAPL" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for an invalid quarter", async () => {
+      const result = await handleCompany({ action_type: "transcript", ticker: "AAPL", quarter: "2024Q5" })
+      expect(result.text).toContain("Quarter must be in YYYYQN format")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      mockUwFetch.mockResolvedValue(transcriptResponse(["Good afternoon."]))
+      await handleCompany({ action_type: "transcript", ticker: "AAPL", quarter: "2024Q1" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/companies/AAPL/transcripts/2024Q1")
+    })
+
+    it("returns the whole transcript when it fits", async () => {
+      mockUwFetch.mockResolvedValue(transcriptResponse(["Good afternoon.", "Thank you."]))
+      const result = await handleCompany({ action_type: "transcript", ticker: "AAPL", quarter: "2024Q1" })
+      expect(result.structuredContent).toEqual({
+        data: {
+          ticker: "AAPL",
+          quarter: "2024Q1",
+          total_statements: 2,
+          offset: 0,
+          next_offset: null,
+          statements: [
+            { speaker: "Speaker 0", title: null, sentiment: 0.5, content: "Good afternoon." },
+            { speaker: "Speaker 1", title: null, sentiment: 0.5, content: "Thank you." },
+          ],
+        },
+      })
+    })
+
+    it("pages whole statements up to max_chars", async () => {
+      mockUwFetch.mockResolvedValue(transcriptResponse(["a".repeat(600), "b".repeat(600), "c".repeat(600)]))
+
+      const first = await handleCompany({ action_type: "transcript", ticker: "AAPL", quarter: "2024Q1", max_chars: 1500 })
+      const firstPage = (first.structuredContent as { data: { statements: unknown[]; next_offset: number | null } }).data
+      expect(firstPage.statements).toHaveLength(2)
+      expect(firstPage.next_offset).toBe(2)
+
+      const second = await handleCompany({
+        action_type: "transcript",
+        ticker: "AAPL",
+        quarter: "2024Q1",
+        max_chars: 1500,
+        offset: 2,
+      })
+      const secondPage = (second.structuredContent as { data: { statements: Array<{ content: string }>; next_offset: number | null } }).data
+      expect(secondPage.statements).toEqual([expect.objectContaining({ content: "c".repeat(600) })])
+      expect(secondPage.next_offset).toBeNull()
+    })
+
+    it("truncates a single statement longer than max_chars", async () => {
+      mockUwFetch.mockResolvedValue(transcriptResponse(["x".repeat(5000), "Thank you."]))
+
+      const result = await handleCompany({ action_type: "transcript", ticker: "AAPL", quarter: "2024Q1", max_chars: 1000 })
+      const page = (result.structuredContent as { data: { statements: Array<{ content: string; content_truncated?: boolean }>; next_offset: number | null } }).data
+      expect(page.statements).toHaveLength(1)
+      expect(page.statements[0].content).toHaveLength(1000)
+      expect(page.statements[0].content_truncated).toBe(true)
+      expect(page.next_offset).toBe(1)
+    })
+
+    it("returns error for max_chars above the limit", async () => {
+      const result = await handleCompany({ action_type: "transcript", ticker: "AAPL", quarter: "2024Q1", max_chars: 500_000 })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("passes API errors through", async () => {
+      mockUwFetch.mockResolvedValue({ error: "API error (404): Not found" })
+      const result = await handleCompany({ action_type: "transcript", ticker: "AAPL", quarter: "2024Q1" })
+      expect(result.text).toContain("API error (404)")
+    })
+  })
+})
@@ -141,4 +141,82 @@ describe("handleCongress", () => {
       }))
     })
   })
+
+  describe("unusual_trades action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleCongress({ action_type: "unusual_trades" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/congress/unusual-trades", expect.any(Object))
+    })
+
+    it("passes filter parameters", async () => {
+      await handleCongress({
+        action_type: "unusual_trades",
+        types: "committee_conflict,unusually_large_trade",
+        limit: 250,
+        page: 2,
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/congress/unusual-trades", {
+        types: "committee_conflict,unusually_large_trade",
+        limit: 250,
+        page: 2,
+      })
+    })
+  })
+
+  describe("unusual_trades_by_tickers action", () => {
+    it("passes filter parameters", async () => {
+      await handleCongress({
+        action_type: "unusual_trades_by_tickers",
+        tickers: "AAPL,NVDA",
+        transaction_type: "buy",
+        date_from: "2024-01-01",
+        date_to: "2024-03-31",
+        politician: "pelosi",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/congress/unusual-trades/by-tickers", expect.objectContaining({
+        tickers: "AAPL,NVDA",
+        transaction_type: "buy",
+        date_from: "2024-01-01",
+        date_to: "2024-03-31",
+        politician: "pelosi",
+      }))
+    })
+
+    it("rejects an invalid transaction type", async () => {
+      const result = await handleCongress({ action_type: "unusual_trades_by_tickers", transaction_type: "hold" })
+      expect(result.text).toContain("Invalid")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("unusual_trades_chart action", () => {
+    it("passes the date range", async () => {
+      await handleCongress({ action_type: "unusual_trades_chart", date_from: "2024-01-01", date_to: "2024-03-31" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/congress/unusual-trades/chart-data", {
+        date_from: "2024-01-01",
+        date_to: "2024-03-31",
+      })
+    })
+  })
+
+  describe("unusual_trades_stats action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleCongress({ action_type: "unusual_trades_stats" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/congress/unusual-trades/stats")
+    })
+  })
+
+  describe("politicians action", () => {
+    it("passes last_traded_within_months", async () => {
+      await handleCongress({ action_type: "politicians", last_traded_within_months: 13 })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/congress/politicians", {
+        last_traded_within_months: 13,
+      })
+    })
+
+    it("rejects a lookback beyond 240 months", async () => {
+      const result = await handleCongress({ action_type: "politicians", last_traded_within_months: 241 })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
 })
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handleCrypto, cryptoTool } from "../../../src/tools/crypto.js"
+
+// Mock the client module
+vi.mock("../../../src/client.js", () => ({
+  uwFetch: vi.fn(),
+  formatResponse: vi.fn((result) => {
+    if (result.error) {
+      return JSON.stringify({ error: result.error }, null, 2)
+    }
+    return JSON.stringify(result.data, null, 2)
+  }),
+  formatError: vi.fn((message) => JSON.stringify({ error: message })),
+  encodePath: vi.fn((value) => {
+    if (value === undefined || value === null) {
+      throw new Error("Path parameter is required")
+    }
+    const str = String(value)
+    if (str.includes("/") || str.includes("\\") || str.includes("..")) {
+      throw new Error("Invalid path parameter")
+    }
+    return encodeURIComponent(str)
+  }),
+}))
+
+import { uwFetch } from "../../../src/client.js"
+
+describe("cryptoTool", () => {
+  it("has correct name", () => {
+    expect(cryptoTool.name).toBe("uw_crypto")
+  })
+
+  it("has a description", () => {
+    expect(cryptoTool.description).toBeDefined()
+    expect(cryptoTool.description).toContain("crypto")
+  })
+
+  it("has inputSchema", () => {
+    expect(cryptoTool.inputSchema).toBeDefined()
+    // For discriminated unions, the schema has oneOf instead of type: "object"
+    expect(cryptoTool.inputSchema.oneOf || cryptoTool.inputSchema.type).toBeDefined()
+  })
+
+  it("has correct annotations", () => {
+    expect(cryptoTool.annotations).toEqual({
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    })
+  })
+})
+
+describe("handleCrypto", () => {
+  const mockUwFetch = uwFetch as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUwFetch.mockResolvedValue({ data: { test: "data" } })
+  })
+
+  describe("input validation", () => {
+    it("returns error for invalid action", async () => {
+      const result = await handleCrypto({ action_type: "invalid_action" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for missing action", async () => {
+      const result = await handleCrypto({})
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for a pair without a quote currency", async () => {
+      const result = await handleCrypto({ action_type: "state", pair: "BTC" })
+      expect(result.text).toContain("Crypto pair must be in BASE-QUOTE format")
+    })
+
+    it("returns error for a pair with path characters", async () => {
+      const result = await handleCrypto({ action_type: "state", pair: "BTC/USD" })
+      expect(result.text).toContain("Crypto pair must be in BASE-QUOTE format")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("whale_transactions action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleCrypto({ action_type: "whale_transactions", limit: 100 })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/crypto/whale-transactions", { limit: 100 })
+    })
+  })
+
+  describe("recent_whales action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleCrypto({ action_type: "recent_whales" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/crypto/whales/recent", expect.any(Object))
+    })
+  })
+
+  describe("ohlc action", () => {
+    it("returns error when candle_size is missing", async () => {
+      const result = await handleCrypto({ action_type: "ohlc", pair: "BTC-USD" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleCrypto({ action_type: "ohlc", pair: "BTC-USD", candle_size: "1h", date: "2024-01-15" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/crypto/BTC-USD/ohlc/1h", expect.objectContaining({
+        date: "2024-01-15",
+      }))
+    })
+
+    it("accepts weekly candles", async () => {
+      await handleCrypto({ action_type: "ohlc", pair: "ETH-USD", candle_size: "1w" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/crypto/ETH-USD/ohlc/1w", expect.any(Object))
+    })
+
+    it("returns error for invalid candle size", async () => {
+      const result = await handleCrypto({ action_type: "ohlc", pair: "BTC-USD", candle_size: "2h" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("state action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleCrypto({ action_type: "state", pair: "BTC-USD" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/crypto/BTC-USD/state")
+    })
+  })
+
+  describe("history action", () => {
+    it("returns error when market is missing", async () => {
+      const result = await handleCrypto({ action_type: "history", symbol: "BTC" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleCrypto({ action_type: "history", symbol: "BTC", market: "USD", interval: "weekly" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/digital-currencies/history", {
+        symbol: "BTC",
+        market: "USD",
+        interval: "weekly",
+      })
+    })
+  })
+
+  describe("intraday action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleCrypto({ action_type: "intraday", symbol: "ETH", market: "USD", interval: "15min" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/digital-currencies/intraday", {
+        symbol: "ETH",
+        market: "USD",
+        interval: "15min",
+      })
+    })
+
+    it("returns error for a history interval", async () => {
+      const result = await handleCrypto({ action_type: "intraday", symbol: "ETH", market: "USD", interval: "daily" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+})
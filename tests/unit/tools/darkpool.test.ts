@@ -127,4 +127,16 @@ describe("handleDarkpool", () => {
       }))
     })
   })
+
+  describe("price_levels action", () => {
+    it("returns error when ticker is missing", async () => {
+      const result = await handleDarkpool({ action_type: "price_levels" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleDarkpool({ action_type: "price_levels", ticker: "AAPL", date: "2024-01-15" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/darkpool/AAPL/price-levels", { date: "2024-01-15" })
+    })
+  })
 })
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handleEvents, eventsTool } from "../../../src/tools/events.js"
+
+// Mock the client module
+vi.mock("../../../src/client.js", () => ({
+  uwFetch: vi.fn(),
+  formatResponse: vi.fn((result) => {
+    if (result.error) {
+      return JSON.stringify({ error: result.error }, null, 2)
+    }
+    return JSON.stringify(result.data, null, 2)
+  }),
+  formatError: vi.fn((message) => JSON.stringify({ error: message })),
+  encodePath: vi.fn((value) => {
+    if (value === undefined || value === null) {
+      throw new Error("Path parameter is required")
+    }
+    const str = String(value)
+    if (str.includes("/") || str.includes("\\") || str.includes("..")) {
+      throw new Error("Invalid path parameter")
+    }
+    return encodeURIComponent(str)
+  }),
+}))
+
+import { uwFetch } from "../../../src/client.js"
+
+describe("eventsTool", () => {
+  it("has correct name", () => {
+    expect(eventsTool.name).toBe("uw_events")
+  })
+
+  it("has a description", () => {
+    expect(eventsTool.description).toBeDefined()
+    expect(eventsTool.description).toContain("schedule")
+  })
+
+  it("has inputSchema", () => {
+    expect(eventsTool.inputSchema).toBeDefined()
+    // For discriminated unions, the schema has oneOf instead of type: "object"
+    expect(eventsTool.inputSchema.oneOf || eventsTool.inputSchema.type).toBeDefined()
+  })
+
+  it("has correct annotations", () => {
+    expect(eventsTool.annotations).toEqual({
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    })
+  })
+})
+
+describe("handleEvents", () => {
+  const mockUwFetch = uwFetch as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUwFetch.mockResolvedValue({ data: { test: "data" } })
+  })
+
+  describe("input validation", () => {
+    it("returns error for invalid action", async () => {
+      const result = await handleEvents({ action_type: "invalid_action" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for missing action", async () => {
+      const result = await handleEvents({})
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("potus_posts action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleEvents({ action_type: "potus_posts" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/potus/posts", expect.any(Object))
+    })
+
+    it("passes search and paging parameters", async () => {
+      await handleEvents({ action_type: "potus_posts", search_term: "tariff", limit: 50, page: 0 })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/potus/posts", {
+        search_term: "tariff",
+        limit: 50,
+        page: 0,
+      })
+    })
+
+    it("rejects limit above 200", async () => {
+      const result = await handleEvents({ action_type: "potus_posts", limit: 201 })
+      expect(result.text).toContain("Invalid input")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("potus_schedule action", () => {
+    it("passes the date", async () => {
+      await handleEvents({ action_type: "potus_schedule", date: "2025-04-02" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/potus/schedule", expect.objectContaining({
+        date: "2025-04-02",
+      }))
+    })
+
+    it("rejects a malformed date", async () => {
+      const result = await handleEvents({ action_type: "potus_schedule", date: "April 2" })
+      expect(result.text).toContain("Date must be in YYYY-MM-DD format")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
+    it("rejects a negative page", async () => {
+      const result = await handleEvents({ action_type: "potus_schedule", page: -1 })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+})
@@ -277,4 +277,179 @@ describe("handleFlow", () => {
       }))
     })
   })
+
+  describe("flow_alert_trades action", () => {
+    const alertId = "0b1f6c9e-2d4a-4f8b-9c3e-5a7d8e9f0a1b"
+
+    it("calls uwFetch with the alert ID in the path", async () => {
+      await handleFlow({ action_type: "flow_alert_trades", id: alertId, older_than: "1705334400" })
+      expect(mockUwFetch).toHaveBeenCalledWith(`/api/option-trades/flow-alerts/${alertId}`, {
+        older_than: "1705334400",
+      })
+    })
+
+    it("rejects an ID that is not a UUID", async () => {
+      const result = await handleFlow({ action_type: "flow_alert_trades", id: "../alerts" })
+      expect(result.text).toContain("Flow alert ID must be a UUID")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("multi_leg_trades action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleFlow({ action_type: "multi_leg_trades" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/option-trades/multi-leg", expect.any(Object))
+    })
+
+    it("sends array filters with bracketed names", async () => {
+      await handleFlow({
+        action_type: "multi_leg_trades",
+        ticker_symbol: "SPY",
+        strategy: ["iron_condor", "call_vertical_spread"],
+        direction: ["short"],
+        net_side: ["bid", "mid"],
+        sectors: ["Technology"],
+        min_premium: "abs(100000)",
+        max_dte: 45,
+        min_leg_count: 4,
+        all_otm: true,
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/option-trades/multi-leg", expect.objectContaining({
+        ticker_symbol: "SPY",
+        "strategy[]": ["iron_condor", "call_vertical_spread"],
+        "direction[]": ["short"],
+        "net_side[]": ["bid", "mid"],
+        "sectors[]": ["Technology"],
+        min_premium: "abs(100000)",
+        max_dte: 45,
+        min_leg_count: 4,
+        all_otm: true,
+      }))
+    })
+
+    it("rejects an unknown strategy", async () => {
+      const result = await handleFlow({ action_type: "multi_leg_trades", strategy: ["moon_shot"] })
+      expect(result.text).toContain("Invalid")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
+    it("rejects a malformed premium filter", async () => {
+      const result = await handleFlow({ action_type: "multi_leg_trades", min_premium: "over 9000" })
+      expect(result.text).toContain("Premium filter must be a number or abs(<number>)")
+    })
+  })
+
+  describe("multi_leg_legs action", () => {
+    it("calls uwFetch with the strategy ID in the path", async () => {
+      const id = "7c9e6679-7425-40de-944b-e07fc1f90ae7"
+      await handleFlow({ action_type: "multi_leg_legs", id })
+      expect(mockUwFetch).toHaveBeenCalledWith(`/api/option-trades/multi-leg/${id}/legs`)
+    })
+
+    it("returns error when id is missing", async () => {
+      const result = await handleFlow({ action_type: "multi_leg_legs" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("exchange_breakdown action", () => {
+    it("returns error when date is missing", async () => {
+      const result = await handleFlow({ action_type: "exchange_breakdown" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("passes tickers and ranking parameters", async () => {
+      await handleFlow({
+        action_type: "exchange_breakdown",
+        date: "2024-01-15",
+        ticker: ["AAPL", "MSFT"],
+        by_trade_code: true,
+        min_premium: 10000,
+        order: "premium",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/option-trades/exchange-breakdown/2024-01-15", expect.objectContaining({
+        "ticker[]": ["AAPL", "MSFT"],
+        by_trade_code: true,
+        min_premium: 10000,
+        order: "premium",
+      }))
+    })
+  })
+
+  describe("option_trades action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleFlow({ action_type: "option_trades" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/option-trades", expect.any(Object))
+    })
+
+    it("passes scalar and array filters", async () => {
+      await handleFlow({
+        action_type: "option_trades",
+        ticker_symbol: "AAPL,-TSLA",
+        type: "call",
+        exchanges: ["XCBO", "XPHO"],
+        tags: ["ask_side"],
+        trade_codes: ["slan"],
+        min_premium: 50000,
+        min_delta: 0.3,
+        max_dte: 30,
+        opening: true,
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/option-trades", expect.objectContaining({
+        ticker_symbol: "AAPL,-TSLA",
+        type: "call",
+        "exchanges[]": ["XCBO", "XPHO"],
+        "tags[]": ["ask_side"],
+        "trade_codes[]": ["slan"],
+        min_premium: 50000,
+        min_delta: 0.3,
+        max_dte: 30,
+        opening: "true",
+      }))
+    })
+
+    it("sends false boolean filters in the request URL", async () => {
+      const actual = await vi.importActual<typeof import("../../../src/client.js")>("../../../src/client.js")
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve('{"data": []}'),
+      })
+      vi.stubEnv("UW_API_KEY", "test-api-key")
+      vi.stubGlobal("fetch", mockFetch)
+      mockUwFetch.mockImplementationOnce(actual.uwFetch)
+
+      try {
+        await handleFlow({
+          action_type: "option_trades",
+          canceled: false,
+          is_multi_leg: false,
+          is_otm: false,
+          opening: false,
+        })
+      } finally {
+        vi.unstubAllGlobals()
+        vi.unstubAllEnvs()
+      }
+
+      const url = new URL(mockFetch.mock.calls[0][0])
+      expect(url.pathname).toBe("/api/option-trades")
+      expect(url.searchParams.get("canceled")).toBe("false")
+      expect(url.searchParams.get("is_multi_leg")).toBe("false")
+      expect(url.searchParams.get("is_otm")).toBe("false")
+      expect(url.searchParams.get("opening")).toBe("false")
+    })
+
+    it("rejects percentage filters outside 0 to 1", async () => {
+      const result = await handleFlow({ action_type: "option_trades", min_ask_perc: 60 })
+      expect(result.text).toContain("Invalid input")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("optionable_tickers action", () => {
+    it("calls uwFetch with an optional ticker", async () => {
+      await handleFlow({ action_type: "optionable_tickers", ticker: "AAPL" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/option-trades/optionable-tickers", { ticker: "AAPL" })
+    })
+  })
 })
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handleFutures, futuresTool } from "../../../src/tools/futures.js"
+
+// Mock the client module
+vi.mock("../../../src/client.js", () => ({
+  uwFetch: vi.fn(),
+  formatResponse: vi.fn((result) => {
+    if (result.error) {
+      return JSON.stringify({ error: result.error }, null, 2)
+    }
+    return JSON.stringify(result.data, null, 2)
+  }),
+  formatError: vi.fn((message) => JSON.stringify({ error: message })),
+  encodePath: vi.fn((value) => {
+    if (value === undefined || value === null) {
+      throw new Error("Path parameter is required")
+    }
+    const str = String(value)
+    if (str.includes("/") || str.includes("\\") || str.includes("..")) {
+      throw new Error("Invalid path parameter")
+    }
+    return encodeURIComponent(str)
+  }),
+}))
+
+import { uwFetch } from "../../../src/client.js"
+
+
+describe("futuresTool", () => {
+  it("has correct name", () => {
+    expect(futuresTool.name).toBe("uw_futures")
+  })
+
+  it("has a description", () => {
+    expect(futuresTool.description).toBeDefined()
+    expect(futuresTool.description).toContain("futures")
+  })
+
+  it("has inputSchema", () => {
+    expect(futuresTool.inputSchema).toBeDefined()
+    // For discriminated unions, the schema has oneOf instead of type: "object"
+    expect(futuresTool.inputSchema.oneOf || futuresTool.inputSchema.type).toBeDefined()
+  })
+
+  it("has outputSchema", () => {
+    expect(futuresTool.outputSchema).toBeDefined()
+  })
+
+  it("has correct annotations", () => {
+    expect(futuresTool.annotations).toEqual({
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    })
+  })
+})
+
+describe("handleFutures", () => {
+  const mockUwFetch = uwFetch as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUwFetch.mockResolvedValue({ data: { test: "data" } })
+  })
+
+  describe("input validation", () => {
+    it("returns error for invalid action", async () => {
+      const result = await handleFutures({ action_type: "invalid_action" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for missing action", async () => {
+      const result = await handleFutures({})
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for an undated contract symbol", async () => {
+      const result = await handleFutures({ action_type: "stats", contract: "ES" })
+      expect(result.text).toContain("Contract symbol must be a product code, month code, and year")
+    })
+
+    it("returns error for an invalid month code", async () => {
+      const result = await handleFutures({ action_type: "stats", contract: "ESA6" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for limit above 500", async () => {
+      const result = await handleFutures({ action_type: "flow", limit: 501 })
+      expect(result.text).toContain("Limit cannot exceed 500")
+    })
+
+    it("returns error for a non-ISO cursor", async () => {
+      const result = await handleFutures({ action_type: "flow", older_than: "yesterday" })
+      expect(result.text).toContain("Timestamp must be in ISO 8601 format")
+    })
+  })
+
+  describe("contracts action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleFutures({ action_type: "contracts", days: 7 })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/futures/contracts", { days: 7 })
+    })
+
+    it("returns error for days above 30", async () => {
+      const result = await handleFutures({ action_type: "contracts", days: 31 })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("flow action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleFutures({ action_type: "flow" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/futures/flow", expect.any(Object))
+    })
+
+    it("passes filter parameters", async () => {
+      await handleFutures({
+        action_type: "flow",
+        limit: 200,
+        older_than: "2026-03-02T15:30:00Z",
+        products: "ES,NQ",
+        side: "buy",
+        min_size: 50,
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/futures/flow", expect.objectContaining({
+        limit: 200,
+        older_than: "2026-03-02T15:30:00Z",
+        products: "ES,NQ",
+        side: "buy",
+        min_size: 50,
+      }))
+    })
+
+    it("sends include_spreads=false in the request URL", async () => {
+      const actual = await vi.importActual<typeof import("../../../src/client.js")>("../../../src/client.js")
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve('{"data": []}'),
+      })
+      vi.stubEnv("UW_API_KEY", "test-api-key")
+      vi.stubGlobal("fetch", mockFetch)
+      mockUwFetch.mockImplementationOnce(actual.uwFetch)
+
+      try {
+        await handleFutures({ action_type: "flow", products: "ES", include_spreads: false })
+      } finally {
+        vi.unstubAllGlobals()
+        vi.unstubAllEnvs()
+      }
+
+      const url = new URL(mockFetch.mock.calls[0][0])
+      expect(url.pathname).toBe("/api/futures/flow")
+      expect(url.searchParams.get("include_spreads")).toBe("false")
+    })
+  })
+
+  describe("candles action", () => {
+    it("returns error when contract is missing", async () => {
+      const result = await handleFutures({ action_type: "candles" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleFutures({ action_type: "candles", contract: "ESU6", interval: "5m", range: "5d" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/futures/ESU6/candles", {
+        interval: "5m",
+        range: "5d",
+      })
+    })
+
+    it("returns error for an unsupported interval", async () => {
+      const result = await handleFutures({ action_type: "candles", contract: "ESU6", interval: "1h" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("stats action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleFutures({ action_type: "stats", contract: "NQZ6" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/futures/NQZ6/stats")
+    })
+
+    it("accepts calendar spread contracts", async () => {
+      await handleFutures({ action_type: "stats", contract: "ESU6-ESZ6" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/futures/ESU6-ESZ6/stats")
+    })
+  })
+
+  describe("trades action", () => {
+    it("passes cursor parameters", async () => {
+      await handleFutures({
+        action_type: "trades",
+        contract: "ESU6",
+        limit: 50,
+        newer_than: "2026-03-02T15:30:00-05:00",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/futures/ESU6/trades", expect.objectContaining({
+        limit: 50,
+        newer_than: "2026-03-02T15:30:00-05:00",
+      }))
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handleMacro, macroTool } from "../../../src/tools/macro.js"
+
+// Mock the client module
+vi.mock("../../../src/client.js", () => ({
+  uwFetch: vi.fn(),
+  formatResponse: vi.fn((result) => {
+    if (result.error) {
+      return JSON.stringify({ error: result.error }, null, 2)
+    }
+    return JSON.stringify(result.data, null, 2)
+  }),
+  formatError: vi.fn((message) => JSON.stringify({ error: message })),
+  encodePath: vi.fn((value) => {
+    if (value === undefined || value === null) {
+      throw new Error("Path parameter is required")
+    }
+    const str = String(value)
+    if (str.includes("/") || str.includes("\\") || str.includes("..")) {
+      throw new Error("Invalid path parameter")
+    }
+    return encodeURIComponent(str)
+  }),
+}))
+
+import { uwFetch } from "../../../src/client.js"
+
+
+describe("macroTool", () => {
+  it("has correct name", () => {
+    expect(macroTool.name).toBe("uw_macro")
+  })
+
+  it("has a description", () => {
+    expect(macroTool.description).toBeDefined()
+    expect(macroTool.description).toContain("macro")
+  })
+
+  it("has inputSchema", () => {
+    expect(macroTool.inputSchema).toBeDefined()
+    // For discriminated unions, the schema has oneOf instead of type: "object"
+    expect(macroTool.inputSchema.oneOf || macroTool.inputSchema.type).toBeDefined()
+  })
+
+  it("has correct annotations", () => {
+    expect(macroTool.annotations).toEqual({
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    })
+  })
+})
+
+describe("handleMacro", () => {
+  const mockUwFetch = uwFetch as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUwFetch.mockResolvedValue({ data: { test: "data" } })
+  })
+
+  describe("input validation", () => {
+    it("returns error for invalid action", async () => {
+      const result = await handleMacro({ action_type: "invalid_action" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for missing action", async () => {
+      const result = await handleMacro({})
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for an invalid currency code", async () => {
+      const result = await handleMacro({ action_type: "forex_rate", from: "US", to: "EUR" })
+      expect(result.text).toContain("Currency code must be a 3-letter ISO 4217 code")
+    })
+  })
+
+  describe("forex_rate action", () => {
+    it("returns error when to is missing", async () => {
+      const result = await handleMacro({ action_type: "forex_rate", from: "USD" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleMacro({ action_type: "forex_rate", from: "USD", to: "EUR" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/forex/rate", { from: "USD", to: "EUR" })
+    })
+  })
+
+  describe("forex_history action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleMacro({ action_type: "forex_history", from: "EUR", to: "USD", interval: "weekly" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/forex/history", {
+        from: "EUR",
+        to: "USD",
+        interval: "weekly",
+      })
+    })
+  })
+
+  describe("forex_intraday action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleMacro({ action_type: "forex_intraday", from: "USD", to: "JPY", interval: "1min" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/forex/intraday", {
+        from: "USD",
+        to: "JPY",
+        interval: "1min",
+      })
+    })
+
+    it("returns error for a daily interval", async () => {
+      const result = await handleMacro({ action_type: "forex_intraday", from: "USD", to: "JPY", interval: "daily" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("commodity action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleMacro({ action_type: "commodity", name: "natural-gas", interval: "daily" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/commodities/natural-gas", { interval: "daily" })
+    })
+
+    it("returns error for an unknown commodity", async () => {
+      const result = await handleMacro({ action_type: "commodity", name: "gold" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("economic_indicator action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleMacro({ action_type: "economic_indicator", indicator: "cpi", interval: "monthly" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/economy/cpi", expect.objectContaining({
+        interval: "monthly",
+      }))
+    })
+
+    it("does not pass maturity", async () => {
+      await handleMacro({ action_type: "economic_indicator", indicator: "cpi", maturity: "10year" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/economy/cpi", { interval: undefined })
+    })
+
+    it("returns error for an unknown indicator", async () => {
+      const result = await handleMacro({ action_type: "economic_indicator", indicator: "pmi" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("treasury_yield action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleMacro({ action_type: "treasury_yield", maturity: "10year", interval: "daily" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/economy/treasury-yield", {
+        maturity: "10year",
+        interval: "daily",
+      })
+    })
+
+    it("returns error for an unknown maturity", async () => {
+      const result = await handleMacro({ action_type: "treasury_yield", maturity: "1year" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+})
@@ -292,4 +292,151 @@ describe("handleMarket", () => {
       }))
     })
   })
+
+  describe("volatility_anomalies action", () => {
+    it("returns error when direction is missing", async () => {
+      const result = await handleMarket({ action_type: "volatility_anomalies" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint and parameters", async () => {
+      await handleMarket({ action_type: "volatility_anomalies", direction: "short_vol", date: "2024-01-15", limit: 20 })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/volatility/anomaly/top", {
+        direction: "short_vol",
+        date: "2024-01-15",
+        limit: 20,
+      })
+    })
+
+    it("rejects limit above 200", async () => {
+      const result = await handleMarket({ action_type: "volatility_anomalies", direction: "long_vol", limit: 201 })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("volatility_character action", () => {
+    it("passes sort parameters", async () => {
+      await handleMarket({ action_type: "volatility_character", sort: "hurst", dir: "desc" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/volatility/character/top", expect.objectContaining({
+        sort: "hurst",
+        dir: "desc",
+      }))
+    })
+  })
+
+  describe("vix_term_structure action", () => {
+    it("passes history_days", async () => {
+      await handleMarket({ action_type: "vix_term_structure", history_days: 180 })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/volatility/vix-term-structure", { history_days: 180 })
+    })
+  })
+
+  describe("options_pulse_sectors action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleMarket({ action_type: "options_pulse_sectors", date: "2024-01-15" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/options-pulse/sectors", { date: "2024-01-15" })
+    })
+  })
+
+  describe("options_pulse_top action", () => {
+    it("passes scanner filters", async () => {
+      await handleMarket({
+        action_type: "options_pulse_top",
+        direction: "bearish",
+        ticker: "NV",
+        min_score: -0.5,
+        min_txn: 100,
+        limit: 25,
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/options-pulse/top", expect.objectContaining({
+        direction: "bearish",
+        ticker: "NV",
+        min_score: -0.5,
+        min_txn: 100,
+        limit: 25,
+      }))
+    })
+
+    it("rejects an invalid direction", async () => {
+      const result = await handleMarket({ action_type: "options_pulse_top", direction: "sideways" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("options_pulse_total action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleMarket({ action_type: "options_pulse_total" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/options-pulse/total", { date: undefined })
+    })
+  })
+
+  describe("movers action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleMarket({ action_type: "movers" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/market/movers")
+    })
+  })
+
+  describe("ipo_calendar action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleMarket({ action_type: "ipo_calendar" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/calendar/ipo")
+    })
+  })
+
+  describe("unusual_activity action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleMarket({ action_type: "unusual_activity" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/option-activity/unusual", expect.any(Object))
+    })
+
+    it("passes preset overrides and array filters", async () => {
+      await handleMarket({
+        action_type: "unusual_activity",
+        ticker_symbol: "AAPL,MSFT",
+        sectors: ["Technology"],
+        issue_types: ["Common Stock", "ETF"],
+        unusual: false,
+        min_premium: 25000,
+        max_dte: 30,
+        limit: 50,
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/option-activity/unusual", expect.objectContaining({
+        ticker_symbol: "AAPL,MSFT",
+        "sectors[]": ["Technology"],
+        "issue_types[]": ["Common Stock", "ETF"],
+        unusual: "false",
+        min_premium: 25000,
+        max_dte: 30,
+        limit: 50,
+      }))
+    })
+
+    it("sends unusual=false in the request URL", async () => {
+      const actual = await vi.importActual<typeof import("../../../src/client.js")>("../../../src/client.js")
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve('{"data": []}'),
+      })
+      vi.stubEnv("UW_API_KEY", "test-api-key")
+      vi.stubGlobal("fetch", mockFetch)
+      mockUwFetch.mockImplementationOnce(actual.uwFetch)
+
+      try {
+        await handleMarket({ action_type: "unusual_activity", unusual: false })
+      } finally {
+        vi.unstubAllGlobals()
+        vi.unstubAllEnvs()
+      }
+
+      const url = new URL(mockFetch.mock.calls[0][0])
+      expect(url.pathname).toBe("/api/option-activity/unusual")
+      expect(url.searchParams.get("unusual")).toBe("false")
+    })
+
+    it("rejects limit above 200", async () => {
+      const result = await handleMarket({ action_type: "unusual_activity", limit: 201 })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
 })
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handlePredictions, predictionsTool } from "../../../src/tools/predictions.js"
+
+// Mock the client module
+vi.mock("../../../src/client.js", () => ({
+  uwFetch: vi.fn(),
+  formatResponse: vi.fn((result) => {
+    if (result.error) {
+      return JSON.stringify({ error: result.error }, null, 2)
+    }
+    return JSON.stringify(result.data, null, 2)
+  }),
+  formatError: vi.fn((message) => JSON.stringify({ error: message })),
+  encodePath: vi.fn((value) => {
+    if (value === undefined || value === null) {
+      throw new Error("Path parameter is required")
+    }
+    const str = String(value)
+    if (str.includes("/") || str.includes("\\") || str.includes("..")) {
+      throw new Error("Invalid path parameter")
+    }
+    return encodeURIComponent(str)
+  }),
+}))
+
+import { uwFetch } from "../../../src/client.js"
+
+const ASSET_ID = "78699665722135183571140787397681621204678465342167575193369860798796866652931"
+const USER_ID = "0x5140e6529f2108469c9386ad5acd7acb8cddae0c"
+
+describe("predictionsTool", () => {
+  it("has correct name", () => {
+    expect(predictionsTool.name).toBe("uw_predictions")
+  })
+
+  it("has a description", () => {
+    expect(predictionsTool.description).toBeDefined()
+    expect(predictionsTool.description).toContain("prediction market")
+  })
+
+  it("has inputSchema", () => {
+    expect(predictionsTool.inputSchema).toBeDefined()
+    // For discriminated unions, the schema has oneOf instead of type: "object"
+    expect(predictionsTool.inputSchema.oneOf || predictionsTool.inputSchema.type).toBeDefined()
+  })
+
+  it("has outputSchema", () => {
+    expect(predictionsTool.outputSchema).toBeDefined()
+  })
+
+  it("has correct annotations", () => {
+    expect(predictionsTool.annotations).toEqual({
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    })
+  })
+})
+
+describe("handlePredictions", () => {
+  const mockUwFetch = uwFetch as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUwFetch.mockResolvedValue({ data: { test: "data" } })
+  })
+
+  describe("input validation", () => {
+    it("returns error for invalid action", async () => {
+      const result = await handlePredictions({ action_type: "invalid_action" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for missing action", async () => {
+      const result = await handlePredictions({})
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("insiders action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePredictions({ action_type: "insiders" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/predictions/insiders")
+    })
+  })
+
+  describe("market action", () => {
+    it("returns error when asset_id is missing", async () => {
+      const result = await handlePredictions({ action_type: "market" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePredictions({ action_type: "market", asset_id: ASSET_ID })
+      expect(mockUwFetch).toHaveBeenCalledWith(`/api/predictions/market/${ASSET_ID}`)
+    })
+  })
+
+  describe("liquidity action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePredictions({ action_type: "liquidity", asset_id: ASSET_ID })
+      expect(mockUwFetch).toHaveBeenCalledWith(`/api/predictions/market/${ASSET_ID}/liquidity`)
+    })
+
+    it("rejects path traversal in asset_id", async () => {
+      const result = await handlePredictions({ action_type: "liquidity", asset_id: "../insiders" })
+      expect(result.text).toContain("Invalid asset_id")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("positions action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePredictions({ action_type: "positions", asset_id: ASSET_ID })
+      expect(mockUwFetch).toHaveBeenCalledWith(`/api/predictions/market/${ASSET_ID}/positions`)
+    })
+  })
+
+  describe("search_users action", () => {
+    it("returns error when q is missing", async () => {
+      const result = await handlePredictions({ action_type: "search_users" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with the query", async () => {
+      await handlePredictions({ action_type: "search_users", q: "whale" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/predictions/search-users", { q: "whale" })
+    })
+  })
+
+  describe("smart_money action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePredictions({ action_type: "smart_money" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/predictions/smart-money", expect.any(Object))
+    })
+
+    it("passes filter parameters", async () => {
+      await handlePredictions({
+        action_type: "smart_money",
+        categories: "Politics,Sports",
+        min_price: 0.2,
+        max_price: 0.8,
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/predictions/smart-money", {
+        categories: "Politics,Sports",
+        min_price: 0.2,
+        max_price: 0.8,
+      })
+    })
+
+    it("returns error for prices outside 0-1", async () => {
+      const result = await handlePredictions({ action_type: "smart_money", max_price: 1.5 })
+      expect(result.text).toContain("Price must be between 0 and 1")
+    })
+  })
+
+  describe("unusual action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePredictions({ action_type: "unusual" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/predictions/unusual", expect.any(Object))
+    })
+
+    it("passes pagination parameters", async () => {
+      await handlePredictions({ action_type: "unusual", categories: "Crypto", limit: 25, offset: 50 })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/predictions/unusual", {
+        categories: "Crypto",
+        limit: 25,
+        offset: 50,
+      })
+    })
+
+    it("returns error for negative offset", async () => {
+      const result = await handlePredictions({ action_type: "unusual", offset: -1 })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("user action", () => {
+    it("returns error when user_id is missing", async () => {
+      const result = await handlePredictions({ action_type: "user" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePredictions({ action_type: "user", user_id: USER_ID })
+      expect(mockUwFetch).toHaveBeenCalledWith(`/api/predictions/user/${USER_ID}`)
+    })
+  })
+
+  describe("whales action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePredictions({ action_type: "whales" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/predictions/whales")
+    })
+  })
+})
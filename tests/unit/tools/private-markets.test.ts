@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handlePrivateMarkets, privateMarketsTool } from "../../../src/tools/private-markets.js"
+
+// Mock the client module
+vi.mock("../../../src/client.js", () => ({
+  uwFetch: vi.fn(),
+  formatResponse: vi.fn((result) => {
+    if (result.error) {
+      return JSON.stringify({ error: result.error }, null, 2)
+    }
+    return JSON.stringify(result.data, null, 2)
+  }),
+  formatError: vi.fn((message) => JSON.stringify({ error: message })),
+  encodePath: vi.fn((value) => {
+    if (value === undefined || value === null) {
+      throw new Error("Path parameter is required")
+    }
+    const str = String(value)
+    if (str.includes("/") || str.includes("\\") || str.includes("..")) {
+      throw new Error("Invalid path parameter")
+    }
+    return encodeURIComponent(str)
+  }),
+}))
+
+import { uwFetch } from "../../../src/client.js"
+
+
+
+describe("privateMarketsTool", () => {
+  it("has correct name", () => {
+    expect(privateMarketsTool.name).toBe("uw_private_markets")
+  })
+
+  it("has a description", () => {
+    expect(privateMarketsTool.description).toBeDefined()
+    expect(privateMarketsTool.description).toContain("Private Markets")
+  })
+
+  it("has inputSchema", () => {
+    expect(privateMarketsTool.inputSchema).toBeDefined()
+    // For discriminated unions, the schema has oneOf instead of type: "object"
+    expect(privateMarketsTool.inputSchema.oneOf || privateMarketsTool.inputSchema.type).toBeDefined()
+  })
+
+  it("has correct annotations", () => {
+    expect(privateMarketsTool.annotations).toEqual({
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    })
+  })
+})
+
+describe("handlePrivateMarkets", () => {
+  const mockUwFetch = uwFetch as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUwFetch.mockResolvedValue({ data: { test: "data" } })
+  })
+
+  describe("input validation", () => {
+    it("returns error for invalid action", async () => {
+      const result = await handlePrivateMarkets({ action_type: "invalid_action" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for missing action", async () => {
+      const result = await handlePrivateMarkets({})
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("rejects npm_ticker with path characters", async () => {
+      const result = await handlePrivateMarkets({ action_type: "company", npm_ticker: "../search" })
+      expect(result.text).toContain("NPM ticker may only contain letters, digits, dots, and hyphens")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
+    it("rejects npm_ticker with spaces", async () => {
+      const result = await handlePrivateMarkets({ action_type: "company", npm_ticker: "OPEN AI" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("rejects overly long npm_ticker", async () => {
+      const result = await handlePrivateMarkets({ action_type: "company", npm_ticker: "A".repeat(21) })
+      expect(result.text).toContain("NPM ticker too long")
+    })
+  })
+
+  describe("search action", () => {
+    it("returns error when query is missing", async () => {
+      const result = await handlePrivateMarkets({ action_type: "search" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with the query", async () => {
+      await handlePrivateMarkets({ action_type: "search", query: "open", limit: 5 })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/private-markets/search", { query: "open", limit: 5 })
+    })
+
+    it("returns error for limit above 50", async () => {
+      const result = await handlePrivateMarkets({ action_type: "search", query: "open", limit: 51 })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("companies action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePrivateMarkets({ action_type: "companies" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/private-markets/companies", expect.any(Object))
+    })
+
+    it("passes filter parameters", async () => {
+      await handlePrivateMarkets({ action_type: "companies", sector: "Technology", name: "ai", limit: 20, offset: 40 })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/private-markets/companies", {
+        sector: "Technology",
+        name: "ai",
+        limit: 20,
+        offset: 40,
+      })
+    })
+  })
+
+  describe("company action", () => {
+    it("returns error when npm_ticker is missing", async () => {
+      const result = await handlePrivateMarkets({ action_type: "company" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePrivateMarkets({ action_type: "company", npm_ticker: "OPENAI" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/private-markets/companies/OPENAI")
+    })
+  })
+
+  describe("funding action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePrivateMarkets({ action_type: "funding", npm_ticker: "OPENAI", limit: 10 })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/private-markets/companies/OPENAI/funding", expect.objectContaining({
+        limit: 10,
+      }))
+    })
+  })
+
+  describe("company_investors action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePrivateMarkets({ action_type: "company_investors", npm_ticker: "OPENAI" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/private-markets/companies/OPENAI/investors", expect.any(Object))
+    })
+  })
+
+  describe("management action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePrivateMarkets({ action_type: "management", npm_ticker: "OPENAI" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/private-markets/companies/OPENAI/management", expect.any(Object))
+    })
+  })
+
+  describe("pricing action", () => {
+    it("passes date range parameters", async () => {
+      await handlePrivateMarkets({
+        action_type: "pricing",
+        npm_ticker: "OPENAI",
+        start_date: "2025-01-01",
+        end_date: "2025-06-30",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/private-markets/companies/OPENAI/pricing", expect.objectContaining({
+        start_date: "2025-01-01",
+        end_date: "2025-06-30",
+      }))
+    })
+
+    it("returns error for invalid date format", async () => {
+      const result = await handlePrivateMarkets({ action_type: "pricing", npm_ticker: "OPENAI", start_date: "01/01/2025" })
+      expect(result.text).toContain("Date must be in YYYY-MM-DD format")
+    })
+  })
+
+  describe("investors action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handlePrivateMarkets({ action_type: "investors", limit: 25 })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/private-markets/investors", expect.objectContaining({
+        limit: 25,
+      }))
+    })
+  })
+
+  describe("investor action", () => {
+    it("returns error when name is missing", async () => {
+      const result = await handlePrivateMarkets({ action_type: "investor" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("URL-encodes the investor name", async () => {
+      await handlePrivateMarkets({ action_type: "investor", name: "Sequoia Capital" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/private-markets/investors/Sequoia%20Capital")
+    })
+
+    it("URL-encodes a slash in the investor name", async () => {
+      await handlePrivateMarkets({ action_type: "investor", name: "A/B Partners" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/private-markets/investors/A%2FB%20Partners")
+    })
+
+    it("rejects a dot segment as the investor name", async () => {
+      const result = await handlePrivateMarkets({ action_type: "investor", name: ".." })
+      expect(result.text).toContain("Invalid name")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -118,4 +118,39 @@ describe("handleShorts", () => {
       expect(mockUwFetch).toHaveBeenCalledWith("/api/shorts/NVDA/volumes-by-exchange")
     })
   })
+
+  describe("screener action", () => {
+    it("calls correct endpoint", async () => {
+      await handleShorts({ action_type: "screener" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/short_screener", expect.any(Object))
+    })
+
+    it("passes filter parameters", async () => {
+      await handleShorts({
+        action_type: "screener",
+        tickers: "GME,AMC",
+        min_si_float: 20,
+        min_days_to_cover: 3.5,
+        max_fee_rate: 50,
+        min_market_date: "2024-01-01",
+        order_by: "si_float",
+        order_direction: "asc",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/short_screener", expect.objectContaining({
+        tickers: "GME,AMC",
+        min_si_float: 20,
+        min_days_to_cover: 3.5,
+        max_fee_rate: 50,
+        min_market_date: "2024-01-01",
+        order_by: "si_float",
+        order_direction: "asc",
+      }))
+    })
+
+    it("rejects a malformed market date", async () => {
+      const result = await handleShorts({ action_type: "screener", max_market_date: "01/15/2024" })
+      expect(result.text).toContain("Invalid input")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { handleStatus, statusTool } from "../../../src/tools/status.js"
+import { runWithRequestContext } from "../../../src/request-context.js"
+import { quotaTracker, getKeyFingerprint } from "../../../src/quota.js"
+import { uwFetch } from "../../../src/client.js"
+
+describe("statusTool", () => {
+  it("has correct name", () => {
+    expect(statusTool.name).toBe("uw_status")
+  })
+
+  it("has a description", () => {
+    expect(statusTool.description).toBeDefined()
+    expect(statusTool.description).toContain("quota")
+  })
+
+  it("has inputSchema", () => {
+    expect(statusTool.inputSchema).toBeDefined()
+  })
+
+  it("has correct annotations", () => {
+    expect(statusTool.annotations).toEqual({
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    })
+  })
+})
+
+describe("handleStatus", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  describe("input validation", () => {
+    it("returns error for invalid action", async () => {
+      const result = await handleStatus({ action_type: "invalid_action" })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("quota action", () => {
+    it("returns usage for the API key of the current request", async () => {
+      quotaTracker.record("status-test-key", new Headers({ "x-uw-daily-req-count": "42", "x-uw-token-req-limit": "20000" }))
+
+      const result = await runWithRequestContext({ apiKey: "status-test-key" }, () =>
+        handleStatus({ action_type: "quota" }),
+      )
+
+      expect(result.structuredContent).toMatchObject({
+        client: getKeyFingerprint("status-test-key"),
+        daily_count: 42,
+        daily_limit: 20000,
+        remaining: 19958,
+      })
+    })
+
+    it("returns error without an API key", async () => {
+      delete process.env.UW_API_KEY
+
+      const result = await handleStatus({ action_type: "quota" })
+      expect(result.text).toContain("UW_API_KEY")
+    })
+  })
+  describe("circuit_breakers action", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it("returns no breakers before any requests", async () => {
+      const result = await runWithRequestContext({ apiKey: "fresh-key" }, () =>
+        handleStatus({ action_type: "circuit_breakers" }),
+      )
+      expect(result.structuredContent).toEqual({ breakers: [] })
+    })
+
+    it("returns a breaker per endpoint group", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve("{}") }))
+
+      const result = await runWithRequestContext({ apiKey: "breaker-key" }, async () => {
+        await uwFetch("/api/alerts")
+        await uwFetch("/api/stock/AAPL/info")
+        return handleStatus({ action_type: "circuit_breakers" })
+      })
+
+      const data = result.structuredContent as { breakers: { group: string; state: string }[] }
+      expect(data.breakers.map((b) => b.group)).toEqual(["alerts", "stock"])
+      expect(data.breakers[0].state).toBe("CLOSED")
+    })
+  })
+
+  describe("reset_circuit_breaker action", () => {
+    it("requires a group", async () => {
+      const result = await handleStatus({ action_type: "reset_circuit_breaker" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("returns error for unknown groups", async () => {
+      const result = await runWithRequestContext({ apiKey: "fresh-key" }, () =>
+        handleStatus({ action_type: "reset_circuit_breaker", group: "nope" }),
+      )
+      expect(result.text).toContain('No circuit breaker for endpoint group \\"nope\\"')
+    })
+
+    it("resets an existing breaker", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve("{}") }))
+
+      const result = await runWithRequestContext({ apiKey: "reset-key" }, async () => {
+        await uwFetch("/api/alerts")
+        return handleStatus({ action_type: "reset_circuit_breaker", group: "alerts" })
+      })
+      vi.unstubAllGlobals()
+
+      expect(result.structuredContent).toEqual({ reset: "alerts" })
+    })
+  })
+})
@@ -518,6 +518,37 @@ describe("handleStock", () => {
     })
   })
 
+  describe("volatility_anomaly action", () => {
+    it("returns error when ticker is missing", async () => {
+      const result = await handleStock({ action_type: "volatility_anomaly" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleStock({ action_type: "volatility_anomaly", ticker: "TSLA", date: "2024-01-15" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/stock/TSLA/volatility/anomaly", { date: "2024-01-15" })
+    })
+  })
+
+  describe("volatility_character action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleStock({ action_type: "volatility_character", ticker: "SPY" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/stock/SPY/volatility/character", { date: undefined })
+    })
+  })
+
+  describe("variance_risk_premium action", () => {
+    it("returns error when ticker is missing", async () => {
+      const result = await handleStock({ action_type: "variance_risk_premium" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleStock({ action_type: "variance_risk_premium", ticker: "AAPL" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/stock/AAPL/volatility/variance-risk-premium", { date: undefined })
+    })
+  })
+
   describe("stock_state action", () => {
     it("returns error when ticker is missing", async () => {
       const result = await handleStock({ action_type: "stock_state" })
@@ -530,6 +561,65 @@ describe("handleStock", () => {
     })
   })
 
+  describe("quote action", () => {
+    it("returns error when ticker is missing", async () => {
+      const result = await handleStock({ action_type: "quote" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleStock({ action_type: "quote", ticker: "AAPL" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/stock/AAPL/quote")
+    })
+  })
+
+  describe("options_pulse action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleStock({ action_type: "options_pulse", ticker: "NVDA", date: "2024-01-15" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/stock/NVDA/options-pulse", { date: "2024-01-15" })
+    })
+  })
+
+  describe("option_stance action", () => {
+    it("returns error when stance is missing", async () => {
+      const result = await handleStock({ action_type: "option_stance", ticker: "RBLX" })
+      expect(result.text).toContain("Invalid input")
+    })
+
+    it("rejects an unknown stance", async () => {
+      const result = await handleStock({ action_type: "option_stance", ticker: "RBLX", stance: "yolo" })
+      expect(result.text).toContain("Invalid input")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
+    it("passes stance parameters", async () => {
+      await handleStock({
+        action_type: "option_stance",
+        ticker: "RBLX",
+        stance: "sell_premium",
+        limit: 10,
+        type: "Puts",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/stock/RBLX/option-stance", expect.objectContaining({
+        stance: "sell_premium",
+        limit: 10,
+        type: "Puts",
+      }))
+    })
+
+    it("rejects limit above 100", async () => {
+      const result = await handleStock({ action_type: "option_stance", ticker: "RBLX", stance: "leaps", limit: 101 })
+      expect(result.text).toContain("Invalid input")
+    })
+  })
+
+  describe("gex_levels action", () => {
+    it("calls uwFetch with correct endpoint", async () => {
+      await handleStock({ action_type: "gex_levels", ticker: "SPY" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/stock/SPY/gex-levels", { date: undefined })
+    })
+  })
+
   describe("insider_buy_sells action", () => {
     it("returns error when ticker is missing", async () => {
       const result = await handleStock({ action_type: "insider_buy_sells" })
@@ -781,4 +871,64 @@ describe("handleStock", () => {
       expect(result.text).toContain("Invalid input")
     })
   })
+
+  describe("technical_indicator action", () => {
+    it("calls uwFetch with correct endpoint and defaults", async () => {
+      await handleStock({ action_type: "technical_indicator", ticker: "AAPL", function: "RSI" })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/stock/AAPL/technical-indicator/RSI", {
+        interval: "daily",
+        month: undefined,
+        time_period: 14,
+        series_type: "close",
+      })
+    })
+
+    it("passes month for intraday intervals", async () => {
+      await handleStock({
+        action_type: "technical_indicator",
+        ticker: "AAPL",
+        function: "VWAP",
+        interval: "5min",
+        month: "2026-02",
+      })
+      expect(mockUwFetch).toHaveBeenCalledWith("/api/stock/AAPL/technical-indicator/VWAP", {
+        interval: "5min",
+        month: "2026-02",
+        time_period: undefined,
+        series_type: undefined,
+      })
+    })
+
+    it("rejects time_period for functions that do not take it", async () => {
+      const result = await handleStock({ action_type: "technical_indicator", ticker: "AAPL", function: "STOCH", time_period: 5 })
+      expect(result.text).toContain("Unrecognized key")
+      expect(result.text).toContain("time_period")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
+    it("rejects series_type for functions that do not take it", async () => {
+      const result = await handleStock({ action_type: "technical_indicator", ticker: "AAPL", function: "ADX", series_type: "open" })
+      expect(result.text).toContain("series_type")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
+    it("lists supported functions for an unknown function", async () => {
+      const result = await handleStock({ action_type: "technical_indicator", ticker: "AAPL", function: "FOO" })
+      expect(result.text).toContain("Unsupported technical indicator function")
+      expect(result.text).toContain("MACD")
+      expect(result.text).toContain("VWAP")
+    })
+
+    it("rejects VWAP with a daily interval", async () => {
+      const result = await handleStock({ action_type: "technical_indicator", ticker: "AAPL", function: "VWAP", interval: "daily" })
+      expect(result.text).toContain("Invalid input")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+
+    it("rejects month with a non-intraday interval", async () => {
+      const result = await handleStock({ action_type: "technical_indicator", ticker: "AAPL", function: "SMA", month: "2026-02" })
+      expect(result.text).toContain("month is only supported with intraday intervals")
+      expect(mockUwFetch).not.toHaveBeenCalled()
+    })
+  })
 })